@@ -0,0 +1,99 @@
+import React, { useState } from "react";
+import { Plus, Trash2, Archive, ArchiveRestore, Landmark, CreditCard, Wallet, PiggyBank, CheckSquare } from "lucide-react";
+import type { Account, AccountType } from "./types";
+import { ACCOUNT_TYPE_LABELS } from "./services/accounts";
+
+type Props = {
+  accounts: Account[];
+  balances: Record<string, number>;
+  formatMoney: (n: number) => string;
+  onAdd: (account: Omit<Account, "id">) => void;
+  onUpdate: (account: Account) => void;
+  onDelete: (account: Account) => void;
+  onReconcile: (account: Account) => void;
+  reconciledThrough: (accountId: string) => string | undefined;
+};
+
+const inputClass =
+  "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm font-medium outline-none focus:ring-1 focus:ring-blue-500 text-slate-900 dark:text-white";
+
+export function AccountIcon({ type, size = 18 }: { type: AccountType; size?: number }) {
+  if (type === "credit_card") return <CreditCard size={size} />;
+  if (type === "cash") return <Wallet size={size} />;
+  if (type === "savings") return <PiggyBank size={size} />;
+  return <Landmark size={size} />;
+}
+
+export default function AccountsManager({ accounts, balances, formatMoney, onAdd, onUpdate, onDelete, onReconcile, reconciledThrough }: Props) {
+  const [name, setName] = useState("");
+  const [type, setType] = useState<AccountType>("checking");
+  const [openingBalance, setOpeningBalance] = useState("");
+
+  const addAccount = () => {
+    if (!name.trim()) return;
+    onAdd({ name: name.trim(), type, openingBalance: Number(openingBalance) || 0 });
+    setName("");
+    setOpeningBalance("");
+  };
+
+  return (
+    <div className="space-y-5">
+      {accounts.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">Add your checking, credit card and cash accounts to track a balance for each and record transfers between them.</p>
+      ) : (
+        <div className="divide-y divide-slate-200 dark:divide-slate-800 rounded-lg border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+          {accounts.map(account => (
+            <div key={account.id} className={`flex items-center gap-3 px-4 py-3 ${account.archived ? "opacity-50" : ""}`}>
+              <div className="w-9 h-9 rounded-full bg-blue-50 text-blue-600 dark:bg-blue-500/10 dark:text-blue-400 flex items-center justify-center flex-shrink-0">
+                <AccountIcon type={account.type} size={16} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <input
+                  type="text"
+                  value={account.name}
+                  onChange={e => onUpdate({ ...account, name: e.target.value })}
+                  className="w-full bg-transparent text-sm font-bold text-slate-900 dark:text-white outline-none focus:ring-1 focus:ring-blue-500 rounded px-1"
+                />
+                <div className="text-xs text-slate-500 dark:text-slate-400 px-1">
+                  {ACCOUNT_TYPE_LABELS[account.type]} · Opening {formatMoney(account.openingBalance)}{reconciledThrough(account.id) ? ` · Reconciled through ${reconciledThrough(account.id)}` : ""}{account.archived ? " · Archived" : ""}
+                </div>
+              </div>
+              <div className={`text-sm font-bold whitespace-nowrap ${(balances[account.id] || 0) < 0 ? "text-red-600 dark:text-red-400" : "text-slate-900 dark:text-white"}`}>
+                {formatMoney(balances[account.id] || 0)}
+              </div>
+              <button onClick={() => onReconcile(account)} className="p-1 text-slate-400 hover:text-blue-600" title="Reconcile">
+                <CheckSquare size={16} />
+              </button>
+              <button onClick={() => onUpdate({ ...account, archived: !account.archived })} className="p-1 text-slate-400 hover:text-blue-600" title={account.archived ? "Unarchive" : "Archive"}>
+                {account.archived ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+              </button>
+              <button onClick={() => onDelete(account)} className="p-1 text-slate-400 hover:text-red-600" title="Delete account">
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label className="text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block">Account Name</label>
+          <input type="text" value={name} onChange={e => setName(e.target.value)} className={inputClass} placeholder="e.g. Business Checking" />
+        </div>
+        <div>
+          <label className="text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block">Type</label>
+          <select value={type} onChange={e => setType(e.target.value as AccountType)} className={inputClass}>
+            {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map(t => <option key={t} value={t}>{ACCOUNT_TYPE_LABELS[t]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block">Opening Balance</label>
+          <input type="number" value={openingBalance} onChange={e => setOpeningBalance(e.target.value)} className={inputClass} placeholder={type === "credit_card" ? "-0.00 owed" : "0.00"} />
+        </div>
+      </div>
+      <button onClick={addAccount} disabled={!name.trim()} className="w-full flex items-center justify-center gap-2 py-3 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold uppercase tracking-wider disabled:opacity-50 transition-colors">
+        <Plus size={16} /> Add Account
+      </button>
+    </div>
+  );
+}
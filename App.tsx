@@ -73,13 +73,121 @@ import {
   Camera,
   Eye,
   ToggleLeft,
-  ToggleRight
+  ToggleRight,
+  Split,
+  ArrowLeftRight,
+  Lock,
+  CheckSquare,
+  Undo2,
+  ArrowRightCircle,
+  Send,
+  BellRing,
+  Mail
 } from 'lucide-react';
-import { Page, Transaction, Invoice, UserSettings, Notification, FilterPeriod, RecurrenceFrequency, FilingStatus, TaxPayment, TaxEstimationMethod, InvoiceItem, CustomCategories, Receipt as ReceiptType } from './types';
-import { CATS_IN, CATS_OUT, CATS_BILLING, DEFAULT_PAY_PREFS, DB_KEY, TAX_CONSTANTS, TAX_PLANNER_2026, getFreshDemoData } from './constants';
+import { Page, Transaction, TransactionSplit, Account, Invoice, UserSettings, Notification, FilterPeriod, RecurrenceFrequency, FilingStatus, TaxPayment, TaxEstimationMethod, InvoiceItem, InvoicePayment, AppliedCredit, CustomCategories, CategoryRule, Client, ClientCredit, Quote, QuoteStatus, LateFeeRule, CatalogItem, Reconciliation, PeriodUnlock, AuditEntry, TrashItem, LedgerQuery, LedgerFilterPreset, DateRange, Receipt as ReceiptType } from './types';
+import { CATS_IN, CATS_OUT, CATS_BILLING, DEFAULT_PAY_PREFS, SCHEMA_VERSION, TAX_CONSTANTS, TAX_PLANNER_2026, getFreshDemoData } from './constants';
 import InsightsDashboard from './InsightsDashboard';
+import ImportTransactions from './ImportTransactions';
+import CategoryRulesManager from './CategoryRulesManager';
+import AccountsManager, { AccountIcon } from './AccountsManager';
+import ReconcileAccount from './ReconcileAccount';
+import PeriodCloseSettings from './PeriodCloseSettings';
+import RecordHistory from './RecordHistory';
+import QuoteList from './QuoteList';
+import InvoiceTimeline from './InvoiceTimeline';
+import InvoiceRemindersPanel from './InvoiceRemindersPanel';
+import LateFeeSettings from './LateFeeSettings';
+import ClientDirectory from './ClientDirectory';
+import ClientDetail from './ClientDetail';
+import CatalogManager from './CatalogManager';
+import TrashBin from './TrashBin';
+import BulkActionBar from './BulkActionBar';
+import LedgerFilterPanel from './LedgerFilterPanel';
+import InvoicePaymentsPanel from './InvoicePaymentsPanel';
+import InvoiceCreditsPanel from './InvoiceCreditsPanel';
+import InvoiceNumberingSettings from './InvoiceNumberingSettings';
+import EmailDeliverySettings from './EmailDeliverySettings';
+import SendInvoiceDialog from './SendInvoiceDialog';
 import { getInsightCount } from './services/insightsEngine';
+import { loadPersistedData, saveChanges, loadSmtpToken, saveSmtpToken, type PersistedData } from './services/dataStore';
+import { migrateData, getBackupSchemaVersion, SchemaVersionError } from './services/migrations';
+import type { ImportedTransaction } from './services/transactionImport';
+import { categorize, applyRuleChanges, type RuleChange } from './services/categoryRules';
+import { buildSuggestionIndex, suggestCategories } from './services/categorySuggest';
+import { isSplit, totalsByCategory, validateSplits, primaryCategory, splitsTotal } from './services/splits';
+import { accountBalances, runningBalances, touchesAccount, TRANSFER_CATEGORY, ACCOUNT_TYPE_LABELS } from './services/accounts';
+import { touchesClosedPeriod } from './services/periodClose';
+import { invoiceTotals, isTaxableLine } from './services/invoiceTotals';
+import { amountPaid, amountCredited, balanceDue, isOutstanding, statusFromPayments, sumPayments } from './services/invoicePayments';
+import { DEFAULT_INVOICE_NUMBERING, issueInvoiceNumber, isInvoiceNumberTaken } from './services/invoiceNumbering';
+import { withStatus, openStatus, statusChange, isBilled, canMarkSent } from './services/invoiceStatus';
+import { DEFAULT_LATE_FEE_RULE, lateFeeRuleFor, pendingLateFees, describeLateFeeRule, type PendingLateFee } from './services/lateFees';
+import { DEFAULT_REMINDER_SCHEDULE, dueReminder, nextReminder, reminderDate, reminderMessage } from './services/paymentReminders';
+import { DEFAULT_INVOICE_EMAIL, createTransport, fillTemplate, invoiceTemplateValues, EmailDeliveryError } from './services/emailDelivery';
+import { nextQuoteNumber, quoteToDraft, quoteFieldsFromDraft, invoiceFromQuote, quoteStatus, DEFAULT_QUOTE_VALID_DAYS, QUOTE_STATUS_LABELS } from './services/quotes';
+import { availableCredits, creditNoteLimit, creditNotesFor, creditRemaining, nextCreditNumber, CREDIT_KIND_LABELS } from './services/credits';
+import { lineFromCatalog, formatQuantity, CATALOG_UNIT_LABELS } from './services/catalog';
+import { applyClientToInvoice, clientFromInvoice, currencyFormatter, currencyOf, invoicesForClient, CURRENCY_OPTIONS } from './services/clients';
+import { periodRange, periodLabel, shiftPeriod, isInRange, fiscalYearToDate, fiscalYearLabel, toDateString, MONTH_NAMES } from './services/periods';
+import { EMPTY_LEDGER_QUERY, hasDateRange, isQueryActive, matchesLedgerQuery } from './services/ledgerFilter';
+import { recategorize, canRecategorize, shiftDate, shiftTransactionDates, shiftInvoiceDates, selectionToCsv } from './services/bulkActions';
+import { toTrash, addToTrash, purgeExpired, trashItemDates } from './services/trash';
+import { emptyHistory, pushUndo, stepBack, stepForward, listPatch, applyListPatch, fieldPatch, type UndoHistory, type ListPatch } from './services/undoHistory';
+import { diffForAudit, diffSettingsForAudit, appendAuditEntries, dataReplacedEntry, historyFor, auditLogToCsv } from './services/auditLog';
+import { isReconciled, reconciliationLockError, applyReconciliation, undoReconciliation, lastReconciliation } from './services/reconciliation';
 // --- Utility: UUID Generator ---
+// The state undo/redo works on
+type AppSnapshot = {
+  transactions: Transaction[];
+  invoices: Invoice[];
+  taxPayments: TaxPayment[];
+  receipts: ReceiptType[];
+  accounts: Account[];
+  clients: Client[];
+  credits: ClientCredit[];
+  quotes: Quote[];
+  catalogItems: CatalogItem[];
+  reconciliations: Reconciliation[];
+  categoryRules: CategoryRule[];
+  customCategories: CustomCategories;
+  settings: UserSettings;
+  trash: TrashItem[];
+};
+
+// Lists are restored record by record, settings field by field, so undo never takes back unrelated edits
+const UNDO_LISTS = ['transactions', 'invoices', 'taxPayments', 'receipts', 'accounts', 'clients', 'credits', 'quotes', 'catalogItems', 'reconciliations', 'categoryRules', 'trash'] as const;
+type UndoList = typeof UNDO_LISTS[number];
+// The close date and the unlock log only change through their own actions
+const UNDO_SKIPPED_SETTINGS: (keyof UserSettings)[] = ['closingDate', 'periodUnlocks'];
+
+type AppPatch = { [K in UndoList]?: ListPatch<AppSnapshot[K][number]> } & { settings?: Partial<UserSettings>; customCategories?: CustomCategories };
+
+/** The patch that turns `from` into `to`. */
+const snapshotPatch = (from: AppSnapshot, to: AppSnapshot): AppPatch => {
+  const patch: Record<string, unknown> = {};
+  UNDO_LISTS.forEach(key => {
+    const list = listPatch<{ id: string }>(from[key], to[key]);
+    if (list) patch[key] = list;
+  });
+  const settings = fieldPatch(from.settings, to.settings, UNDO_SKIPPED_SETTINGS);
+  if (settings) patch.settings = settings;
+  if (from.customCategories !== to.customCategories) patch.customCategories = to.customCategories;
+  return patch as AppPatch;
+};
+
+const applySnapshotPatch = (state: AppSnapshot, patch: AppPatch): AppSnapshot => {
+  const next: Record<string, unknown> = { ...state };
+  UNDO_LISTS.forEach(key => {
+    const list = patch[key] as ListPatch<{ id: string }> | undefined;
+    if (list) next[key] = applyListPatch<{ id: string }>(state[key], list);
+  });
+  if (patch.settings) next.settings = { ...state.settings, ...patch.settings };
+  if (patch.customCategories) next.customCategories = patch.customCategories;
+  return next as AppSnapshot;
+};
+
+const SETTINGS_AUDIT_DELAY_MS = 2000;
+
 const generateId = (prefix: string) => {
   if (typeof crypto !== 'undefined' && crypto.randomUUID) {
     return `${prefix}_${crypto.randomUUID()}`;
@@ -87,6 +195,8 @@ const generateId = (prefix: string) => {
   return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 };
 
+const auditContext = (settings: UserSettings) => ({ at: new Date().toISOString(), actor: settings.ownerName || undefined, makeId: () => generateId('audit') });
+
 // --- Utility: Image Compressor ---
 const compressReceiptImage = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -140,24 +250,6 @@ const downloadReceiptToDevice = (dataUrl: string) => {
 };
 
 // --- Utility: Date Helpers ---
-const getStartOfWeek = (date: Date) => {
-  const d = new Date(date);
-  const day = d.getDay();
-  const diff = d.getDate() - day + (day === 0 ? -6 : 1); 
-  return new Date(d.setDate(diff));
-};
-
-const getEndOfWeek = (date: Date) => {
-  const d = getStartOfWeek(date);
-  d.setDate(d.getDate() + 6);
-  return d;
-};
-
-const formatDateRange = (start: Date, end: Date) => {
-  const opts: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' };
-  return `${start.toLocaleDateString('en-US', opts)} - ${end.toLocaleDateString('en-US', opts)}`;
-};
-
 const getDaysOverdue = (dueDate: string) => {
   if (!dueDate) return 0;
   const due = new Date(dueDate);
@@ -287,6 +379,7 @@ const ToastContainer: React.FC<{ notifications: Notification[]; remove: (id: str
         >
            {n.type === 'success' ? <CheckCircle size={18} /> : n.type === 'error' ? <AlertTriangle size={18} /> : <Info size={18} />}
            <span className="text-sm font-bold">{n.message}</span>
+           {n.action && <button onClick={(e) => { e.stopPropagation(); n.action!.onClick(); remove(n.id); }} className="ml-2 text-xs font-bold uppercase tracking-wider underline underline-offset-2 hover:opacity-70">{n.action.label}</button>}
         </div>
       ))}
     </div>
@@ -381,41 +474,20 @@ const PeriodSelector: React.FC<{
   period: FilterPeriod, 
   setPeriod: (p: FilterPeriod) => void,
   refDate: Date,
-  setRefDate: (d: Date) => void 
-}> = ({ period, setPeriod, refDate, setRefDate }) => {
-
-  const navigateDate = (dir: number) => {
-    const newDate = new Date(refDate);
-    if (period === 'daily') newDate.setDate(newDate.getDate() + dir);
-    else if (period === 'weekly') newDate.setDate(newDate.getDate() + (dir * 7));
-    else if (period === 'monthly') newDate.setMonth(newDate.getMonth() + dir);
-    else if (period === 'yearly') newDate.setFullYear(newDate.getFullYear() + dir);
-    setRefDate(newDate);
-  };
-
-  const getLabel = () => {
-    if (period === 'all') return 'All Time';
-    if (period === 'daily') {
-       return refDate.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
-    }
-    if (period === 'weekly') {
-       const start = getStartOfWeek(refDate);
-       const end = getEndOfWeek(refDate);
-       return formatDateRange(start, end);
-    }
-    if (period === 'monthly') {
-       return refDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
-    }
-    if (period === 'yearly') {
-       return refDate.getFullYear().toString();
-    }
-    return '';
-  };
+  setRefDate: (d: Date) => void,
+  fiscalYearStartMonth?: number,
+  customRange: DateRange,
+  setCustomRange: (r: DateRange) => void
+}> = ({ period, setPeriod, refDate, setRefDate, fiscalYearStartMonth, customRange, setCustomRange }) => {
+
+  const navigateDate = (dir: number) => setRefDate(shiftPeriod(period, refDate, dir));
+
+  const dateInputClass = "flex-1 min-w-0 bg-transparent px-2 py-1.5 text-sm font-bold text-slate-900 dark:text-white outline-none";
 
   return (
     <div className="mb-6 space-y-4">
        <div className="flex bg-slate-100 dark:bg-slate-900 p-1 rounded-lg border border-slate-200 dark:border-slate-800 overflow-x-auto custom-scrollbar">
-          {(['all', 'daily', 'weekly', 'monthly', 'yearly'] as FilterPeriod[]).map(p => (
+          {(['all', 'daily', 'weekly', 'monthly', 'quarterly', 'yearly', 'custom'] as FilterPeriod[]).map(p => (
             <button
               key={p}
               onClick={() => setPeriod(p)}
@@ -425,19 +497,28 @@ const PeriodSelector: React.FC<{
                 : 'text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-slate-200'
               }`}
             >
-              {p === 'daily' ? 'Day' : p === 'weekly' ? 'Week' : p === 'monthly' ? 'Month' : p === 'yearly' ? 'Year' : 'All'}
+              {p === 'daily' ? 'Day' : p === 'weekly' ? 'Week' : p === 'monthly' ? 'Month' : p === 'quarterly' ? 'Qtr' : p === 'yearly' ? 'Year' : p === 'custom' ? 'Range' : 'All'}
             </button>
           ))}
        </div>
 
-       {period !== 'all' && (
+       {period === 'custom' && (
+         <div className="flex items-center gap-2 bg-white dark:bg-slate-900 p-2 rounded-lg border border-slate-200 dark:border-slate-800 shadow-sm">
+            <Calendar size={16} className="text-blue-500 flex-shrink-0 ml-1" />
+            <input type="date" value={customRange.start} max={customRange.end} onChange={e => e.target.value && setCustomRange({ ...customRange, start: e.target.value })} className={dateInputClass} />
+            <span className="text-slate-400 text-sm">to</span>
+            <input type="date" value={customRange.end} min={customRange.start} onChange={e => e.target.value && setCustomRange({ ...customRange, end: e.target.value })} className={dateInputClass} />
+         </div>
+       )}
+
+       {period !== 'all' && period !== 'custom' && (
          <div className="flex items-center justify-between bg-white dark:bg-slate-900 p-2 rounded-lg border border-slate-200 dark:border-slate-800 shadow-sm">
             <button onClick={() => navigateDate(-1)} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg text-slate-500 dark:text-slate-200 transition-colors">
                <ChevronLeft size={20} />
             </button>
             <div className="flex items-center gap-2 font-brand font-bold text-slate-900 dark:text-white text-sm uppercase tracking-wide">
                <Calendar size={16} className="text-blue-500 mb-0.5" />
-               {getLabel()}
+               {periodLabel(period, refDate, { fiscalYearStartMonth })}
             </div>
             <button onClick={() => navigateDate(1)} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg text-slate-500 dark:text-slate-200 transition-colors">
                <ChevronRight size={20} />
@@ -504,33 +585,73 @@ export default function App() {
   const [customCategories, setCustomCategories] = useState<CustomCategories>({ income: [], expense: [], billing: [] });
   const [taxPayments, setTaxPayments] = useState<TaxPayment[]>([]);
   const [receipts, setReceipts] = useState<ReceiptType[]>([]);
+  const [categoryRules, setCategoryRules] = useState<CategoryRule[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [credits, setCredits] = useState<ClientCredit[]>([]);
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [catalogItems, setCatalogItems] = useState<CatalogItem[]>([]);
+  const [selectedClientId, setSelectedClientId] = useState<string | null>(null);
+  const [reconciliations, setReconciliations] = useState<Reconciliation[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [trash, setTrash] = useState<TrashItem[]>([]);
+  const [undoHistory, setUndoHistory] = useState<UndoHistory<AppPatch>>(emptyHistory);
 
   // UI State
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
-  const [drawerMode, setDrawerMode] = useState<'add' | 'edit_tx' | 'edit_inv' | 'tax_payments' | 'create_cat'>('add');
-  const [activeTab, setActiveTab] = useState<'income' | 'expense' | 'billing'>('income');
+  const [drawerMode, setDrawerMode] = useState<'add' | 'edit_tx' | 'edit_inv' | 'edit_quote' | 'tax_payments' | 'create_cat'>('add');
+  // The billing tab drafts either an invoice or a quote; quotes never touch invoice totals
+  const [billingKind, setBillingKind] = useState<'invoice' | 'quote'>('invoice');
+  const [invoicesView, setInvoicesView] = useState<'invoices' | 'quotes'>('invoices');
+  const [activeTab, setActiveTab] = useState<'income' | 'expense' | 'transfer' | 'billing'>('income');
   const [activeItem, setActiveItem] = useState<Partial<Transaction> & Partial<Invoice>>({});
   const [activeTaxPayment, setActiveTaxPayment] = useState<Partial<TaxPayment>>({ type: 'Estimated', date: new Date().toISOString().split('T')[0] });
   
   const [categorySearch, setCategorySearch] = useState('');
   const [newCategoryName, setNewCategoryName] = useState('');
-  const previousDrawerMode = useRef<'add' | 'edit_tx' | 'edit_inv' | 'tax_payments'>('add');
+  const previousDrawerMode = useRef<'add' | 'edit_tx' | 'edit_inv' | 'edit_quote' | 'tax_payments'>('add');
+  // Rules fill in the category of a new entry until the user picks one themselves
+  const categoryPickedRef = useRef(false);
 
   const [ledgerFilter, setLedgerFilter] = useState<'all' | 'income' | 'expense' | 'invoice'>('all');
+  const [ledgerAccountId, setLedgerAccountId] = useState<string>('all');
+  const [ledgerQuery, setLedgerQuery] = useState<LedgerQuery>(EMPTY_LEDGER_QUERY);
+  const [bulkSelectMode, setBulkSelectMode] = useState(false);
+  const [selectedLedgerIds, setSelectedLedgerIds] = useState<Set<string>>(new Set());
   const [lastYearCalc, setLastYearCalc] = useState({ profit: '', tax: '' });
   const [selectedInvoiceForDoc, setSelectedInvoiceForDoc] = useState<Invoice | null>(null);
+  const [selectedDocKind, setSelectedDocKind] = useState<'invoice' | 'quote'>('invoice');
   const [showPLPreview, setShowPLPreview] = useState(false);
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
   const [isPdfPreviewOpen, setIsPdfPreviewOpen] = useState(false);
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+  const [invoiceToSend, setInvoiceToSend] = useState<Invoice | null>(null);
+  const [smtpToken, setSmtpToken] = useState<string | undefined>(undefined);
+  // Set while the PDF preview is rendering for an email rather than a download
+  const pendingDeliveryRef = useRef<{ invoiceId: string; to: string; subject: string; body: string } | null>(null);
   const [seedSuccess, setSeedSuccess] = useState(false);
   const [theme, setTheme] = useState<'light' | 'dark'>('dark');
   const [showInsights, setShowInsights] = useState(false);
 
+  // Invoices in Trash keep their numbers so restoring one can't clash with a number issued since
+  const numberedInvoices = useMemo(
+    () => [...invoices, ...trash.flatMap(item => item.kind === 'invoice' ? [item.record as Invoice] : [])],
+    [invoices, trash]
+  );
+
+  // Payment transactions belong to their invoice; the ledger can't delete or change them on its own
+  const paymentInvoices = useMemo(
+    () => new Map(invoices.flatMap(inv => (inv.payments || []).map(p => [p.transactionId, inv] as const))),
+    [invoices]
+  );
+  const isInvoicePayment = (t: Transaction) => paymentInvoices.has(t.id);
+
+  const appCurrency = settings.currencySymbol === '€' ? 'EUR' : settings.currencySymbol === '£' ? 'GBP' : 'USD';
+
   const insightsBadgeCount = useMemo(() => {
-    return getInsightCount({ transactions, invoices, taxPayments, settings });
-  }, [transactions, invoices, taxPayments, settings]);
+    return getInsightCount({ transactions, invoices, taxPayments, settings, appCurrency });
+  }, [transactions, invoices, taxPayments, settings, appCurrency]);
 
   const [showResetConfirm, setShowResetConfirm] = useState(false);
   const [invoiceToDelete, setInvoiceToDelete] = useState<string | null>(null);
@@ -544,6 +665,11 @@ export default function App() {
   const [pendingBackupData, setPendingBackupData] = useState<any>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Bank Statement Import State
+  const [showImport, setShowImport] = useState(false);
+  const [reconcilingAccountId, setReconcilingAccountId] = useState<string | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+
   // Scan Receipt State
   const [scanPreview, setScanPreview] = useState<string | null>(null);
   const [viewingReceipt, setViewingReceipt] = useState<ReceiptType | null>(null);
@@ -583,15 +709,23 @@ export default function App() {
 
   const [filterPeriod, setFilterPeriod] = useState<FilterPeriod>('monthly');
   const [referenceDate, setReferenceDate] = useState<Date>(new Date());
+  const [customRange, setCustomRange] = useState<DateRange>(() => {
+    const now = new Date();
+    return { start: toDateString(new Date(now.getFullYear(), now.getMonth(), 1)), end: toDateString(now) };
+  });
 
   const formatCurrency = useMemo(() => {
     return new Intl.NumberFormat('en-US', { 
       style: 'currency', 
-      currency: settings.currencySymbol === '€' ? 'EUR' : settings.currencySymbol === '£' ? 'GBP' : 'USD',
+      currency: appCurrency,
       minimumFractionDigits: 2,
       maximumFractionDigits: 2
     });
-  }, [settings.currencySymbol]);
+  }, [appCurrency]);
+  // Invoices billed in a client's own currency print in it
+  const formatterFor = (currency?: string) => !currency || currency === appCurrency ? formatCurrency : currencyFormatter(currency);
+  // Amounts in another currency can't be added to the app's totals or booked as income at face value
+  const isForeignCurrency = (record: { currency?: string }) => currencyOf(record, appCurrency) !== appCurrency;
 
   // Tax Planner Calculations (2026)
   const plannerResults = useMemo(() => {
@@ -709,25 +843,30 @@ export default function App() {
       localStorage.setItem('moniezi_theme', newTheme);
   };
 
-  const showToast = useCallback((message: string, type: 'success' | 'error' | 'info' = 'info') => {
+  const showToast = useCallback((message: string, type: 'success' | 'error' | 'info' = 'info', action?: Notification['action']) => {
     const id = Date.now().toString();
-    setNotifications(prev => [...prev, { id, message, type }]);
+    setNotifications(prev => [...prev, { id, message, type, action }]);
+    // Leave time to reach an action button
     setTimeout(() => {
       setNotifications(prev => prev.filter(n => n.id !== id));
-    }, 4000);
+    }, action ? 8000 : 4000);
   }, []);
 
   const removeToast = (id: string) => setNotifications(prev => prev.filter(n => n.id !== id));
 
+  // Last snapshot successfully written to IndexedDB; writes are diffed against it
+  const persistedRef = useRef<PersistedData | null>(null);
+  const persistQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Last state the change log was diffed against; null means start over from the current state
+  const auditBaselineRef = useRef<{ transactions: Transaction[]; invoices: Invoice[]; taxPayments: TaxPayment[]; clients: Client[]; settings: UserSettings } | null>(null);
+
   useEffect(() => {
-    const saved = localStorage.getItem(DB_KEY);
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        setTransactions(parsed.transactions || []);
-        setInvoices(parsed.invoices || []);
-        const defaultMethod: TaxEstimationMethod = parsed.settings?.taxEstimationMethod || 'custom'; 
-        setSettings({
+    loadPersistedData().then(saved => {
+      if (saved) {
+        setTransactions(saved.transactions);
+        setInvoices(saved.invoices);
+        const defaultMethod: TaxEstimationMethod = saved.settings?.taxEstimationMethod || 'custom'; 
+        const loadedSettings: UserSettings = {
             businessName: "My Business",
             ownerName: "Owner",
             payPrefs: DEFAULT_PAY_PREFS,
@@ -739,30 +878,163 @@ export default function App() {
             showLogoOnInvoice: true,
             logoAlignment: 'left',
             brandColor: '#2563eb',
-            ...parsed.settings
-        });
-        setCustomCategories({
-            income: parsed.customCategories?.income || [],
-            expense: parsed.customCategories?.expense || [],
-            billing: parsed.customCategories?.billing || []
-        });
-        setTaxPayments(parsed.taxPayments || []);
-        setReceipts(parsed.receipts || []);
-      } catch (e) {
-        console.error("Error loading data", e);
-        showToast("Failed to load saved data.", "error");
-      }
-    } else {
+            ...saved.settings
+        };
+        const loadedCategories: CustomCategories = {
+            income: saved.customCategories?.income || [],
+            expense: saved.customCategories?.expense || [],
+            billing: saved.customCategories?.billing || []
+        };
+        setSettings(loadedSettings);
+        setCustomCategories(loadedCategories);
+        setTaxPayments(saved.taxPayments);
+        setReceipts(saved.receipts);
+        setCategoryRules(saved.categoryRules || []);
+        setAccounts(saved.accounts);
+        setClients(saved.clients || []);
+        setCredits(saved.credits || []);
+        setQuotes(saved.quotes || []);
+        setCatalogItems(saved.catalogItems || []);
+        setReconciliations(saved.reconciliations || []);
+        setTrash(purgeExpired(saved.trash || []));
+        setAuditLog([...(saved.auditLog || [])].sort((a, b) => (a.at < b.at ? -1 : a.at > b.at ? 1 : 0)));
+        persistedRef.current = { ...saved, settings: loadedSettings, customCategories: loadedCategories, categoryRules: saved.categoryRules || [] };
+      } else {
         setSettings(s => ({...s, taxRate: 15, taxEstimationMethod: 'preset'}));
-    }
-    setDataLoaded(true);
+      }
+      setDataLoaded(true);
+    }).catch(e => {
+      // Leave dataLoaded false so nothing overwrites the stored data
+      console.error("Error loading data", e);
+      showToast(e instanceof SchemaVersionError ? e.message : "Failed to load saved data.", "error");
+    });
   }, []);
 
   useEffect(() => {
-    if (dataLoaded) {
-      localStorage.setItem(DB_KEY, JSON.stringify({ transactions, invoices, settings, taxPayments, customCategories, receipts }));
-    }
-  }, [transactions, invoices, settings, taxPayments, customCategories, receipts, dataLoaded]);
+    if (!dataLoaded) return;
+    const next: PersistedData = { transactions, invoices, settings, taxPayments, customCategories, receipts, accounts, clients, credits, quotes, catalogItems, reconciliations, auditLog, trash, categoryRules };
+    // Serialize writes so each one is diffed against the last successful save
+    persistQueueRef.current = persistQueueRef.current.then(() =>
+      saveChanges(persistedRef.current, next)
+        .then(() => { persistedRef.current = next; })
+        .catch(e => {
+          console.error("Error saving data", e);
+          showToast("Failed to save changes. Export a backup to keep your data safe.", "error");
+        })
+    );
+  }, [transactions, invoices, settings, taxPayments, customCategories, receipts, accounts, clients, credits, quotes, catalogItems, reconciliations, auditLog, trash, categoryRules, dataLoaded]);
+
+  // Typing into a settings field changes them once per keystroke, so settings are logged once the edit settles
+  const settingsAuditTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  useEffect(() => {
+    if (!dataLoaded) return;
+    const prev = auditBaselineRef.current;
+    auditBaselineRef.current = { transactions, invoices, taxPayments, clients, settings: prev ? prev.settings : settings };
+    if (!prev) return;
+    const ctx = auditContext(settings);
+    const entries = [
+      ...diffForAudit('transaction', prev.transactions, transactions, ctx),
+      ...diffForAudit('invoice', prev.invoices, invoices, ctx),
+      ...diffForAudit('taxPayment', prev.taxPayments, taxPayments, ctx),
+      ...diffForAudit('client', prev.clients, clients, ctx),
+    ];
+    if (entries.length > 0) setAuditLog(log => appendAuditEntries(log, entries));
+    if (prev.settings === settings) return;
+    clearTimeout(settingsAuditTimerRef.current);
+    settingsAuditTimerRef.current = setTimeout(() => {
+      const base = auditBaselineRef.current;
+      if (!base) return;
+      const latest = snapshotRef.current.settings;
+      auditBaselineRef.current = { ...base, settings: latest };
+      const changes = diffSettingsForAudit(base.settings, latest, auditContext(latest));
+      if (changes.length > 0) setAuditLog(log => appendAuditEntries(log, changes));
+    }, SETTINGS_AUDIT_DELAY_MS);
+  }, [transactions, invoices, taxPayments, clients, settings, dataLoaded]);
+
+  // --- Undo / Redo ---
+  // Handlers read the latest state through refs so an "Undo" toast never acts on a stale render
+  const snapshotRef = useRef<AppSnapshot>(null!);
+  snapshotRef.current = { transactions, invoices, taxPayments, receipts, accounts, clients, credits, quotes, catalogItems, reconciliations, categoryRules, customCategories, settings, trash };
+  const undoHistoryRef = useRef(undoHistory);
+  undoHistoryRef.current = undoHistory;
+
+  // The state before a recorded change; the entry is finished once the change has rendered
+  const pendingUndoRef = useRef<{ label: string; before: AppSnapshot } | null>(null);
+
+  /** Call right before a change the user may want to take back. */
+  const recordUndo = (label: string) => {
+    pendingUndoRef.current = { label, before: pendingUndoRef.current?.before ?? snapshotRef.current };
+  };
+
+  const flushPendingUndo = () => {
+    const pending = pendingUndoRef.current;
+    if (!pending) return;
+    pendingUndoRef.current = null;
+    const patch = snapshotPatch(snapshotRef.current, pending.before);
+    if (Object.keys(patch).length === 0) return;
+    undoHistoryRef.current = pushUndo(undoHistoryRef.current, { label: pending.label, patch });
+    setUndoHistory(undoHistoryRef.current);
+  };
+
+  useEffect(flushPendingUndo);
+
+  const sliceSetters: { [K in keyof AppSnapshot]: (value: AppSnapshot[K]) => void } = {
+    transactions: setTransactions, invoices: setInvoices, taxPayments: setTaxPayments, receipts: setReceipts, accounts: setAccounts, clients: setClients, credits: setCredits, quotes: setQuotes,
+    catalogItems: setCatalogItems, reconciliations: setReconciliations, categoryRules: setCategoryRules, customCategories: setCustomCategories, settings: setSettings, trash: setTrash,
+  };
+
+  // Applies an undo or redo patch and returns the patch that reverses it
+  const applyUndoPatch = (patch: AppPatch): AppPatch => {
+    const current = snapshotRef.current;
+    const next = applySnapshotPatch(current, patch);
+    (Object.keys(patch) as (keyof AppSnapshot)[]).forEach(key => (sliceSetters[key] as (value: unknown) => void)(next[key]));
+    snapshotRef.current = next;
+    setIsDrawerOpen(false);
+    return snapshotPatch(next, current);
+  };
+
+  const performUndo = () => {
+    flushPendingUndo();
+    const result = stepBack(undoHistoryRef.current, applyUndoPatch);
+    if (!result) return showToast("Nothing to undo", "info");
+    undoHistoryRef.current = result.history;
+    setUndoHistory(result.history);
+    showToast(`Undone: ${result.entry.label}`, "info", { label: "Redo", onClick: () => undoActionsRef.current.performRedo() });
+  };
+
+  const performRedo = () => {
+    flushPendingUndo();
+    const result = stepForward(undoHistoryRef.current, applyUndoPatch);
+    if (!result) return showToast("Nothing to redo", "info");
+    undoHistoryRef.current = result.history;
+    setUndoHistory(result.history);
+    showToast(`Redone: ${result.entry.label}`, "info", { label: "Undo", onClick: () => undoActionsRef.current.performUndo() });
+  };
+
+  const undoActionsRef = useRef({ performUndo, performRedo });
+  undoActionsRef.current = { performUndo, performRedo };
+  const undoAction = { label: "Undo", onClick: () => undoActionsRef.current.performUndo() };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return;
+      const target = e.target as HTMLElement;
+      // Leave text fields their own undo
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); undoActionsRef.current.performUndo(); }
+      else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); undoActionsRef.current.performRedo(); }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // A ledger selection doesn't carry over to other pages
+  useEffect(() => {
+    setBulkSelectMode(false);
+    setSelectedLedgerIds(new Set());
+  }, [currentPage]);
 
   useEffect(() => {
     if (!dataLoaded) return;
@@ -772,9 +1044,13 @@ export default function App() {
     if (activeRecurring.length > 0) {
       const generatedInvoices: Invoice[] = [];
       const updatedParentInvoices = [...invoices];
+      let numbering = settings.invoiceNumbering || DEFAULT_INVOICE_NUMBERING;
       activeRecurring.forEach(parent => {
         if (!parent.recurrence) return;
         let currentNextDate = parent.recurrence.nextDate;
+        // Late fees belong to the cycle they were charged on
+        const items = parent.items?.filter(item => !item.lateFee);
+        const totals = parent.items?.length ? invoiceTotals({ ...parent, items }) : undefined;
         while (currentNextDate <= todayStr) {
            const newDate = currentNextDate;
            const parentDateObj = new Date(parent.date);
@@ -782,15 +1058,24 @@ export default function App() {
            const termDays = Math.ceil((parentDueObj.getTime() - parentDateObj.getTime()) / (1000 * 3600 * 24));
            const newDueObj = new Date(newDate);
            newDueObj.setDate(newDueObj.getDate() + termDays);
+           const issued = issueInvoiceNumber(numbering, newDate, [...generatedInvoices, ...numberedInvoices]);
+           numbering = issued.scheme;
            generatedInvoices.push({
              ...parent,
              id: generateId('inv_auto'),
+             number: issued.number,
              date: newDate,
              due: newDueObj.toISOString().split('T')[0],
-             status: 'unpaid',
+             items,
+             ...(totals ? { subtotal: totals.subtotal, amount: totals.total } : {}),
+             status: 'draft',
+             statusHistory: [statusChange('draft')],
              recurrence: undefined, 
-             linkedTransactionId: undefined, 
-             notes: `Generated from recurring invoice #${parent.id.substring(parent.id.length - 6).toUpperCase()}`
+             payments: undefined, 
+             credits: undefined,
+             reminders: undefined,
+             sentAt: undefined,
+             notes: `Generated from recurring invoice #${parent.number || parent.id.substring(parent.id.length - 6).toUpperCase()}`
            });
            currentNextDate = calculateNextDate(currentNextDate, parent.recurrence.frequency);
         }
@@ -807,42 +1092,45 @@ export default function App() {
       });
       if (generatedInvoices.length > 0) {
         setInvoices([...generatedInvoices, ...updatedParentInvoices]);
-        showToast(`${generatedInvoices.length} recurring invoice(s) generated.`, 'success');
+        setSettings(s => ({ ...s, invoiceNumbering: numbering }));
+        showToast(`${generatedInvoices.length} recurring invoice(s) drafted. Mark them sent once they go out.`, 'success');
       }
     }
-  }, [dataLoaded, invoices]); 
+  }, [dataLoaded, invoices, numberedInvoices]); 
 
   const totals = useMemo(() => {
     const income = transactions.filter(t => t.type === 'income').reduce((sum, t) => sum + t.amount, 0);
     const expense = transactions.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0);
     const profit = income - expense;
-    const allUnpaid = invoices.filter(i => i.status === 'unpaid');
-    const overdueAmount = allUnpaid.filter(i => getDaysOverdue(i.due) > 0).reduce((sum, i) => sum + i.amount, 0);
-    const pendingAmount = allUnpaid.reduce((sum, i) => sum + i.amount, 0);
+    const outstanding = invoices.filter(isOutstanding);
+    const allUnpaid = outstanding.filter(i => !isForeignCurrency(i));
+    const foreignUnpaidCount = outstanding.length - allUnpaid.length;
+    const overdueAmount = allUnpaid.filter(i => getDaysOverdue(i.due) > 0).reduce((sum, i) => sum + balanceDue(i), 0);
+    const pendingAmount = allUnpaid.reduce((sum, i) => sum + balanceDue(i), 0);
     const totalTaxRate = (settings.taxRate / 100) + (settings.stateTaxRate / 100) + TAX_CONSTANTS.SE_TAX_RATE;
     const estimatedTax = profit > 0 ? profit * totalTaxRate : 0;
-    return { income, expense, profit, pendingAmount, overdueAmount, estimatedTax };
-  }, [transactions, invoices, settings.taxRate, settings.stateTaxRate]);
+    return { income, expense, profit, pendingAmount, overdueAmount, foreignUnpaidCount, estimatedTax };
+  }, [transactions, invoices, settings.taxRate, settings.stateTaxRate, appCurrency]);
 
-  const reportData = useMemo(() => {
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    const currentMonth = now.getMonth();
 
+  const periodOptions = useMemo(() => ({ fiscalYearStartMonth: settings.fiscalYearStartMonth, customRange }), [settings.fiscalYearStartMonth, customRange]);
+  const activePeriodRange = useMemo(() => periodRange(filterPeriod, referenceDate, periodOptions), [filterPeriod, referenceDate, periodOptions]);
+  const activePeriodLabel = periodLabel(filterPeriod, referenceDate, periodOptions);
+
+  const getFilteredTransactions = useCallback(() => {
+     if (!activePeriodRange) return transactions;
+     return transactions.filter(t => isInRange(t.date, activePeriodRange));
+  }, [transactions, activePeriodRange]);
+
+  const filteredTransactions = useMemo(() => getFilteredTransactions(), [getFilteredTransactions]);
+
+  const reportData = useMemo(() => {
     // Helper to safely get amount as number
     const getAmt = (t: any) => Number(t.amount) || 0;
-    // Helper to safe parse date
-    const getYear = (dateStr: string) => {
-        const d = new Date(dateStr);
-        return isNaN(d.getTime()) ? 0 : d.getFullYear();
-    };
-    const getMonth = (dateStr: string) => {
-        const d = new Date(dateStr);
-        return isNaN(d.getTime()) ? -1 : d.getMonth();
-    };
 
-    // 1. YTD Calculations (Calendar Year)
-    const ytdTx = transactions.filter(t => getYear(t.date) === currentYear);
+    // 1. YTD Calculations (Fiscal Year)
+    const ytdRange = fiscalYearToDate(new Date(), settings.fiscalYearStartMonth);
+    const ytdTx = transactions.filter(t => isInRange(t.date, ytdRange));
     
     const ytdIncome = ytdTx
         .filter(t => t.type === 'income')
@@ -867,19 +1155,15 @@ export default function App() {
     const totalEstimatedTax = seTaxLiability + incomeTaxLiability;
     
     // 3. Tax Payments (YTD)
-    const taxPaymentsYTD = taxPayments.filter(p => getYear(p.date) === currentYear);
+    const taxPaymentsYTD = taxPayments.filter(p => isInRange(p.date, ytdRange));
     const totalTaxPaidYTD = taxPaymentsYTD.reduce((sum, p) => sum + getAmt(p), 0);
     
-    // 4. Current Period (Month) for P&L Card
-    const currentMonthTx = transactions.filter(t => {
-        return getMonth(t.date) === currentMonth && getYear(t.date) === currentYear;
-    });
-    
-    const monthIncome = currentMonthTx
+    // 4. Selected Period for P&L Card
+    const monthIncome = filteredTransactions
         .filter(t => t.type === 'income')
         .reduce((sum, t) => sum + getAmt(t), 0);
         
-    const monthExpense = currentMonthTx
+    const monthExpense = filteredTransactions
         .filter(t => t.type === 'expense')
         .reduce((sum, t) => sum + getAmt(t), 0);
 
@@ -906,45 +1190,59 @@ export default function App() {
         taxPaymentsYTD, 
         totalIncomeTaxRate
     };
-  }, [transactions, settings, taxPayments]);
+  }, [transactions, filteredTransactions, settings, taxPayments]);
+  
+  const balances = useMemo(() => accountBalances(accounts, transactions), [accounts, transactions]);
+  const activeAccounts = useMemo(() => accounts.filter(a => !a.archived), [accounts]);
+  const selectedClient = clients.find(c => c.id === selectedClientId) || null;
+  const accountName = (id?: string) => accounts.find(a => a.id === id)?.name || 'No account';
 
-  const getFilteredTransactions = useCallback(() => {
-     if (filterPeriod === 'all') return transactions;
-     return transactions.filter(t => {
-       const tDate = new Date(t.date);
-       const checkDate = new Date(tDate.getFullYear(), tDate.getMonth(), tDate.getDate());
-       const ref = new Date(referenceDate.getFullYear(), referenceDate.getMonth(), referenceDate.getDate());
-       if (filterPeriod === 'daily') return checkDate.getTime() === ref.getTime();
-       if (filterPeriod === 'weekly') {
-          const start = getStartOfWeek(ref);
-          const end = getEndOfWeek(ref);
-          return checkDate >= start && checkDate <= end;
-       }
-       if (filterPeriod === 'monthly') return tDate.getMonth() === ref.getMonth() && tDate.getFullYear() === ref.getFullYear();
-       return tDate.getFullYear() === ref.getFullYear();
-     });
-  }, [transactions, filterPeriod, referenceDate]);
+  // Balance after each row when the ledger is narrowed to one account
+  const ledgerRunningBalances = useMemo(() => {
+    const account = accounts.find(a => a.id === ledgerAccountId);
+    return account ? runningBalances(account, transactions) : null;
+  }, [accounts, transactions, ledgerAccountId]);
 
-  const filteredTransactions = useMemo(() => getFilteredTransactions(), [getFilteredTransactions]);
-  
   const ledgerItems = useMemo(() => {
-    const txItems = transactions.map(t => ({ ...t, dataType: 'transaction', listId: t.id, original: t, sortDate: new Date(t.date).getTime() }));
-    const invItems = invoices.map(i => ({ ...i, name: i.client, dataType: 'invoice', type: 'invoice', listId: i.id, original: i, sortDate: new Date(i.date).getTime() }));
+    const accountTx = ledgerAccountId === 'all' ? transactions : transactions.filter(t => touchesAccount(t, ledgerAccountId));
+    const txItems = accountTx.map(t => ({ ...t, dataType: 'transaction', listId: t.id, original: t, sortDate: new Date(t.date).getTime() }));
+    const invItems = ledgerAccountId !== 'all' ? [] : invoices.map(i => ({ ...i, name: i.client, dataType: 'invoice', type: 'invoice', listId: i.id, original: i, sortDate: new Date(i.date).getTime() }));
     let merged = [...txItems, ...invItems];
-    if (filterPeriod !== 'all') {
-      merged = merged.filter(item => {
-        const itemDate = new Date(item.date);
-        const ref = new Date(referenceDate.getFullYear(), referenceDate.getMonth(), referenceDate.getDate());
-        if (filterPeriod === 'monthly') return itemDate.getMonth() === ref.getMonth() && itemDate.getFullYear() === ref.getFullYear();
-        if (filterPeriod === 'yearly') return itemDate.getFullYear() === ref.getFullYear();
-        return true; 
-      });
+    // An explicit date range in the search replaces the period picker
+    if (activePeriodRange && !hasDateRange(ledgerQuery)) {
+      merged = merged.filter(item => isInRange(item.date, activePeriodRange));
     }
     if (ledgerFilter !== 'all') {
       merged = merged.filter(item => ledgerFilter === 'invoice' ? item.dataType === 'invoice' : item.type === ledgerFilter);
     }
+    if (isQueryActive(ledgerQuery)) {
+      merged = merged.filter(item => matchesLedgerQuery(item.original, ledgerQuery));
+    }
     return merged.sort((a, b) => b.sortDate - a.sortDate);
-  }, [transactions, invoices, filterPeriod, referenceDate, ledgerFilter]);
+  }, [transactions, invoices, activePeriodRange, ledgerFilter, ledgerAccountId, ledgerQuery]);
+
+  // Categories actually in use, for the ledger's category filter
+  const ledgerCategoryOptions = useMemo(() => {
+    const used = new Set<string>();
+    transactions.forEach(t => { if (isSplit(t)) t.splits!.forEach(sp => used.add(sp.category)); else if (t.type !== 'transfer') used.add(t.category); });
+    invoices.forEach(i => used.add(i.category));
+    return Array.from(used).filter(Boolean).sort((a, b) => a.localeCompare(b));
+  }, [transactions, invoices]);
+
+  const saveLedgerPreset = (name: string) => {
+    const preset: LedgerFilterPreset = { id: generateId('preset'), name, query: ledgerQuery, typeFilter: ledgerFilter };
+    setSettings(prev => ({ ...prev, ledgerPresets: [...(prev.ledgerPresets || []).filter(p => p.name !== name), preset] }));
+    showToast(`Saved filter "${name}"`, "success");
+  };
+
+  const applyLedgerPreset = (preset: LedgerFilterPreset) => {
+    setLedgerQuery(preset.query);
+    setLedgerFilter(preset.typeFilter || 'all');
+  };
+
+  const deleteLedgerPreset = (id: string) => {
+    setSettings(prev => ({ ...prev, ledgerPresets: (prev.ledgerPresets || []).filter(p => p.id !== id) }));
+  };
 
   const periodTotals = useMemo(() => {
     const inc = filteredTransactions.filter(t => t.type === 'income').reduce((s, t) => s + t.amount, 0);
@@ -953,27 +1251,24 @@ export default function App() {
   }, [filteredTransactions]);
 
   const getFilteredInvoices = useCallback(() => {
-    if (filterPeriod === 'all') return invoices;
-    return invoices.filter(i => {
-      const iDate = new Date(i.date);
-      const ref = new Date(referenceDate.getFullYear(), referenceDate.getMonth(), referenceDate.getDate());
-      if (filterPeriod === 'monthly') return iDate.getMonth() === ref.getMonth() && iDate.getFullYear() === ref.getFullYear();
-      if (filterPeriod === 'yearly') return iDate.getFullYear() === ref.getFullYear();
-      return true;
-    });
- }, [invoices, filterPeriod, referenceDate]);
+    if (!activePeriodRange) return invoices;
+    return invoices.filter(i => isInRange(i.date, activePeriodRange));
+ }, [invoices, activePeriodRange]);
 
  const filteredInvoices = useMemo(() => getFilteredInvoices(), [getFilteredInvoices]);
 
  const invoicePeriodTotals = useMemo(() => {
-   const validInvoices = filteredInvoices.filter(i => i.status !== 'void');
-   const total = validInvoices.reduce((sum, i) => sum + i.amount, 0);
-   const paid = validInvoices.filter(i => i.status === 'paid').reduce((sum, i) => sum + i.amount, 0);
-   const unpaidAll = validInvoices.filter(i => i.status === 'unpaid');
-   const unpaid = unpaidAll.reduce((sum, i) => sum + i.amount, 0);
-   const overdue = unpaidAll.filter(i => getDaysOverdue(i.due) > 0).reduce((sum, i) => sum + i.amount, 0);
-   return { total, paid, unpaid, overdue };
- }, [filteredInvoices]);
+   const billed = filteredInvoices.filter(isBilled);
+   const validInvoices = billed.filter(i => !isForeignCurrency(i));
+   const validIds = new Set(validInvoices.map(i => i.id));
+   const credited = credits.filter(c => c.kind === 'credit_note' && c.invoiceId && validIds.has(c.invoiceId)).reduce((sum, c) => sum + c.amount, 0);
+   const total = validInvoices.reduce((sum, i) => sum + i.amount, 0) - credited;
+   const paid = validInvoices.reduce((sum, i) => sum + amountPaid(i), 0);
+   const unpaidAll = validInvoices.filter(isOutstanding);
+   const unpaid = unpaidAll.reduce((sum, i) => sum + balanceDue(i), 0);
+   const overdue = unpaidAll.filter(i => getDaysOverdue(i.due) > 0).reduce((sum, i) => sum + balanceDue(i), 0);
+   return { total, paid, unpaid, overdue, otherCurrencyCount: billed.length - validInvoices.length };
+ }, [filteredInvoices, credits, appCurrency]);
 
  const recentCategories = useMemo(() => {
     if (!dataLoaded) return [];
@@ -983,22 +1278,32 @@ export default function App() {
     return Object.entries(counts).sort((a, b) => b[1] - a[1]).slice(0, 4).map(([cat]) => cat);
  }, [transactions, invoices, activeTab, dataLoaded]);
 
-  const resetActiveItem = (type: 'income' | 'expense' | 'billing') => {
+  const suggestionIndex = useMemo(() => buildSuggestionIndex(transactions), [transactions]);
+
+  // Learned from how similar names were categorized before; hidden when unsure
+  const suggestedCategories = useMemo(() => {
+    if (!isDrawerOpen || (activeTab !== 'income' && activeTab !== 'expense') || !activeItem.name?.trim()) return [];
+    return suggestCategories(suggestionIndex, activeItem.name, activeTab).filter(s => s.confidence >= 0.2);
+  }, [suggestionIndex, isDrawerOpen, activeTab, activeItem.name]);
+
+  const resetActiveItem = (type: 'income' | 'expense' | 'transfer' | 'billing') => {
     const today = new Date().toISOString().split('T')[0];
     if (type === 'billing') {
       setActiveItem({ 
-        client: '', amount: 0, category: CATS_BILLING[0], description: '', date: today, due: today, status: 'unpaid',
+        client: '', amount: 0, category: CATS_BILLING[0], description: '', date: today, due: today, status: 'draft',
         items: [{ id: generateId('item'), description: '', quantity: 1, rate: 0 }],
         subtotal: 0, discount: 0, taxRate: 0, shipping: 0,
         notes: settings.defaultInvoiceNotes || '', terms: settings.defaultInvoiceTerms || ''
       });
+    } else if (type === 'transfer') {
+      setActiveItem({ type, date: today, name: '', amount: 0, category: TRANSFER_CATEGORY, accountId: activeAccounts[0]?.id, transferAccountId: activeAccounts[1]?.id });
     } else {
-      setActiveItem({ type, date: today, name: '', amount: 0, category: type === 'income' ? CATS_IN[0] : CATS_OUT[0] });
+      setActiveItem({ type, date: today, name: '', amount: 0, category: type === 'income' ? CATS_IN[0] : CATS_OUT[0], accountId: activeAccounts[0]?.id });
     }
   };
 
-  const handleOpenFAB = (type: 'income' | 'expense' | 'billing' = 'income') => {
-    setDrawerMode('add'); setActiveTab(type); resetActiveItem(type); setCategorySearch(''); setIsDrawerOpen(true);
+  const handleOpenFAB = (type: 'income' | 'expense' | 'transfer' | 'billing' = 'income') => {
+    setDrawerMode('add'); setActiveTab(type); setBillingKind('invoice'); resetActiveItem(type); setCategorySearch(''); categoryPickedRef.current = false; setIsDrawerOpen(true);
   };
 
   const getHeaderFabType = (): 'income' | 'expense' | 'billing' => {
@@ -1024,6 +1329,7 @@ export default function App() {
       // Check for invoice-specific properties (like client) or explicit dataType
       const isInvoice = item.dataType === 'invoice' || rawData.client !== undefined;
 
+      setBillingKind('invoice');
       if (isInvoice) {
           setActiveItem(rawData); 
           setActiveTab('billing'); 
@@ -1032,7 +1338,7 @@ export default function App() {
           setActiveItem(rawData); 
           // Correctly set tab based on the transaction type (income vs expense)
           const txType = rawData.type || 'income';
-          setActiveTab(txType === 'income' ? 'income' : 'expense'); 
+          setActiveTab(txType === 'income' ? 'income' : txType === 'transfer' ? 'transfer' : 'expense'); 
           setDrawerMode('edit_tx');
       }
       setIsDrawerOpen(true);
@@ -1049,82 +1355,308 @@ export default function App() {
   };
 
   const deleteTaxPayment = (id: string) => {
-    if(confirm("Delete this tax payment?")) { setTaxPayments(prev => prev.filter(p => p.id !== id)); showToast("Payment deleted", "info"); }
+    const payment = taxPayments.find(p => p.id === id);
+    if (!payment) return;
+    if(confirm("Move this tax payment to Trash?")) { recordUndo("Delete tax payment"); moveToTrash([toTrash('taxPayment', payment)]); setTaxPayments(prev => prev.filter(p => p.id !== id)); showToast("Payment moved to Trash", "info", undoAction); }
   };
 
   const handleSeedDemoData = () => {
     const demo = getFreshDemoData();
+    recordUndo("Load demo data");
+    const before = snapshotRef.current;
+    auditBaselineRef.current = null;
+    setAuditLog(log => appendAuditEntries(log, [dataReplacedEntry('restore', before, { ...before, transactions: demo.transactions, invoices: demo.invoices, taxPayments: demo.taxPayments || [] }, auditContext(settings), { source: 'Demo data' })]));
     setTransactions([...demo.transactions] as Transaction[]); setInvoices([...demo.invoices] as Invoice[]); setSettings({...demo.settings}); setTaxPayments([...(demo.taxPayments || [])] as TaxPayment[]);
-    setSeedSuccess(true); showToast("Demo data loaded successfully!", "success"); setCurrentPage(Page.Dashboard); setTimeout(() => setSeedSuccess(false), 2000);
+    setSeedSuccess(true); showToast("Demo data loaded successfully!", "success", undoAction); setCurrentPage(Page.Dashboard); setTimeout(() => setSeedSuccess(false), 2000);
   };
 
   const handleClearData = () => setShowResetConfirm(true);
   
   const performReset = () => {
-    try {
-        localStorage.setItem(DB_KEY, JSON.stringify({ transactions: [], invoices: [], settings: { businessName: "My Business", ownerName: "Owner", payPrefs: DEFAULT_PAY_PREFS, taxRate: 25, currencySymbol: '$' }, taxPayments: [], customCategories: { income: [], expense: [], billing: [] }, receipts: [] }));
-    } catch (e) { console.error("Failed to wipe", e); }
-    setTransactions([]); setInvoices([]); setTaxPayments([]); setReceipts([]); setCustomCategories({ income: [], expense: [], billing: [] }); setSettings({ businessName: "My Business", ownerName: "Owner", payPrefs: DEFAULT_PAY_PREFS, taxRate: 25, stateTaxRate: 0, taxEstimationMethod: 'preset', filingStatus: 'single', currencySymbol: '$' });
-     setSeedSuccess(false); setShowResetConfirm(false); showToast("All data has been wiped.", "success"); setCurrentPage(Page.Dashboard);
+    recordUndo("Reset all data");
+    const before = snapshotRef.current;
+    // The change log survives a reset and records it
+    setAuditLog(log => appendAuditEntries(log, [dataReplacedEntry('reset', before, {}, auditContext(settings))]));
+    setTransactions([]); setInvoices([]); setTaxPayments([]); setReceipts([]); setAccounts([]); setClients([]); setCredits([]); setQuotes([]); setCatalogItems([]); setSelectedClientId(null); setReconciliations([]); setTrash([]); auditBaselineRef.current = null; setLedgerAccountId('all'); setLedgerQuery(EMPTY_LEDGER_QUERY); setCategoryRules([]); setCustomCategories({ income: [], expense: [], billing: [] }); setSettings({ businessName: "My Business", ownerName: "Owner", payPrefs: DEFAULT_PAY_PREFS, taxRate: 25, stateTaxRate: 0, taxEstimationMethod: 'preset', filingStatus: 'single', currencySymbol: '$' });
+     setSeedSuccess(false); setShowResetConfirm(false); showToast("All data has been wiped.", "success", undoAction); setCurrentPage(Page.Dashboard);
   };
 
   const confirmDeleteInvoice = () => {
     if (!invoiceToDelete) return;
     const inv = invoices.find(i => i.id === invoiceToDelete);
-    setInvoices(prev => prev.filter(i => i.id !== invoiceToDelete));
-    if (inv && inv.linkedTransactionId) {
-        setTransactions(prev => prev.filter(t => t.id !== inv.linkedTransactionId));
+    const paymentTxs = inv ? invoicePaymentTransactions(inv) : [];
+    if (paymentTxs.some(isReconciled)) {
+        setInvoiceToDelete(null);
+        return showToast("A payment for this invoice is reconciled, so the invoice can't be deleted", "error");
     }
+    if (inv && !ensurePeriodOpen([inv.date, ...paymentTxs.map(t => t.date)], "This invoice or its payments")) return setInvoiceToDelete(null);
+    recordUndo("Delete invoice");
+    if (inv) {
+        moveToTrash([toTrash('invoice', inv, new Date(), paymentTxs)]);
+        if (paymentTxs.length > 0) setTransactions(prev => prev.filter(t => !paymentTxs.includes(t)));
+    }
+    setInvoices(prev => prev.filter(i => i.id !== invoiceToDelete));
     setInvoiceToDelete(null);
     setIsDrawerOpen(false);
-    showToast("Invoice deleted", "info");
+    showToast("Invoice moved to Trash", "info", undoAction);
+  };
+
+  // Each change dated in a closed period needs its own reason, logged as an unlock for that change only
+  const ensurePeriodOpen = (dates: (string | undefined)[], subject: string): boolean => {
+    if (!settings.closingDate || !touchesClosedPeriod(dates, settings.closingDate)) return true;
+    const reason = prompt(`${subject} falls in a closed period (closed through ${settings.closingDate}). Enter a reason to unlock it for this change:`);
+    if (!reason?.trim()) {
+      showToast(`Closed through ${settings.closingDate}. Nothing was changed.`, "error");
+      return false;
+    }
+    const entry: PeriodUnlock = { id: generateId('unlock'), at: new Date().toISOString(), closingDate: settings.closingDate, reason: reason.trim(), change: subject };
+    setSettings(prev => ({ ...prev, periodUnlocks: [...(prev.periodUnlocks || []), entry] }));
+    return true;
+  };
+
+  const changeClosingDate = (date: string | undefined) => {
+    // Moving the date back reopens filed periods, which counts as an unlock
+    const reopens = !!settings.closingDate && (!date || date < settings.closingDate);
+    if (reopens && !ensurePeriodOpen([settings.closingDate], "Reopening this period")) return;
+    setSettings(prev => ({ ...prev, closingDate: date }));
   };
 
   const saveTransaction = (data: Partial<Transaction>) => {
+    const original = drawerMode === 'edit_tx' ? transactions.find(t => t.id === activeItem.id) : undefined;
+    const lockError = reconciliationLockError(reconciliations, { ...data, date: data.date || new Date().toISOString().split('T')[0] }, original);
+    if (lockError) return showToast(lockError, "error");
+    if (data.type === 'transfer') return saveTransfer(data, original);
     if (!data.name?.trim()) return showToast("Please enter a description", "error");
     if (!data.amount || Number(data.amount) <= 0) return showToast("Please enter a valid amount", "error");
-    const newTx: Transaction = { id: generateId('tx'), name: data.name, amount: Number(data.amount), category: data.category || "General", date: data.date || new Date().toISOString().split('T')[0], type: (data.type as any) || 'income', notes: data.notes };
+    const splits = data.splits && data.splits.length > 0 ? data.splits.map(sp => ({ ...sp, amount: Number(sp.amount) })) : undefined;
+    if (splits) {
+      const splitError = validateSplits(Number(data.amount), splits);
+      if (splitError) return showToast(splitError, "error");
+    }
+    if (!ensurePeriodOpen([original?.date, data.date], "This transaction")) return;
+    recordUndo(drawerMode === 'edit_tx' ? "Edit transaction" : "Add transaction");
+    const newTx: Transaction = { id: generateId('tx'), name: data.name, amount: Number(data.amount), category: (splits ? primaryCategory(splits) : data.category) || "General", date: data.date || new Date().toISOString().split('T')[0], type: (data.type as any) || 'income', notes: data.notes, splits, accountId: data.accountId || undefined };
     if (drawerMode === 'edit_tx' && activeItem.id) {
-      setTransactions(prev => prev.map(t => t.id === activeItem.id ? { ...t, ...newTx, id: t.id } as Transaction : t)); showToast("Transaction updated", "success");
+      setTransactions(prev => prev.map(t => t.id === activeItem.id ? { ...t, ...newTx, id: t.id } as Transaction : t)); showToast("Transaction updated", "success", undoAction);
     } else {
       setTransactions(prev => [newTx, ...prev]); showToast("Transaction saved", "success");
     }
     setIsDrawerOpen(false);
   };
 
+  // A transfer is one record that debits `accountId` and credits `transferAccountId`
+  const saveTransfer = (data: Partial<Transaction>, original?: Transaction) => {
+    if (!data.accountId || !data.transferAccountId) return showToast("Choose both accounts", "error");
+    if (data.accountId === data.transferAccountId) return showToast("Choose two different accounts", "error");
+    if (!data.amount || Number(data.amount) <= 0) return showToast("Please enter a valid amount", "error");
+    if (!ensurePeriodOpen([original?.date, data.date], "This transfer")) return;
+    recordUndo(drawerMode === 'edit_tx' ? "Edit transfer" : "Add transfer");
+    const name = data.name?.trim() || `Transfer to ${accountName(data.transferAccountId)}`;
+    const transfer: Transaction = { id: generateId('tx'), name, amount: Number(data.amount), category: TRANSFER_CATEGORY, date: data.date || new Date().toISOString().split('T')[0], type: 'transfer', notes: data.notes, accountId: data.accountId, transferAccountId: data.transferAccountId };
+    if (drawerMode === 'edit_tx' && activeItem.id) {
+      setTransactions(prev => prev.map(t => t.id === activeItem.id ? { ...t, ...transfer, id: t.id } : t)); showToast("Transfer updated", "success", undoAction);
+    } else {
+      setTransactions(prev => [transfer, ...prev]); showToast("Transfer saved", "success");
+    }
+    setIsDrawerOpen(false);
+  };
+
+  const addAccount = (account: Omit<Account, 'id'>) => {
+    setAccounts(prev => [...prev, { ...account, id: generateId('acct') }]);
+    showToast("Account added", "success");
+  };
+
+  const updateAccount = (account: Account) => setAccounts(prev => prev.map(a => a.id === account.id ? account : a));
+
+  const deleteAccount = (account: Account) => {
+    const used = transactions.filter(t => touchesAccount(t, account.id)).length;
+    if (used > 0) {
+      if (!confirm(`"${account.name}" has ${used} transactions. Archive it instead? Archived accounts keep their history but are hidden from new entries.`)) return;
+      updateAccount({ ...account, archived: true });
+      return;
+    }
+    if (!confirm(`Delete account "${account.name}"?`)) return;
+    recordUndo("Delete account");
+    setAccounts(prev => prev.filter(a => a.id !== account.id));
+    setReconciliations(prev => prev.filter(r => r.accountId !== account.id));
+    if (ledgerAccountId === account.id) setLedgerAccountId('all');
+    showToast("Account deleted", "info", undoAction);
+  };
+
+  const addClient = (client: Omit<Client, 'id'>): Client => {
+    const created = { ...client, id: generateId('client') };
+    setClients(prev => [...prev, created]);
+    showToast("Client added", "success");
+    return created;
+  };
+
+  const updateClient = (client: Client) => setClients(prev => prev.map(c => c.id === client.id ? client : c));
+
+  const deleteClient = (client: Client) => {
+    const billed = invoicesForClient(client, invoices).length;
+    if (billed > 0) {
+      if (!confirm(`"${client.name}" has ${billed} invoices. Archive the client instead? Archived clients keep their history but are hidden when invoicing.`)) return;
+      updateClient({ ...client, archived: true });
+      return;
+    }
+    if (!confirm(`Delete client "${client.name}"?`)) return;
+    recordUndo("Delete client");
+    setClients(prev => prev.filter(c => c.id !== client.id));
+    setSelectedClientId(null);
+    showToast("Client deleted", "info", undoAction);
+  };
+
+  const pickInvoiceClient = (clientId: string) => {
+    const client = clients.find(c => c.id === clientId);
+    // A quote's valid-until date sits in `due`, so the client's payment terms don't apply
+    setActiveItem(prev => client ? { ...applyClientToInvoice(prev, client), ...(billingKind === 'quote' ? { due: prev.due } : {}) } : { ...prev, clientId: undefined });
+  };
+
+  // Turns the details typed into the invoice drawer into a saved client
+  const saveInvoiceClient = () => {
+    if (!activeItem.client?.trim()) return;
+    const created = addClient(clientFromInvoice(activeItem));
+    setActiveItem(prev => ({ ...prev, clientId: created.id }));
+  };
+
+  const newInvoiceForClient = (client: Client) => {
+    handleOpenFAB('billing');
+    setActiveItem(prev => applyClientToInvoice(prev, client));
+  };
+
+  const addCatalogItem = (item: Omit<CatalogItem, 'id'>) => {
+    setCatalogItems(prev => [...prev, { ...item, id: generateId('cat') }]);
+    showToast("Added to catalog", "success");
+  };
+
+  const updateCatalogItem = (item: CatalogItem) => setCatalogItems(prev => prev.map(c => c.id === item.id ? item : c));
+
+  // Invoice lines keep their own copy of the description and rate, so deleting is safe
+  const deleteCatalogItem = (item: CatalogItem) => {
+    if (!confirm(`Remove "${item.name}" from the catalog? Existing invoices are not changed.`)) return;
+    recordUndo("Delete catalog item");
+    setCatalogItems(prev => prev.filter(c => c.id !== item.id));
+    showToast("Catalog item removed", "info", undoAction);
+  };
+
+  // Name/amount edits on a new transaction re-run the category rules
+  const updateTransactionDraft = (patch: Partial<Transaction>) => {
+    setActiveItem(prev => {
+      const next = { ...prev, ...patch };
+      if (drawerMode !== 'add' || categoryPickedRef.current || (activeTab !== 'income' && activeTab !== 'expense')) return next;
+      const ruleCategory = categorize(categoryRules, { name: next.name || '', amount: Number(next.amount) || 0, type: activeTab });
+      return ruleCategory ? { ...next, category: ruleCategory } : next;
+    });
+  };
+
+  const addCategoryRule = (rule: Omit<CategoryRule, 'id'>) => {
+    setCategoryRules(prev => [...prev, { ...rule, id: generateId('rule') }]);
+    showToast("Rule added", "success");
+  };
+
+  const handleApplyRuleChanges = (changes: RuleChange[]) => {
+    if (changes.length === 0) return;
+    if (!ensurePeriodOpen(changes.map(c => c.transaction.date), "Some of these transactions")) return;
+    recordUndo("Recategorize transactions");
+    setTransactions(prev => applyRuleChanges(prev, changes));
+    showToast(`Recategorized ${changes.length} ${changes.length === 1 ? 'transaction' : 'transactions'}`, "success", undoAction);
+  };
+
+  const toggleCleared = (ids: string[], cleared: boolean) => {
+    const idSet = new Set(ids);
+    setTransactions(prev => prev.map(t => idSet.has(t.id) && !isReconciled(t) ? { ...t, cleared } : t));
+  };
+
+  const finishReconciliation = (statementDate: string, statementBalance: number) => {
+    if (!reconcilingAccountId) return;
+    const reconciliation: Reconciliation = {
+      id: generateId('rec'),
+      accountId: reconcilingAccountId,
+      statementDate,
+      statementBalance,
+      transactionIds: transactions.filter(t => touchesAccount(t, reconcilingAccountId) && t.cleared && !isReconciled(t) && t.date <= statementDate).map(t => t.id),
+      completedAt: new Date().toISOString(),
+    };
+    recordUndo("Finish reconciliation");
+    setTransactions(prev => applyReconciliation(prev, reconciliation));
+    setReconciliations(prev => [...prev, reconciliation]);
+    setReconcilingAccountId(null);
+    showToast(`Reconciled through ${statementDate}`, "success", undoAction);
+  };
+
+  const undoLastReconciliation = (reconciliation: Reconciliation) => {
+    if (!confirm(`Unlock the reconciliation through ${reconciliation.statementDate}? Its transactions stay cleared but can be edited again.`)) return;
+    recordUndo("Undo reconciliation");
+    setTransactions(prev => undoReconciliation(prev, reconciliation.id));
+    setReconciliations(prev => prev.filter(r => r.id !== reconciliation.id));
+    showToast("Reconciliation undone", "info", undoAction);
+  };
+
+  const handleImportTransactions = (rows: ImportedTransaction[], accountId?: string) => {
+    const locked = rows.filter(r => reconciliationLockError(reconciliations, { date: r.date, type: r.type, accountId }));
+    if (locked.length > 0) {
+      if (locked.length === rows.length) return showToast("All rows fall in a reconciled period for this account", "error");
+      if (!confirm(`${locked.length} rows are dated in a reconciled period for this account and will be skipped. Continue?`)) return;
+      rows = rows.filter(r => !locked.includes(r));
+    }
+    if (!ensurePeriodOpen(rows.map(r => r.date), "Part of this statement")) return;
+    const imported: Transaction[] = rows.map(r => ({ id: generateId('tx'), name: r.name, amount: r.amount, category: r.category, date: r.date, type: r.type, notes: r.notes, externalId: r.externalId, accountId }));
+    recordUndo("Import statement");
+    setTransactions(prev => [...imported, ...prev]);
+    setShowImport(false);
+    showToast(`Imported ${imported.length} ${imported.length === 1 ? 'transaction' : 'transactions'}`, "success", undoAction);
+  };
+
   const saveInvoice = (data: Partial<Invoice>) => {
     if (!data.client?.trim()) return showToast("Please enter a client name", "error");
     let totalAmount = 0, subtotal = 0;
     if (data.items && data.items.length > 0) {
-        subtotal = data.items.reduce((sum, item) => sum + (item.quantity * item.rate), 0);
-        totalAmount = Math.max(0, subtotal - (data.discount || 0) + ((subtotal - (data.discount || 0)) * ((data.taxRate || 0) / 100)) + (data.shipping || 0));
+        ({ subtotal, total: totalAmount } = invoiceTotals(data));
     } else {
         totalAmount = Number(data.amount) || 0; subtotal = totalAmount;
     }
     if (totalAmount <= 0) return showToast("Please add items or enter a valid amount", "error");
+    const stored = drawerMode === 'edit_inv' ? invoices.find(i => i.id === activeItem.id) : undefined;
+    const alreadyPaid = sumPayments(stored?.payments) + sumPayments(stored?.credits);
+    if (alreadyPaid > Math.round(totalAmount * 100) / 100) return showToast(`${formatterFor(stored?.currency).format(alreadyPaid)} has already been paid or credited on this invoice. Remove a payment or credit before lowering the total below that.`, "error");
+    const typedNumber = data.number?.trim();
+    if (typedNumber && isInvoiceNumberTaken(typedNumber, numberedInvoices, stored?.id)) return showToast(`Invoice number ${typedNumber} is already used by another invoice, or one in Trash`, "error");
+    if (!ensurePeriodOpen([stored?.date, data.date], "This invoice")) return;
+    recordUndo(drawerMode === 'edit_inv' ? "Edit invoice" : "Create invoice");
+    let number = typedNumber;
+    if (!number) {
+      const issued = issueInvoiceNumber(settings.invoiceNumbering || DEFAULT_INVOICE_NUMBERING, data.date || new Date().toISOString().split('T')[0], numberedInvoices);
+      number = issued.number;
+      setSettings(s => ({ ...s, invoiceNumbering: issued.scheme }));
+    }
     const description = data.description || (data.items && data.items.length > 0 ? data.items[0].description : "Services Rendered");
     
     if (drawerMode === 'edit_inv' && activeItem.id) {
       setInvoices(prev => prev.map(i => {
         if (i.id === activeItem.id) {
-           const updatedInvoice = { ...i, ...data, amount: totalAmount, subtotal, description } as Invoice;
-           if (updatedInvoice.status !== 'void' && updatedInvoice.linkedTransactionId) {
-             setTransactions(txs => txs.map(t => t.id === updatedInvoice.linkedTransactionId ? { ...t, amount: updatedInvoice.amount, name: `Pmt: ${updatedInvoice.client}`, date: updatedInvoice.date } : t));
+           // Payments and credits are recorded on their own, so the stored lists win and the status follows them
+           let updatedInvoice = { ...i, ...data, number, amount: totalAmount, subtotal, description, payments: i.payments, credits: i.credits, status: i.status, statusHistory: i.statusHistory } as Invoice;
+           if (updatedInvoice.status !== 'void' && (i.payments?.length || i.credits?.length)) {
+             updatedInvoice = withStatus(updatedInvoice, statusFromPayments(totalAmount, i.payments, i.credits, openStatus(i)));
+           }
+           if (updatedInvoice.status !== 'void' && i.payments && i.payments.length > 0) {
+             const paymentIds = new Set(i.payments.map(p => p.transactionId));
+             setTransactions(txs => txs.map(t => paymentIds.has(t.id) && !isReconciled(t) ? { ...t, name: `Pmt: ${updatedInvoice.client}` } : t));
            }
            return updatedInvoice;
         }
         return i;
       }));
-      showToast("Invoice updated", "success");
+      showToast("Invoice updated", "success", undoAction);
     } else {
       const newInv: Invoice = {
-        id: generateId('inv'), client: data.client, clientAddress: data.clientAddress, clientEmail: data.clientEmail, clientCompany: data.clientCompany,
+        id: generateId('inv'), number, clientId: data.clientId, client: data.client, clientAddress: data.clientAddress, clientEmail: data.clientEmail, clientCompany: data.clientCompany,
         amount: totalAmount, category: data.category || "Service", description, date: data.date || new Date().toISOString().split('T')[0],
-        due: data.due || new Date().toISOString().split('T')[0], status: 'unpaid', notes: data.notes || settings.defaultInvoiceNotes,
+        due: data.due || new Date().toISOString().split('T')[0], status: 'draft', statusHistory: [statusChange('draft')], notes: data.notes || settings.defaultInvoiceNotes,
         terms: data.terms || settings.defaultInvoiceTerms, payMethod: data.payMethod, recurrence: data.recurrence, items: data.items,
-        subtotal, discount: data.discount, shipping: data.shipping, taxRate: data.taxRate, poNumber: data.poNumber
+        subtotal, discount: data.discount, shipping: data.shipping, taxRate: data.taxRate, poNumber: data.poNumber, currency: data.currency
       };
-      setInvoices(prev => [newInv, ...prev]); showToast("Invoice generated", "success");
+      setInvoices(prev => [newInv, ...prev]); showToast(`Invoice ${number} saved as a draft`, "success");
     }
     setIsDrawerOpen(false);
   };
@@ -1140,42 +1672,568 @@ export default function App() {
 
   const deleteTransaction = (id?: string) => {
     if (!id) return;
-    if(confirm("Delete this transaction?")) { setTransactions(prev => prev.filter(t => t.id !== id)); setIsDrawerOpen(false); showToast("Transaction deleted", "info"); }
+    const tx = transactions.find(t => t.id === id);
+    if (tx && isReconciled(tx)) return showToast("This transaction is reconciled. Undo the reconciliation to delete it.", "error");
+    const paidInvoice = tx && paymentInvoices.get(tx.id);
+    if (paidInvoice) return showToast(`This is a payment on invoice ${paidInvoice.number || paidInvoice.client}. Remove it from the invoice instead.`, "error");
+    if (!confirm("Move this transaction to Trash?")) return;
+    if (tx && !ensurePeriodOpen([tx.date], "This transaction")) return;
+    recordUndo("Delete transaction");
+    if (tx) moveToTrash([toTrash('transaction', tx)]);
+    setTransactions(prev => prev.filter(t => t.id !== id));
+    setIsDrawerOpen(false);
+    showToast("Transaction moved to Trash", "info", undoAction);
+  };
+
+  const moveToTrash = (items: TrashItem[]) => setTrash(prev => addToTrash(prev, items));
+
+  const restoreFromTrash = (item: TrashItem) => {
+    // Trash written before numbers were held for trashed invoices may clash with a live invoice
+    const number = item.kind === 'invoice' ? (item.record as Invoice).number : undefined;
+    if (number && isInvoiceNumberTaken(number, invoices, item.record.id)) return showToast(`Invoice number ${number} is now used by another invoice, so this one can't be restored`, "error");
+    if (!ensurePeriodOpen(trashItemDates(item), "This item")) return;
+    recordUndo("Restore from Trash");
+    const addIfMissing = <T extends { id: string }>(record: T) => (prev: T[]) => prev.some(r => r.id === record.id) ? prev : [record, ...prev];
+    if (item.kind === 'transaction') setTransactions(addIfMissing(item.record as Transaction));
+    if (item.kind === 'invoice') {
+      setInvoices(addIfMissing(item.record as Invoice));
+      (item.linkedTransactions || []).forEach(t => setTransactions(addIfMissing(t)));
+    }
+    if (item.kind === 'receipt') setReceipts(addIfMissing(item.record as ReceiptType));
+    if (item.kind === 'taxPayment') setTaxPayments(addIfMissing(item.record as TaxPayment));
+    setTrash(prev => prev.filter(i => i.id !== item.id));
+    showToast("Restored from Trash", "success", undoAction);
+  };
+
+  const purgeFromTrash = (item: TrashItem) => {
+    if (!confirm("Delete this item forever? It can't be restored from Trash afterwards.")) return;
+    recordUndo("Delete forever");
+    setTrash(prev => prev.filter(i => i.id !== item.id));
+    showToast("Deleted forever", "info", undoAction);
+  };
+
+  const emptyTrash = () => {
+    if (!confirm(`Permanently delete all ${trash.length} items in Trash?`)) return;
+    recordUndo("Empty Trash");
+    setTrash([]);
+    showToast("Trash emptied", "info", undoAction);
   };
 
   const deleteInvoice = (inv: Partial<Invoice>) => {
     if (!inv.id) return;
-    if(confirm("Delete this invoice?")) {
-        setInvoices(prev => prev.filter(i => i.id !== inv.id));
-        if (inv.linkedTransactionId) setTransactions(prev => prev.filter(t => t.id !== inv.linkedTransactionId));
-        setIsDrawerOpen(false); showToast("Invoice deleted", "info");
+    const stored = invoices.find(i => i.id === inv.id);
+    const paymentTxs = stored ? invoicePaymentTransactions(stored) : [];
+    if (paymentTxs.some(isReconciled)) return showToast("A payment for this invoice is reconciled, so the invoice can't be deleted", "error");
+    if (!confirm("Move this invoice to Trash?")) return;
+    if (!ensurePeriodOpen([inv.date, ...paymentTxs.map(t => t.date)], "This invoice or its payments")) return;
+    recordUndo("Delete invoice");
+    if (stored) moveToTrash([toTrash('invoice', stored, new Date(), paymentTxs)]);
+    setInvoices(prev => prev.filter(i => i.id !== inv.id));
+    if (paymentTxs.length > 0) setTransactions(prev => prev.filter(t => !paymentTxs.includes(t)));
+    setIsDrawerOpen(false);
+    showToast("Invoice moved to Trash", "info", undoAction);
+  };
+
+  const paymentTransactionFor = (inv: Partial<Invoice>, amount: number, date: string, method?: string): Transaction => ({
+    id: generateId('tx_pay'), name: `Pmt: ${inv.client}`, amount, category: inv.category || 'Sales / Services',
+    date, type: 'income', notes: `Linked to invoice #${inv.number || (inv.id || '').substring(0,6)}${method ? ` · ${method}` : ''}`
+  });
+
+  // Each payment gets its own income transaction; callers add both to state. `bookedAmount` is
+  // what arrived in the app currency for an invoice billed in another, and is what the ledger records.
+  const newInvoicePayment = (inv: Partial<Invoice>, amount: number, date: string, method?: string, bookedAmount?: number) => {
+    const tx = paymentTransactionFor(inv, bookedAmount ?? amount, date, method);
+    const payment: InvoicePayment = { id: generateId('pmt'), date, amount, method, transactionId: tx.id, ...(bookedAmount !== undefined ? { bookedAmount } : {}) };
+    return { tx, payment };
+  };
+
+  const askBookedAmount = (inv: Invoice, amount: number): number | undefined => {
+    const answer = prompt(`How much arrived in ${appCurrency} for ${formatterFor(inv.currency).format(amount)}?`);
+    const booked = Math.round(Number(answer) * 100) / 100;
+    if (!answer?.trim() || !(booked > 0)) {
+      showToast(`Enter the amount received in ${appCurrency}`, "error");
+      return undefined;
     }
+    return booked;
   };
 
+  const invoicePaymentTransactions = (inv: Partial<Invoice>): Transaction[] => {
+    const ids = new Set((inv.payments || []).map(p => p.transactionId));
+    return ids.size === 0 ? [] : transactions.filter(t => ids.has(t.id));
+  };
+
+  const applyInvoiceSettlement = (id: string, patch: Pick<Invoice, 'status'> & Partial<Pick<Invoice, 'payments' | 'credits'>>) => {
+    const { status, ...lists } = patch;
+    const at = new Date().toISOString();
+    setInvoices(prev => prev.map(i => i.id === id ? withStatus({ ...i, ...lists }, status, at) : i));
+    setActiveItem(prev => prev.id === id ? withStatus({ ...prev, ...lists }, status, at) : prev);
+  };
+
+  const markInvoiceSent = (inv: Partial<Invoice>) => {
+    const stored = invoices.find(i => i.id === inv.id);
+    if (!stored || !canMarkSent(stored)) return;
+    recordUndo("Mark invoice sent");
+    applyInvoiceSettlement(stored.id, { status: 'sent' });
+    showToast(stored.number ? `Invoice ${stored.number} marked sent` : "Invoice marked sent", "success", undoAction);
+  };
+
+  const recordInvoicePayment = (inv: Partial<Invoice>, entry: { amount: number; date: string; method?: string; bookedAmount?: number }) => {
+    const stored = invoices.find(i => i.id === inv.id);
+    if (!stored || stored.status === 'void') return;
+    const due = balanceDue(stored);
+    if (entry.amount <= 0) return showToast("Enter the amount received", "error");
+    if (entry.amount > due) return showToast(`Only ${formatterFor(stored.currency).format(due)} is left to pay on this invoice`, "error");
+    const foreign = isForeignCurrency(stored);
+    if (foreign && !((entry.bookedAmount || 0) > 0)) return showToast(`Enter the amount received in ${appCurrency}`, "error");
+    if (!ensurePeriodOpen([entry.date], "This payment")) return;
+    recordUndo("Record payment");
+    const { tx, payment } = newInvoicePayment(stored, entry.amount, entry.date, entry.method, foreign ? entry.bookedAmount : undefined);
+    const payments = [...(stored.payments || []), payment];
+    const status = statusFromPayments(stored.amount, payments, stored.credits, openStatus(stored));
+    setTransactions(prev => [tx, ...prev]);
+    applyInvoiceSettlement(stored.id, { payments, status });
+    showToast(status === 'paid' ? "Payment recorded. Invoice paid in full" : "Payment recorded", "success", undoAction);
+  };
+
+  const removeInvoicePayment = (inv: Partial<Invoice>, payment: InvoicePayment) => {
+    const stored = invoices.find(i => i.id === inv.id);
+    if (!stored) return;
+    const tx = transactions.find(t => t.id === payment.transactionId);
+    if (tx && isReconciled(tx)) return showToast("This payment is reconciled and can't be removed", "error");
+    if (!confirm("Remove this payment and its income transaction?")) return;
+    if (!ensurePeriodOpen([tx?.date || payment.date], "This payment")) return;
+    recordUndo("Remove payment");
+    const payments = (stored.payments || []).filter(p => p.id !== payment.id);
+    setTransactions(prev => prev.filter(t => t.id !== payment.transactionId));
+    applyInvoiceSettlement(stored.id, { payments, status: stored.status === 'void' ? 'void' : statusFromPayments(stored.amount, payments, stored.credits, openStatus(stored)) });
+    showToast("Payment removed", "info", undoAction);
+  };
+
+  // Quick toggle: paying records the whole balance as one payment today; unpaying removes every payment
   const toggleInvoicePaidStatus = (inv: Partial<Invoice>) => {
-    if (!inv.id || inv.status === 'void') return;
-    if (inv.status === 'paid') {
-      setInvoices(prev => prev.map(i => i.id === inv.id ? { ...i, status: 'unpaid', linkedTransactionId: undefined } : i));
-      if (inv.linkedTransactionId) setTransactions(prev => prev.filter(t => t.id !== inv.linkedTransactionId));
-      setActiveItem(prev => ({ ...prev, status: 'unpaid' })); showToast("Invoice marked as Unpaid", "info");
+    const stored = invoices.find(i => i.id === inv.id);
+    if (!stored || stored.status === 'void') return;
+    if (stored.status === 'paid') {
+      const paymentTxs = invoicePaymentTransactions(stored);
+      if (paymentTxs.some(isReconciled)) return showToast("A payment for this invoice is reconciled and can't be removed", "error");
+      if (!ensurePeriodOpen(paymentTxs.map(t => t.date), "The payments for this invoice")) return;
+      recordUndo("Mark invoice unpaid");
+      applyInvoiceSettlement(stored.id, { payments: [], status: statusFromPayments(stored.amount, [], stored.credits, openStatus(stored)) });
+      if (paymentTxs.length > 0) setTransactions(prev => prev.filter(t => !paymentTxs.includes(t)));
+      showToast(paymentTxs.length === 0 ? "Invoice marked as Unpaid" : `Invoice marked as Unpaid and its ${paymentTxs.length === 1 ? 'payment' : 'payments'} removed`, "info", undoAction);
     } else {
-      const txId = generateId('tx_pay');
-      const newTx: Transaction = { id: txId, name: `Pmt: ${inv.client}`, amount: inv.amount || 0, category: inv.category || 'Sales / Services', date: new Date().toISOString().split('T')[0], type: 'income', notes: `Linked to invoice #${inv.id.substring(0,6)}` };
-      setTransactions(prev => [newTx, ...prev]);
-      setInvoices(prev => prev.map(i => i.id === inv.id ? { ...i, status: 'paid', linkedTransactionId: txId } : i));
-      setActiveItem(prev => ({ ...prev, status: 'paid' })); showToast("Invoice marked as Paid", "success");
+      const booked = isForeignCurrency(stored) ? askBookedAmount(stored, balanceDue(stored)) : undefined;
+      if (isForeignCurrency(stored) && booked === undefined) return;
+      recordUndo("Mark invoice paid");
+      const { tx, payment } = newInvoicePayment(stored, balanceDue(stored), new Date().toISOString().split('T')[0], stored.payMethod, booked);
+      setTransactions(prev => [tx, ...prev]);
+      applyInvoiceSettlement(stored.id, { payments: [...(stored.payments || []), payment], status: 'paid' });
+      showToast("Invoice marked as Paid", "success", undoAction);
     }
   };
 
   const markInvoicePaid = (inv: Invoice) => toggleInvoicePaidStatus(inv);
 
+  // --- Credit Notes & Retainers ---
+  const applyCreditToInvoice = (inv: Partial<Invoice>, credit: ClientCredit, amount: number) => {
+    const stored = invoices.find(i => i.id === inv.id);
+    if (!stored || stored.status === 'void') return;
+    if (currencyOf(credit, appCurrency) !== currencyOf(stored, appCurrency)) return showToast("That credit is in a different currency than this invoice", "error");
+    const applicable = Math.min(creditRemaining(credit, invoices), balanceDue(stored));
+    if (amount <= 0 || amount > applicable) return showToast("That credit has nothing left to apply to this invoice", "error");
+    const today = new Date().toISOString().split('T')[0];
+    if (!ensurePeriodOpen([today], "Applying this credit")) return;
+    recordUndo("Apply credit");
+    const applied: AppliedCredit = { id: generateId('crd_use'), creditId: credit.id, date: today, amount };
+    const appliedCredits = [...(stored.credits || []), applied];
+    applyInvoiceSettlement(stored.id, { credits: appliedCredits, status: statusFromPayments(stored.amount, stored.payments, appliedCredits, openStatus(stored)) });
+    showToast(`${credit.number} applied`, "success", undoAction);
+  };
+
+  const removeAppliedCredit = (inv: Partial<Invoice>, applied: AppliedCredit) => {
+    const stored = invoices.find(i => i.id === inv.id);
+    if (!stored) return;
+    if (!ensurePeriodOpen([applied.date], "This credit")) return;
+    recordUndo("Remove credit");
+    const appliedCredits = (stored.credits || []).filter(a => a.id !== applied.id);
+    applyInvoiceSettlement(stored.id, { credits: appliedCredits, status: stored.status === 'void' ? 'void' : statusFromPayments(stored.amount, stored.payments, appliedCredits, openStatus(stored)) });
+    showToast("Credit removed. It can be applied again later.", "info", undoAction);
+  };
+
+  // The credit note comes off the invoice's own balance first; the rest stays with the client
+  const issueCreditNote = (inv: Partial<Invoice>, amount: number, reason: string) => {
+    const stored = invoices.find(i => i.id === inv.id);
+    if (!stored || stored.status === 'void') return;
+    const limit = creditNoteLimit(stored, credits);
+    if (amount <= 0) return showToast("Enter the amount to credit", "error");
+    if (amount > limit) return showToast(`Credit notes can't exceed the invoice total. At most ${formatterFor(stored.currency).format(limit)} can still be credited.`, "error");
+    const today = new Date().toISOString().split('T')[0];
+    if (!ensurePeriodOpen([today], "This credit note")) return;
+    recordUndo("Issue credit note");
+    const note: ClientCredit = {
+      id: generateId('crd'), kind: 'credit_note', number: nextCreditNumber(credits, 'credit_note'), clientId: stored.clientId, client: stored.client,
+      date: today, amount, reason: reason || undefined, invoiceId: stored.id, currency: stored.currency
+    };
+    setCredits(prev => [...prev, note]);
+    const toApply = Math.min(amount, balanceDue(stored));
+    if (toApply > 0) {
+      const appliedCredits = [...(stored.credits || []), { id: generateId('crd_use'), creditId: note.id, date: today, amount: toApply }];
+      applyInvoiceSettlement(stored.id, { credits: appliedCredits, status: statusFromPayments(stored.amount, stored.payments, appliedCredits, openStatus(stored)) });
+    }
+    const leftover = amount - toApply;
+    showToast(leftover > 0 ? `${note.number} issued. ${formatterFor(stored.currency).format(leftover)} is left as credit for ${stored.client}.` : `${note.number} issued`, "success", undoAction);
+  };
+
+  const recordRetainer = (client: Client, entry: { amount: number; date: string; method?: string; bookedAmount?: number }) => {
+    if (entry.amount <= 0) return showToast("Enter the amount received", "error");
+    const foreign = isForeignCurrency({ currency: client.defaultCurrency });
+    if (foreign && !((entry.bookedAmount || 0) > 0)) return showToast(`Enter the amount received in ${appCurrency}`, "error");
+    if (!ensurePeriodOpen([entry.date], "This retainer")) return;
+    recordUndo("Record retainer");
+    const number = nextCreditNumber(credits, 'retainer');
+    const tx: Transaction = {
+      id: generateId('tx_ret'), name: `Retainer: ${client.name}`, amount: foreign ? entry.bookedAmount! : entry.amount, category: 'Sales / Services',
+      date: entry.date, type: 'income', notes: `Retainer ${number}${entry.method ? ` · ${entry.method}` : ''}`
+    };
+    const retainer: ClientCredit = {
+      id: generateId('crd'), kind: 'retainer', number, clientId: client.id, client: client.name,
+      date: entry.date, amount: entry.amount, transactionId: tx.id, currency: client.defaultCurrency
+    };
+    setTransactions(prev => [tx, ...prev]);
+    setCredits(prev => [...prev, retainer]);
+    showToast(`Retainer ${number} recorded`, "success", undoAction);
+  };
+
+  // Deleting a credit takes it back off every invoice it was applied to
+  const deleteCredit = (credit: ClientCredit) => {
+    const tx = credit.transactionId ? transactions.find(t => t.id === credit.transactionId) : undefined;
+    if (tx && isReconciled(tx)) return showToast("The income for this retainer is reconciled and can't be removed", "error");
+    const touched = invoices.filter(i => i.credits?.some(a => a.creditId === credit.id));
+    if (!confirm(`Delete ${CREDIT_KIND_LABELS[credit.kind].toLowerCase()} ${credit.number}?${touched.length ? ` It will be removed from ${plural(touched.length, 'invoice')}.` : ''}${tx ? ' Its income transaction will be deleted too.' : ''}`)) return;
+    if (!ensurePeriodOpen([credit.date, tx?.date, ...touched.flatMap(i => (i.credits || []).filter(a => a.creditId === credit.id).map(a => a.date))], "This credit")) return;
+    recordUndo("Delete credit");
+    setCredits(prev => prev.filter(c => c.id !== credit.id));
+    setInvoices(prev => prev.map(i => {
+      if (!i.credits?.some(a => a.creditId === credit.id)) return i;
+      const remaining = i.credits.filter(a => a.creditId !== credit.id);
+      return withStatus({ ...i, credits: remaining }, i.status === 'void' ? 'void' : statusFromPayments(i.amount, i.payments, remaining, openStatus(i)));
+    }));
+    if (tx) setTransactions(prev => prev.filter(t => t.id !== tx.id));
+    showToast(`${credit.number} deleted`, "info", undoAction);
+  };
+
+  // --- Late Fees & Reminders ---
+  const reminderSchedule = settings.reminderSchedule || DEFAULT_REMINDER_SCHEDULE;
+
+  const lateFeesFor = (inv: Invoice, today: string = new Date().toISOString().split('T')[0]): PendingLateFee[] => {
+    const rule = lateFeeRuleFor(inv, settings);
+    return rule ? pendingLateFees(inv, rule, today) : [];
+  };
+
+  const lateFeeItems = (fees: PendingLateFee[]): InvoiceItem[] =>
+    fees.map(f => ({ id: generateId('item'), description: f.description, quantity: 1, rate: f.amount, taxable: false, lateFee: true }));
+
+  // Invoices without line items get their amount as a line first, so the fee adds to it
+  const withLateFees = <T extends Partial<Invoice>>(inv: T, feeItems: InvoiceItem[]): T => {
+    const base = inv.items && inv.items.length > 0 ? inv.items : [{ id: generateId('item'), description: inv.description || "Services", quantity: 1, rate: Number(inv.amount) || 0 }];
+    const items = [...base, ...feeItems];
+    const { subtotal, total } = invoiceTotals({ ...inv, items });
+    return withStatus({ ...inv, items, subtotal, amount: total }, statusFromPayments(total, inv.payments, inv.credits, openStatus(inv)));
+  };
+
+  const addLateFees = (inv: Partial<Invoice>) => {
+    const stored = invoices.find(i => i.id === inv.id);
+    if (!stored) return;
+    const fees = lateFeesFor(stored);
+    if (fees.length === 0) return;
+    if (!ensurePeriodOpen([stored.date], "This invoice")) return;
+    recordUndo("Add late fee");
+    const feeItems = lateFeeItems(fees);
+    setInvoices(prev => prev.map(i => i.id === stored.id ? withLateFees(i, feeItems) : i));
+    setActiveItem(prev => prev.id === stored.id ? withLateFees(prev, feeItems) : prev);
+    showToast(`Late fee of ${formatterFor(stored.currency).format(fees.reduce((sum, f) => sum + f.amount, 0))} added`, "success", undoAction);
+  };
+
+  const addAllLateFees = () => {
+    const targets = invoices.filter(inv => lateFeesFor(inv).length > 0);
+    if (targets.length === 0) return;
+    if (!ensurePeriodOpen(targets.map(inv => inv.date), "Some of these invoices")) return;
+    recordUndo("Add late fees");
+    const ids = new Set(targets.map(inv => inv.id));
+    setInvoices(prev => prev.map(i => ids.has(i.id) ? withLateFees(i, lateFeeItems(lateFeesFor(i))) : i));
+    showToast(`Late fees added to ${plural(targets.length, 'invoice')}`, "success", undoAction);
+  };
+
+  const updateInvoiceLateFeeRule = (inv: Partial<Invoice>, lateFeeRule: LateFeeRule | undefined) => {
+    setInvoices(prev => prev.map(i => i.id === inv.id ? { ...i, lateFeeRule } : i));
+    setActiveItem(prev => prev.id === inv.id ? { ...prev, lateFeeRule } : prev);
+  };
+
+  const markReminderSent = (inv: Partial<Invoice>, offsetDays: number) => {
+    const entry = { offsetDays, sentAt: new Date().toISOString() };
+    recordUndo("Log reminder");
+    setInvoices(prev => prev.map(i => i.id === inv.id ? { ...i, reminders: [...(i.reminders || []), entry] } : i));
+    setActiveItem(prev => prev.id === inv.id ? { ...prev, reminders: [...(prev.reminders || []), entry] } : prev);
+    showToast("Reminder logged as sent", "success", undoAction);
+  };
+
+  const copyReminder = (text: string) => {
+    navigator.clipboard?.writeText(text).then(() => showToast("Reminder copied", "success"), () => showToast("Couldn't copy. Select the text instead", "error"));
+  };
+
+  // --- Email Delivery ---
+  const emailSettings = settings.invoiceEmail || DEFAULT_INVOICE_EMAIL;
+
+  useEffect(() => {
+    loadSmtpToken().then(setSmtpToken).catch(err => console.error("Failed to load the SMTP relay token", err));
+  }, []);
+
+  const changeSmtpToken = (token: string | undefined) => {
+    setSmtpToken(token);
+    saveSmtpToken(token).catch(() => showToast("Couldn't save the relay token", "error"));
+  };
+
+  const openSendInvoice = (inv: Partial<Invoice>) => {
+    const stored = invoices.find(i => i.id === inv.id);
+    if (!stored) return;
+    if (stored.status === 'void') return showToast("Void invoices can't be sent", "error");
+    setInvoiceToSend(stored);
+  };
+
+  const invoiceEmailDraft = (inv: Invoice) => {
+    const values = invoiceTemplateValues(inv, settings, n => formatterFor(inv.currency).format(n));
+    return { subject: fillTemplate(emailSettings.subjectTemplate, values), body: fillTemplate(emailSettings.bodyTemplate, values) };
+  };
+
+  // Renders the PDF through the preview like an export; the effect below hands it to the transport
+  const sendInvoice = (message: { to: string; subject: string; body: string }) => {
+    const inv = invoiceToSend;
+    setInvoiceToSend(null);
+    if (!inv) return;
+    pendingDeliveryRef.current = { invoiceId: inv.id, ...message };
+    handlePrintInvoice(inv);
+  };
+
+  const recordInvoiceDelivery = (id: string) => {
+    const at = new Date().toISOString();
+    const delivered = <T extends Partial<Invoice>>(inv: T): T => canMarkSent(inv) ? withStatus({ ...inv, sentAt: at }, 'sent', at) : { ...inv, sentAt: at };
+    recordUndo("Send invoice");
+    setInvoices(prev => prev.map(i => i.id === id ? delivered(i) : i));
+    setActiveItem(prev => prev.id === id ? delivered(prev) : prev);
+  };
+
+  const invoiceFollowUps = useMemo(() => {
+    const today = new Date().toISOString().split('T')[0];
+    return {
+      reminders: invoices.filter(inv => dueReminder(inv, reminderSchedule, today) !== undefined).length,
+      lateFees: invoices.filter(inv => lateFeesFor(inv, today).length > 0).length,
+    };
+  }, [invoices, settings]);
+
+  // --- Quotes ---
+  const switchBillingKind = (kind: 'invoice' | 'quote') => {
+    setBillingKind(kind);
+    setActiveItem(prev => ({ ...prev, number: undefined, due: kind === 'quote' ? shiftDate(prev.date || new Date().toISOString().split('T')[0], DEFAULT_QUOTE_VALID_DAYS) : prev.date }));
+  };
+
+  const openNewQuote = () => {
+    handleOpenFAB('billing');
+    switchBillingKind('quote');
+  };
+
+  const openQuote = (quote: Quote) => {
+    setCategorySearch('');
+    setActiveItem(quoteToDraft(quote));
+    setActiveTab('billing'); setBillingKind('quote'); setDrawerMode('edit_quote'); setIsDrawerOpen(true);
+  };
+
+  const saveQuote = (data: Partial<Invoice>) => {
+    if (!data.client?.trim()) return showToast("Please enter a client name", "error");
+    let totalAmount = 0, subtotal = 0;
+    if (data.items && data.items.length > 0) {
+        ({ subtotal, total: totalAmount } = invoiceTotals(data));
+    } else {
+        totalAmount = Number(data.amount) || 0; subtotal = totalAmount;
+    }
+    if (totalAmount <= 0) return showToast("Please add items or enter a valid amount", "error");
+    const stored = drawerMode === 'edit_quote' ? quotes.find(q => q.id === activeItem.id) : undefined;
+    const typedNumber = data.number?.trim();
+    if (typedNumber && quotes.some(q => q.id !== stored?.id && q.number.toLowerCase() === typedNumber.toLowerCase())) return showToast(`Quote number ${typedNumber} is already used by another quote`, "error");
+    const number = typedNumber || stored?.number || nextQuoteNumber(quotes);
+    const description = data.description || (data.items && data.items.length > 0 ? data.items[0].description : "Services Rendered");
+    const fields = { ...quoteFieldsFromDraft({ ...data, category: data.category || "Service" }), number, amount: totalAmount, subtotal, description };
+    recordUndo(stored ? "Edit quote" : "Create quote");
+    if (stored) {
+      setQuotes(prev => prev.map(q => q.id === stored.id ? { ...q, ...fields } : q));
+      showToast("Quote updated", "success", undoAction);
+    } else {
+      setQuotes(prev => [{ ...fields, id: generateId('qt'), status: 'draft' }, ...prev]);
+      showToast(`Quote ${number} saved`, "success", undoAction);
+    }
+    setIsDrawerOpen(false);
+  };
+
+  const setQuoteStatus = (quote: Quote, status: QuoteStatus) => {
+    if (quote.invoiceId && status !== 'accepted') return showToast(`${quote.number} has already been turned into an invoice`, "error");
+    recordUndo("Update quote status");
+    setQuotes(prev => prev.map(q => q.id === quote.id ? { ...q, status } : q));
+    if (drawerMode === 'edit_quote' && activeItem.id === quote.id) setIsDrawerOpen(false);
+    showToast(`${quote.number} marked ${QUOTE_STATUS_LABELS[status].toLowerCase()}`, "success", undoAction);
+  };
+
+  // Accepting a quote creates a draft invoice with the same client and lines, dated today
+  const convertQuoteToInvoice = (quote: Quote) => {
+    const existing = quote.invoiceId ? invoices.find(i => i.id === quote.invoiceId) : undefined;
+    if (existing) return handleEditItem(existing);
+    if (quoteStatus(quote) === 'declined') return showToast(`${quote.number} was declined`, "error");
+    const today = new Date().toISOString().split('T')[0];
+    if (!ensurePeriodOpen([today], "The new invoice")) return;
+    const client = quote.clientId ? clients.find(c => c.id === quote.clientId) : undefined;
+    const due = client?.paymentTermsDays !== undefined ? shiftDate(today, client.paymentTermsDays) : today;
+    recordUndo("Convert quote to invoice");
+    const issued = issueInvoiceNumber(settings.invoiceNumbering || DEFAULT_INVOICE_NUMBERING, today, numberedInvoices);
+    setSettings(s => ({ ...s, invoiceNumbering: issued.scheme }));
+    const invoice: Invoice = { ...invoiceFromQuote(quote, today, due), id: generateId('inv'), number: issued.number, terms: quote.terms || settings.defaultInvoiceTerms, statusHistory: [statusChange('draft')] };
+    setInvoices(prev => [invoice, ...prev]);
+    setQuotes(prev => prev.map(q => q.id === quote.id ? { ...q, status: 'accepted', invoiceId: invoice.id } : q));
+    showToast(`Invoice ${issued.number} created from ${quote.number}`, "success", undoAction);
+    setInvoicesView('invoices');
+    handleEditItem(invoice);
+  };
+
+  const deleteQuote = (quote: Quote) => {
+    if (!confirm(`Delete quote ${quote.number}?${quote.invoiceId ? ' The invoice made from it is kept.' : ''}`)) return;
+    recordUndo("Delete quote");
+    setQuotes(prev => prev.filter(q => q.id !== quote.id));
+    if (drawerMode === 'edit_quote' && activeItem.id === quote.id) setIsDrawerOpen(false);
+    showToast(`${quote.number} deleted`, "info", undoAction);
+  };
+
+  // --- Bulk Ledger Actions ---
+  const ledgerSelection = useMemo(() => {
+    const visible = ledgerItems.filter((item: any) => selectedLedgerIds.has(item.listId));
+    return {
+      transactions: visible.filter((item: any) => item.dataType === 'transaction').map((item: any) => item.original as Transaction),
+      invoices: visible.filter((item: any) => item.dataType === 'invoice').map((item: any) => item.original as Invoice),
+    };
+  }, [ledgerItems, selectedLedgerIds]);
+
+  const bulkCategoryOptions = useMemo(() => {
+    const types = new Set(ledgerSelection.transactions.filter(canRecategorize).map(t => t.type));
+    const income = [...customCategories.income, ...CATS_IN];
+    const expense = [...customCategories.expense, ...CATS_OUT];
+    if (types.size === 1 && types.has('income')) return income;
+    if (types.size === 1 && types.has('expense')) return expense;
+    return Array.from(new Set([...expense, ...income]));
+  }, [ledgerSelection, customCategories]);
+
+  const toggleLedgerSelection = (listId: string) => {
+    setSelectedLedgerIds(prev => {
+      const next = new Set(prev);
+      if (next.has(listId)) next.delete(listId); else next.add(listId);
+      return next;
+    });
+  };
+
+  const exitBulkSelect = () => { setBulkSelectMode(false); setSelectedLedgerIds(new Set()); };
+
+  const plural = (n: number, word: string) => `${n} ${n === 1 ? word : word + 's'}`;
+
+  const bulkRecategorize = (category: string) => {
+    const targets = ledgerSelection.transactions.filter(t => canRecategorize(t) && !isInvoicePayment(t));
+    if (targets.length === 0) return showToast("Transfers, split transactions and invoice payments can't be recategorized in bulk", "error");
+    if (!ensurePeriodOpen(targets.map(t => t.date), "Part of the selection")) return;
+    recordUndo("Bulk recategorize");
+    setTransactions(prev => recategorize(prev, new Set(targets.map(t => t.id)), category));
+    const skipped = ledgerSelection.transactions.length - targets.length;
+    showToast(`Moved ${plural(targets.length, 'transaction')} to ${category}${skipped ? ` (${skipped} skipped)` : ''}`, "success", undoAction);
+  };
+
+  const bulkShiftDates = (days: number) => {
+    if (!days) return;
+    // Reconciled entries, moves into a reconciled period and invoice payments are left alone
+    const txTargets = ledgerSelection.transactions.filter(t => !isInvoicePayment(t) && !reconciliationLockError(reconciliations, { ...t, date: shiftDate(t.date, days) }, t));
+    const invTargets = ledgerSelection.invoices;
+    const oldDates = [...txTargets, ...invTargets].map(r => r.date);
+    if (!ensurePeriodOpen([...oldDates, ...oldDates.map(d => shiftDate(d, days))], "Part of the selection")) return;
+    recordUndo("Bulk date shift");
+    setTransactions(prev => shiftTransactionDates(prev, new Set(txTargets.map(t => t.id)), days));
+    setInvoices(prev => shiftInvoiceDates(prev, new Set(invTargets.map(i => i.id)), days));
+    const skipped = ledgerSelection.transactions.length - txTargets.length;
+    showToast(`Moved ${plural(txTargets.length + invTargets.length, 'item')} ${plural(Math.abs(days), 'day')} ${days < 0 ? 'earlier' : 'later'}${skipped ? ` (${skipped} reconciled or invoice payments left alone)` : ''}`, "success", undoAction);
+  };
+
+  const bulkMarkPaid = () => {
+    const outstanding = ledgerSelection.invoices.filter(isOutstanding);
+    // Each foreign-currency payment needs the amount that arrived, so those are recorded one at a time
+    const unpaid = outstanding.filter(i => !isForeignCurrency(i));
+    const skipped = outstanding.length - unpaid.length;
+    if (unpaid.length === 0) return skipped > 0 ? showToast("Invoices in other currencies need their payments recorded one by one", "error") : undefined;
+    recordUndo("Bulk mark paid");
+    const today = new Date().toISOString().split('T')[0];
+    const payments = new Map(unpaid.map(i => [i.id, newInvoicePayment(i, balanceDue(i), today, i.payMethod)]));
+    setTransactions(prev => [...Array.from(payments.values(), p => p.tx), ...prev]);
+    setInvoices(prev => prev.map(i => payments.has(i.id) ? withStatus({ ...i, payments: [...(i.payments || []), payments.get(i.id)!.payment] }, 'paid') : i));
+    showToast(`Marked ${plural(unpaid.length, 'invoice')} as paid${skipped ? ` (${skipped} in other currencies left to record)` : ''}`, "success", undoAction);
+  };
+
+  const bulkExport = () => {
+    const csv = selectionToCsv(ledgerSelection.transactions, ledgerSelection.invoices, accountName);
+    const blob = new Blob([csv], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `moniezi_selection_${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    showToast(`Exported ${plural(ledgerSelection.transactions.length + ledgerSelection.invoices.length, 'item')}`, "success");
+  };
+
+  const bulkDelete = () => {
+    // Invoice payments only go along with their invoice
+    const txTargets = ledgerSelection.transactions.filter(t => !isReconciled(t) && !isInvoicePayment(t));
+    // An invoice takes its payments with it, so one with a reconciled payment stays
+    const invTargets = ledgerSelection.invoices.filter(i => !invoicePaymentTransactions(i).some(isReconciled));
+    const paymentTxs = invTargets.flatMap(invoicePaymentTransactions);
+    const count = txTargets.length + invTargets.length;
+    if (count === 0) return showToast("Reconciled items and invoice payments can't be deleted here", "error");
+    if (!confirm(`Move ${plural(count, 'item')} to Trash?`)) return;
+    if (!ensurePeriodOpen([...txTargets, ...invTargets, ...paymentTxs].map(r => r.date), "Part of the selection")) return;
+    recordUndo("Bulk delete");
+    const now = new Date();
+    moveToTrash([
+      ...txTargets.map(t => toTrash('transaction', t, now)),
+      ...invTargets.map(i => toTrash('invoice', i, now, invoicePaymentTransactions(i))),
+    ]);
+    const txIds = new Set([...txTargets, ...paymentTxs].map(t => t.id));
+    const invIds = new Set(invTargets.map(i => i.id));
+    setTransactions(prev => prev.filter(t => !txIds.has(t.id)));
+    setInvoices(prev => prev.filter(i => !invIds.has(i.id)));
+    setSelectedLedgerIds(new Set());
+    // Selected payments of an invoice that was deleted went with it, so they aren't kept
+    const skipped = ledgerSelection.transactions.filter(t => !txIds.has(t.id)).length + ledgerSelection.invoices.length - invTargets.length;
+    showToast(`Moved ${plural(count, 'item')} to Trash${skipped ? ` (${skipped} reconciled or invoice payments kept)` : ''}`, "info", undoAction);
+  };
+
   const handlePrintInvoice = (inv: Partial<Invoice>) => {
     const invoiceToPrint = { ...inv } as Invoice;
     if (!invoiceToPrint.items || invoiceToPrint.items.length === 0) {
         invoiceToPrint.items = [{ id: 'generated_1', description: inv.description || "Services", quantity: 1, rate: inv.amount || 0 }];
         invoiceToPrint.subtotal = inv.amount;
     }
-    setSelectedInvoiceForDoc(invoiceToPrint); setIsPdfPreviewOpen(true);
+    setSelectedDocKind('invoice'); setSelectedInvoiceForDoc(invoiceToPrint); setIsPdfPreviewOpen(true);
+  };
+
+  // Quotes reuse the invoice layout with their own heading and no payment lines
+  const handlePrintQuote = (quote: Quote) => {
+    const doc = quoteToDraft(quote) as Invoice;
+    if (!doc.items || doc.items.length === 0) {
+        doc.items = [{ id: 'generated_1', description: quote.description || "Services", quantity: 1, rate: quote.amount || 0 }];
+        doc.subtotal = quote.amount;
+    }
+    setSelectedDocKind('quote'); setSelectedInvoiceForDoc(doc); setIsPdfPreviewOpen(true);
   };
 
   const handleDirectExportPDF = () => {
@@ -1186,7 +2244,7 @@ export default function App() {
         updatedInvoice.subtotal = updatedInvoice.amount;
      }
      setInvoices(prev => prev.map(i => i.id === updatedInvoice.id ? updatedInvoice : i));
-     setSelectedInvoiceForDoc(updatedInvoice); setIsPdfPreviewOpen(true);
+     setSelectedDocKind('invoice'); setSelectedInvoiceForDoc(updatedInvoice); setIsPdfPreviewOpen(true);
   };
   
   useEffect(() => {
@@ -1204,12 +2262,23 @@ export default function App() {
                  if (img.complete) return Promise.resolve();
                  return new Promise(resolve => { img.onload = resolve; img.onerror = resolve; setTimeout(resolve, 2000); });
              }));
-             const opt = { margin: [10, 10, 10, 10], filename: `Invoice_${selectedInvoiceForDoc.client.replace(/[^a-z0-9]/gi, '_')}_${selectedInvoiceForDoc.date}.pdf`, image: { type: 'jpeg', quality: 0.98 }, html2canvas: { scale: 2, useCORS: true, backgroundColor: '#ffffff', scrollY: 0 }, jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' } };
-             await (window as any).html2pdf().set(opt).from(element).save();
-             if (isMounted) { showToast("PDF Downloaded", "success"); setTimeout(() => setIsPdfPreviewOpen(false), 1000); }
-         } catch (error) { console.error("PDF failed:", error); if (isMounted) showToast("Export failed", "error"); } finally { if (isMounted) setIsGeneratingPdf(false); }
+             const opt = { margin: [10, 10, 10, 10], filename: `${selectedDocKind === 'quote' ? 'Quote' : 'Invoice'}_${(selectedInvoiceForDoc.number || selectedInvoiceForDoc.client).replace(/[^a-z0-9-]/gi, '_')}_${selectedInvoiceForDoc.date}.pdf`, image: { type: 'jpeg', quality: 0.98 }, html2canvas: { scale: 2, useCORS: true, backgroundColor: '#ffffff', scrollY: 0 }, jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' } };
+             const delivery = pendingDeliveryRef.current;
+             pendingDeliveryRef.current = null;
+             if (delivery) {
+                 const blob: Blob = await (window as any).html2pdf().set(opt).from(element).outputPdf('blob');
+                 const { invoiceId, ...message } = delivery;
+                 const result = await createTransport(emailSettings, smtpToken).send({ ...message, attachment: { filename: opt.filename, blob } });
+                 recordInvoiceDelivery(invoiceId);
+                 if (isMounted) { showToast(result.attached ? "Invoice sent" : "PDF downloaded. Attach it to the email", "success", undoAction); setTimeout(() => setIsPdfPreviewOpen(false), 1000); }
+             } else {
+                 await (window as any).html2pdf().set(opt).from(element).save();
+                 if (isMounted) { showToast("PDF Downloaded", "success"); setTimeout(() => setIsPdfPreviewOpen(false), 1000); }
+             }
+         } catch (error) { console.error("PDF failed:", error); pendingDeliveryRef.current = null; if (isMounted) showToast(error instanceof EmailDeliveryError ? error.message : "Export failed", "error"); } finally { if (isMounted) setIsGeneratingPdf(false); }
      };
      if (isPdfPreviewOpen) generatePdf();
+     else pendingDeliveryRef.current = null;
      return () => { isMounted = false; };
   }, [isPdfPreviewOpen, selectedInvoiceForDoc]);
 
@@ -1255,10 +2324,13 @@ export default function App() {
   };
 
   const deleteReceipt = (id: string) => {
-      if (confirm("Delete this receipt?")) {
+      const receipt = receipts.find(r => r.id === id);
+      if (receipt && confirm("Move this receipt to Trash?")) {
+          recordUndo("Delete receipt");
+          moveToTrash([toTrash('receipt', receipt)]);
           setReceipts(prev => prev.filter(r => r.id !== id));
           setViewingReceipt(null);
-          showToast("Receipt deleted", "info");
+          showToast("Receipt moved to Trash", "info", undoAction);
       }
   };
 
@@ -1268,6 +2340,7 @@ export default function App() {
         metadata: {
             appName: "Moniezi Pro",
             version: "1.0.0",
+            schemaVersion: SCHEMA_VERSION,
             timestamp: new Date().toISOString(),
         },
         data: {
@@ -1276,7 +2349,16 @@ export default function App() {
             settings,
             taxPayments,
             customCategories,
-            receipts
+            receipts,
+            accounts,
+            clients,
+            credits,
+            quotes,
+            catalogItems,
+            reconciliations,
+            auditLog,
+            trash,
+            categoryRules
         }
     };
     
@@ -1293,6 +2375,20 @@ export default function App() {
     showToast("Backup file downloaded", "success");
   };
 
+  const handleExportAuditLog = () => {
+    if (auditLog.length === 0) return showToast("No changes have been recorded yet", "info");
+    const blob = new Blob([auditLogToCsv(auditLog)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `moniezi_change_log_${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    showToast("Change log downloaded", "success");
+  };
+
   const handleImportBackup = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -1308,11 +2404,13 @@ export default function App() {
                 throw new Error("Invalid backup format");
             }
             
-            setPendingBackupData(parsed.data);
+            // Upgrade older backups now so a backup from a newer app is rejected before the confirm modal
+            const data = migrateData(parsed.data, getBackupSchemaVersion(parsed.metadata));
+            setPendingBackupData({ metadata: parsed.metadata, data });
             setShowRestoreModal(true);
         } catch (err) {
             console.error(err);
-            showToast("Invalid backup file", "error");
+            showToast(err instanceof SchemaVersionError ? err.message : "Invalid backup file", "error");
         }
         // Reset input
         if (fileInputRef.current) fileInputRef.current.value = '';
@@ -1324,7 +2422,7 @@ export default function App() {
     if (!pendingBackupData) return;
     
     try {
-        const newData = pendingBackupData;
+        const newData = pendingBackupData.data;
         
         // 1. Prepare safe data objects with defaults to prevent crashes
         const tx = Array.isArray(newData.transactions) ? newData.transactions : [];
@@ -1339,18 +2437,31 @@ export default function App() {
             billing: Array.isArray(newData.customCategories?.billing) ? newData.customCategories.billing : []
         };
 
-        // 2. Update State directly (triggers useEffect to save to LS)
+        // 2. Update State directly (triggers useEffect to save to IndexedDB)
+        recordUndo("Restore backup");
         setTransactions(tx);
         setInvoices(inv);
         setTaxPayments(tax);
         setReceipts(rec);
+        setCategoryRules(Array.isArray(newData.categoryRules) ? newData.categoryRules : []);
+        setAccounts(Array.isArray(newData.accounts) ? newData.accounts : []);
+        setClients(Array.isArray(newData.clients) ? newData.clients : []);
+        setCredits(Array.isArray(newData.credits) ? newData.credits : []);
+        setQuotes(Array.isArray(newData.quotes) ? newData.quotes : []);
+        setCatalogItems(Array.isArray(newData.catalogItems) ? newData.catalogItems : []);
+        setSelectedClientId(null);
+        setReconciliations(Array.isArray(newData.reconciliations) ? newData.reconciliations : []);
+        setTrash(Array.isArray(newData.trash) ? purgeExpired(newData.trash) : []);
+        // A restore replaces every record, so the existing change log is kept and notes the swap in one entry
+        setAuditLog(log => appendAuditEntries(log, [dataReplacedEntry('restore', snapshotRef.current, { ...newData, auditLog: undefined }, auditContext(settings), { backupFrom: pendingBackupData.metadata?.timestamp })]));
+        auditBaselineRef.current = null;
         setSettings(set);
         setCustomCategories(cats);
 
         // 3. UI Feedback & Cleanup
         setShowRestoreModal(false);
         setPendingBackupData(null);
-        showToast("Backup restored successfully!", "success");
+        showToast("Backup restored successfully!", "success", undoAction);
         
         // 4. Navigate to Dashboard to show data immediately
         setCurrentPage(Page.Dashboard);
@@ -1375,6 +2486,16 @@ export default function App() {
             <input type="text" placeholder="Search or add category..." value={categorySearch} onChange={e => setCategorySearch(e.target.value)} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg pl-9 pr-3 py-2 text-sm outline-none focus:ring-1 focus:ring-blue-500 text-slate-900 dark:text-white" />
          </div>
          <div className="max-h-48 overflow-y-auto custom-scrollbar p-1">
+            {!categorySearch && suggestedCategories.length > 0 && (
+                <div className="mb-4">
+                    <label className="text-xs font-bold text-slate-400 dark:text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-1"><Sparkles size={12} /> Suggested</label>
+                    <div className="flex flex-wrap gap-2">
+                        {suggestedCategories.map(s => (
+                            <button key={`suggested-${s.category}`} type="button" onClick={() => onSelect(s.category)} title={s.reason === 'vendor' ? 'Used before for this vendor' : 'Used for similar names'} className={`px-3 py-2 rounded-lg text-xs font-bold transition-all flex items-center gap-2 border ${current === s.category ? 'bg-blue-600 text-white border-blue-600 shadow-md' : 'bg-purple-50 dark:bg-purple-900/20 text-purple-700 dark:text-purple-300 border-purple-200 dark:border-purple-800 hover:bg-purple-100 dark:hover:bg-purple-900/40'}`}>{getCategoryIcon(s.category)}{s.category}<span className="opacity-60">{Math.round(s.confidence * 100)}%</span></button>
+                        ))}
+                    </div>
+                </div>
+            )}
             {!categorySearch && recentCategories.length > 0 && (
                 <div className="mb-4">
                     <label className="text-xs font-bold text-slate-400 dark:text-slate-400 uppercase tracking-wider mb-2 block">Recent</label>
@@ -1399,19 +2520,41 @@ export default function App() {
     );
   };
 
+  const toggleSplit = () => setActiveItem(prev => {
+    if (prev.splits && prev.splits.length > 0) return { ...prev, splits: undefined, category: primaryCategory(prev.splits) };
+    return { ...prev, splits: [
+      { id: generateId('split'), category: prev.category || '', amount: Number(prev.amount) || 0 },
+      { id: generateId('split'), category: '', amount: 0 }
+    ] };
+  });
+  const addSplitLine = () => setActiveItem(prev => {
+    const remaining = Math.max(0, Math.round(((Number(prev.amount) || 0) - splitsTotal(prev.splits || [])) * 100) / 100);
+    return { ...prev, splits: [...(prev.splits || []), { id: generateId('split'), category: '', amount: remaining }] };
+  });
+  const removeSplitLine = (splitId: string) => setActiveItem(prev => ({ ...prev, splits: prev.splits?.filter(sp => sp.id !== splitId) }));
+  const updateSplitLine = (splitId: string, field: keyof TransactionSplit, value: any) => setActiveItem(prev => ({ ...prev, splits: prev.splits?.map(sp => sp.id === splitId ? { ...sp, [field]: value } : sp) }));
+
   const addInvoiceItem = () => setActiveItem(prev => ({ ...prev, items: [...(prev.items || []), { id: generateId('item'), description: '', quantity: 1, rate: 0 }] }));
+  // Fills the first blank line if there is one; the first catalog line also sets the invoice's category
+  const addCatalogLine = (catalogId: string) => {
+    const entry = catalogItems.find(c => c.id === catalogId);
+    if (!entry) return;
+    setActiveItem(prev => {
+      const items = prev.items || [];
+      const line = lineFromCatalog(entry, generateId('item'));
+      const blank = items.find(item => !item.description.trim() && !item.rate);
+      const firstLine = items.every(item => !item.description.trim());
+      return {
+        ...prev,
+        category: firstLine ? entry.category : prev.category,
+        items: blank ? items.map(item => item.id === blank.id ? { ...line, id: blank.id } : item) : [...items, line],
+      };
+    });
+  };
   const removeInvoiceItem = (itemId: string) => setActiveItem(prev => ({ ...prev, items: prev.items?.filter(item => item.id !== itemId) }));
   const updateInvoiceItem = (itemId: string, field: keyof InvoiceItem, value: any) => setActiveItem(prev => ({ ...prev, items: prev.items?.map(item => item.id === itemId ? { ...item, [field]: value } : item) }));
 
-  const activeInvoiceTotals = useMemo(() => {
-      if (!activeItem.items) return { subtotal: 0, total: 0, tax: 0 };
-      const subtotal = activeItem.items.reduce((sum, item) => sum + (item.quantity * item.rate), 0);
-      const discount = activeItem.discount || 0;
-      const taxRate = activeItem.taxRate || 0;
-      const taxAmount = (subtotal - discount) * (taxRate / 100);
-      const total = Math.max(0, subtotal - discount + taxAmount + (activeItem.shipping || 0));
-      return { subtotal, total, tax: taxAmount };
-  }, [activeItem]);
+  const activeInvoiceTotals = useMemo(() => invoiceTotals(activeItem), [activeItem]);
 
   return (
     <>
@@ -1494,7 +2637,7 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                 <div className="sticky top-0 left-0 right-0 bg-white/90 backdrop-blur border-b border-slate-100 p-4 flex justify-between items-center z-50">
                     <div className="flex items-center gap-2">
                        {isGeneratingPdf ? <Loader2 className="animate-spin text-blue-600" /> : <Download className="text-emerald-600" />}
-                       <span className="font-bold text-sm uppercase tracking-wider">{isGeneratingPdf ? 'Generating PDF...' : 'Previewing Invoice'}</span>
+                       <span className="font-bold text-sm uppercase tracking-wider">{isGeneratingPdf ? 'Generating PDF...' : selectedDocKind === 'quote' ? 'Previewing Quote' : 'Previewing Invoice'}</span>
                     </div>
                     <button onClick={() => setIsPdfPreviewOpen(false)} className="p-2 hover:bg-slate-100 rounded-full"><X size={20} /></button>
                 </div>
@@ -1512,11 +2655,11 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                             </div>
                         </div>
                         <div className={`text-left ${settings.showLogoOnInvoice && settings.logoAlignment === 'center' ? 'w-full mt-6 flex flex-col items-center' : 'text-right flex-1'}`}>
-                            <h2 className="text-5xl font-extrabold tracking-tighter mb-4 font-brand" style={{ color: settings.brandColor || '#e2e8f0' }}>INVOICE</h2>
+                            <h2 className="text-5xl font-extrabold tracking-tighter mb-4 font-brand" style={{ color: settings.brandColor || '#e2e8f0' }}>{selectedDocKind === 'quote' ? 'QUOTE' : 'INVOICE'}</h2>
                             <div className={`space-y-2 ${settings.showLogoOnInvoice && settings.logoAlignment === 'center' ? 'w-full max-w-sm' : ''}`}>
-                                <div className="flex justify-between md:justify-end gap-8"><span className="text-sm font-bold text-slate-400 uppercase tracking-wider">Invoice #</span><span className="text-sm font-bold text-slate-900">{selectedInvoiceForDoc.number || selectedInvoiceForDoc.id.substring(selectedInvoiceForDoc.id.length - 6).toUpperCase()}</span></div>
+                                <div className="flex justify-between md:justify-end gap-8"><span className="text-sm font-bold text-slate-400 uppercase tracking-wider">{selectedDocKind === 'quote' ? 'Quote #' : 'Invoice #'}</span><span className="text-sm font-bold text-slate-900">{selectedInvoiceForDoc.number || selectedInvoiceForDoc.id.substring(selectedInvoiceForDoc.id.length - 6).toUpperCase()}</span></div>
                                 <div className="flex justify-between md:justify-end gap-8"><span className="text-sm font-bold text-slate-400 uppercase tracking-wider">Date</span><span className="text-sm font-bold text-slate-900">{selectedInvoiceForDoc.date}</span></div>
-                                <div className="flex justify-between md:justify-end gap-8"><span className="text-sm font-bold text-slate-400 uppercase tracking-wider">Due</span><span className="text-sm font-bold text-slate-900">{selectedInvoiceForDoc.due}</span></div>
+                                <div className="flex justify-between md:justify-end gap-8"><span className="text-sm font-bold text-slate-400 uppercase tracking-wider">{selectedDocKind === 'quote' ? 'Valid Until' : 'Due'}</span><span className="text-sm font-bold text-slate-900">{selectedInvoiceForDoc.due}</span></div>
                             </div>
                         </div>
                     </div>
@@ -1546,22 +2689,25 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                             {(selectedInvoiceForDoc.items || []).map((item, idx) => (
                                 <div key={item.id || idx} className="border-b border-slate-100 pb-3 grid grid-cols-12 gap-4 items-start">
                                     <div className="col-span-6"><span className="font-bold text-slate-800 text-sm block">{item.description}</span></div>
-                                    <div className="col-span-2 text-right text-sm font-medium text-slate-600">{item.quantity}</div>
-                                    <div className="col-span-2 text-right text-sm font-medium text-slate-600">{formatCurrency.format(item.rate)}</div>
-                                    <div className="col-span-2 text-right text-sm font-bold text-slate-900">{formatCurrency.format(item.quantity * item.rate)}</div>
+                                    <div className="col-span-2 text-right text-sm font-medium text-slate-600">{formatQuantity(item)}</div>
+                                    <div className="col-span-2 text-right text-sm font-medium text-slate-600">{formatterFor(selectedInvoiceForDoc.currency).format(item.rate)}</div>
+                                    <div className="col-span-2 text-right text-sm font-bold text-slate-900">{formatterFor(selectedInvoiceForDoc.currency).format(item.quantity * item.rate)}</div>
                                 </div>
                             ))}
                         </div>
                     </div>
                     <div className="flex justify-end mt-4 mb-12 z-10 relative">
                         <div className="w-5/12 space-y-3">
-                            <div className="flex justify-between text-sm"><span className="font-bold text-slate-500">Subtotal</span><span className="font-bold text-slate-900">{formatCurrency.format(selectedInvoiceForDoc.subtotal || selectedInvoiceForDoc.amount)}</span></div>
-                            {selectedInvoiceForDoc.discount ? (<div className="flex justify-between text-sm text-emerald-600"><span className="font-bold">Discount</span><span className="font-bold">-{formatCurrency.format(selectedInvoiceForDoc.discount)}</span></div>) : null}
-                            {selectedInvoiceForDoc.taxRate ? (<div className="flex justify-between text-sm"><span className="font-bold text-slate-500">Tax ({selectedInvoiceForDoc.taxRate}%)</span><span className="font-bold text-slate-900">{formatCurrency.format(((selectedInvoiceForDoc.subtotal || 0) - (selectedInvoiceForDoc.discount || 0)) * (selectedInvoiceForDoc.taxRate / 100))}</span></div>) : null}
-                            {selectedInvoiceForDoc.shipping ? (<div className="flex justify-between text-sm"><span className="font-bold text-slate-500">Shipping</span><span className="font-bold text-slate-900">{formatCurrency.format(selectedInvoiceForDoc.shipping)}</span></div>) : null}
+                            <div className="flex justify-between text-sm"><span className="font-bold text-slate-500">Subtotal</span><span className="font-bold text-slate-900">{formatterFor(selectedInvoiceForDoc.currency).format(selectedInvoiceForDoc.subtotal || selectedInvoiceForDoc.amount)}</span></div>
+                            {selectedInvoiceForDoc.discount ? (<div className="flex justify-between text-sm text-emerald-600"><span className="font-bold">Discount</span><span className="font-bold">-{formatterFor(selectedInvoiceForDoc.currency).format(selectedInvoiceForDoc.discount)}</span></div>) : null}
+                            {selectedInvoiceForDoc.taxRate ? (<div className="flex justify-between text-sm"><span className="font-bold text-slate-500">Tax ({selectedInvoiceForDoc.taxRate}%)</span><span className="font-bold text-slate-900">{formatterFor(selectedInvoiceForDoc.currency).format(invoiceTotals(selectedInvoiceForDoc).tax)}</span></div>) : null}
+                            {selectedInvoiceForDoc.shipping ? (<div className="flex justify-between text-sm"><span className="font-bold text-slate-500">Shipping</span><span className="font-bold text-slate-900">{formatterFor(selectedInvoiceForDoc.currency).format(selectedInvoiceForDoc.shipping)}</span></div>) : null}
                             <div className="h-px bg-slate-900 my-2"></div>
-                            <div className="flex justify-between items-end"><span className="font-extrabold text-lg text-slate-900 uppercase tracking-wider">Total</span><span className="font-extrabold text-2xl text-slate-900">{formatCurrency.format(selectedInvoiceForDoc.amount)}</span></div>
-                            {selectedInvoiceForDoc.status === 'paid' && <div className="flex justify-between items-center text-emerald-700 bg-emerald-50 px-3 py-1.5 rounded mt-2"><span className="font-bold text-sm uppercase">Amount Paid</span><span className="font-bold">{formatCurrency.format(selectedInvoiceForDoc.amount)}</span></div>}
+                            <div className="flex justify-between items-end"><span className="font-extrabold text-lg text-slate-900 uppercase tracking-wider">Total</span><span className="font-extrabold text-2xl text-slate-900">{formatterFor(selectedInvoiceForDoc.currency).format(selectedInvoiceForDoc.amount)}</span></div>
+                            {selectedDocKind === 'invoice' && selectedInvoiceForDoc.status !== 'void' && (selectedInvoiceForDoc.payments || []).map(p => (<div key={p.id} className="flex justify-between text-sm text-emerald-700"><span className="font-bold">Paid {p.date}{p.method ? ` · ${p.method}` : ''}</span><span className="font-bold">-{formatterFor(selectedInvoiceForDoc.currency).format(p.amount)}</span></div>))}
+                            {selectedDocKind === 'invoice' && selectedInvoiceForDoc.status !== 'void' && (selectedInvoiceForDoc.credits || []).map(a => { const credit = credits.find(c => c.id === a.creditId); return (<div key={a.id} className="flex justify-between text-sm text-blue-700"><span className="font-bold">{credit ? `${CREDIT_KIND_LABELS[credit.kind]} ${credit.number}` : 'Credit'}{credit?.reason ? ` · ${credit.reason}` : ''}</span><span className="font-bold">-{formatterFor(selectedInvoiceForDoc.currency).format(a.amount)}</span></div>); })}
+                            {selectedInvoiceForDoc.status === 'paid' && !(selectedInvoiceForDoc.payments || []).length && !(selectedInvoiceForDoc.credits || []).length && <div className="flex justify-between items-center text-emerald-700 bg-emerald-50 px-3 py-1.5 rounded mt-2"><span className="font-bold text-sm uppercase">Amount Paid</span><span className="font-bold">{formatterFor(selectedInvoiceForDoc.currency).format(selectedInvoiceForDoc.amount)}</span></div>}
+                            {selectedDocKind === 'invoice' && selectedInvoiceForDoc.status !== 'void' && amountPaid(selectedInvoiceForDoc) + amountCredited(selectedInvoiceForDoc) > 0 && <div className={`flex justify-between items-center px-3 py-1.5 rounded mt-2 ${balanceDue(selectedInvoiceForDoc) > 0 ? 'text-slate-900 bg-slate-100' : 'text-emerald-700 bg-emerald-50'}`}><span className="font-bold text-sm uppercase">Balance Due</span><span className="font-extrabold">{formatterFor(selectedInvoiceForDoc.currency).format(balanceDue(selectedInvoiceForDoc))}</span></div>}
                         </div>
                     </div>
                     <div className="mt-auto z-10 relative">
@@ -1569,7 +2715,7 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                             <div>{selectedInvoiceForDoc.notes && (<><h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Notes</h4><p className="text-sm text-slate-600 leading-relaxed whitespace-pre-wrap">{selectedInvoiceForDoc.notes}</p></>)}</div>
                             <div>{(selectedInvoiceForDoc.terms || settings.payPrefs.length > 0) && (<><h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Terms & Payment</h4>{selectedInvoiceForDoc.terms && <p className="text-sm text-slate-600 leading-relaxed whitespace-pre-wrap mb-3">{selectedInvoiceForDoc.terms}</p>}{settings.payPrefs.length > 0 && (<div className="text-xs font-bold text-slate-500 bg-slate-50 p-3 rounded inline-block w-full">Accepted Methods: {settings.payPrefs.join(', ')}</div>)}</>)}</div>
                         </div>
-                        <div className="mt-12 text-center text-xs text-slate-400 font-bold uppercase tracking-widest">Thank you for your business</div>
+                        <div className="mt-12 text-center text-xs text-slate-400 font-bold uppercase tracking-widest">{selectedDocKind === 'quote' ? `This quote is valid until ${selectedInvoiceForDoc.due}` : 'Thank you for your business'}</div>
                     </div>
                 </div>
             </div>
@@ -1604,7 +2750,7 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                     </div>
                     <h3 className="text-lg sm:text-xl font-bold">Delete invoice?</h3>
                 </div>
-                <p className="text-slate-600 dark:text-slate-300 mb-6 font-medium leading-relaxed">This will permanently delete this invoice and cannot be undone.</p>
+                <p className="text-slate-600 dark:text-slate-300 mb-6 font-medium leading-relaxed">The invoice and any linked payment move to Trash, where they can be restored for 30 days.</p>
                 <div className="flex gap-3">
                    <button onClick={() => setInvoiceToDelete(null)} className="flex-1 py-3 font-bold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-lg transition-colors">Cancel</button>
                    <button onClick={confirmDeleteInvoice} className="flex-1 py-3 font-bold text-white bg-red-600 hover:bg-red-700 rounded-lg shadow-lg shadow-red-500/20 transition-colors">Delete</button>
@@ -1635,6 +2781,11 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
       <header className={`no-print flex items-center justify-between px-6 md:px-8 py-8 sticky top-0 bg-slatebg/90 dark:bg-slate-950/90 backdrop-blur-xl z-50 border-b border-slate-200 dark:border-slate-800 transition-colors duration-300`}>
         <Logo onClick={() => setCurrentPage(Page.Dashboard)} />
         <div className="flex gap-2">
+           {undoHistory.past.length > 0 && (
+             <button onClick={performUndo} className="w-12 h-12 flex items-center justify-center bg-white dark:bg-slate-900 rounded-full border border-slate-200 dark:border-slate-800 text-slate-600 dark:text-slate-300 hover:text-blue-600 transition-all shadow-md" title={`Undo: ${undoHistory.past[undoHistory.past.length - 1].label}`}>
+               <Undo2 size={20} strokeWidth={1.2} />
+             </button>
+           )}
            <button onClick={toggleTheme} className="w-12 h-12 flex items-center justify-center bg-white dark:bg-slate-900 rounded-full border border-slate-200 dark:border-slate-800 text-slate-600 dark:text-slate-300 hover:text-blue-600 transition-all shadow-md">{theme === 'dark' ? <Sun size={20} strokeWidth={1.2} /> : <Moon size={20} strokeWidth={1.2} />}</button>
            <button
              onClick={() => setShowInsights(true)}
@@ -1672,6 +2823,23 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
               </div>
             </div>
 
+            {activeAccounts.length > 0 && (
+              <div className="bg-white dark:bg-slate-950 text-slate-900 dark:text-white p-6 rounded-xl shadow-md border border-slate-200 dark:border-slate-800">
+                <div className="flex items-center gap-3 text-blue-600 dark:text-blue-400 mb-4"><Landmark size={20} /><span className="text-xs font-bold uppercase tracking-widest font-brand">Accounts</span></div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {activeAccounts.map(account => (
+                    <button key={account.id} onClick={() => { setLedgerAccountId(account.id); setLedgerFilter('all'); setCurrentPage(Page.AllTransactions); }} className="flex items-center justify-between gap-3 p-4 rounded-lg bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 hover:border-blue-500/30 transition-all text-left">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <div className="w-9 h-9 rounded-full bg-blue-50 text-blue-600 dark:bg-blue-500/10 dark:text-blue-400 flex items-center justify-center flex-shrink-0"><AccountIcon type={account.type} size={16} /></div>
+                        <div className="min-w-0"><div className="text-sm font-bold truncate">{account.name}</div><div className="text-xs text-slate-500 dark:text-slate-400">{ACCOUNT_TYPE_LABELS[account.type]}</div></div>
+                      </div>
+                      <div className={`text-lg font-bold whitespace-nowrap ${(balances[account.id] || 0) < 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-900 dark:text-white'}`}>{formatCurrency.format(balances[account.id] || 0)}</div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div onClick={() => { setScrollToTaxSnapshot(true); setCurrentPage(Page.Reports); }} className="bg-white dark:bg-slate-950 text-slate-900 dark:text-white p-6 rounded-xl shadow-md border border-slate-200 dark:border-slate-800 cursor-pointer active:scale-95 transition-all hover:shadow-lg hover:border-emerald-500/30 group">
                <div className="flex justify-between items-start mb-4">
                   <div className="flex items-center gap-3 text-emerald-600 dark:text-emerald-400"><Calculator size={20} /><span className="text-xs font-bold uppercase tracking-widest font-brand">Tax Snapshot</span></div>
@@ -1719,6 +2887,7 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                      <div className={`text-xs font-bold uppercase tracking-wider px-3 py-1 rounded-full ${totals.overdueAmount > 0 ? 'bg-red-100 dark:bg-red-950/40 text-red-700 dark:text-red-300' : 'bg-slate-100 dark:bg-slate-900 text-slate-500 dark:text-slate-400'}`}>
                         {totals.overdueAmount > 0 ? "Has Overdue" : "Unpaid"}
                      </div>
+                     {totals.foreignUnpaidCount > 0 && <div className="text-xs text-slate-500 dark:text-slate-400 mt-2">Plus {plural(totals.foreignUnpaidCount, 'invoice')} in other currencies</div>}
                   </div>
                </div>
             </div>
@@ -1733,14 +2902,14 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                   transactions.slice().sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()).slice(0, 5).map(t => (
                     <div key={t.id} className="group flex items-center justify-between p-5 bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-slate-800 hover:border-blue-500/30 hover:shadow-lg transition-all cursor-pointer shadow-sm relative z-10" onClick={() => handleEditItem(t)}>
                       <div className="flex items-center gap-4 flex-1 min-w-0">
-                        <div className={`w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0 ${t.type === 'income' ? 'bg-emerald-500/10 text-emerald-600' : 'bg-red-500/10 text-red-600'}`}>{t.type === 'income' ? <ArrowRight size={18} className="-rotate-45" strokeWidth={2.5} /> : <ArrowRight size={18} className="rotate-45" strokeWidth={2.5} />}</div>
+                        <div className={`w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0 ${t.type === 'income' ? 'bg-emerald-500/10 text-emerald-600' : t.type === 'transfer' ? 'bg-slate-500/10 text-slate-600 dark:text-slate-300' : 'bg-red-500/10 text-red-600'}`}>{t.type === 'income' ? <ArrowRight size={18} className="-rotate-45" strokeWidth={2.5} /> : t.type === 'transfer' ? <ArrowLeftRight size={18} strokeWidth={2.5} /> : <ArrowRight size={18} className="rotate-45" strokeWidth={2.5} />}</div>
                         <div className="min-w-0 pr-2">
                           <div className="text-base font-bold text-slate-900 dark:text-white truncate">{t.name}</div>
-                          <div className="text-sm font-medium text-slate-600 dark:text-slate-300 mt-0.5 truncate">{t.category}</div>
+                          <div className="text-sm font-medium text-slate-600 dark:text-slate-300 mt-0.5 truncate">{t.type === 'transfer' ? `${accountName(t.accountId)} → ${accountName(t.transferAccountId)}` : isSplit(t) ? `Split · ${t.splits!.length} categories` : t.category}</div>
                         </div>
                       </div>
                       <div className="text-right flex-shrink-0">
-                         <div className={`text-base font-bold whitespace-nowrap ${t.type === 'income' ? 'text-emerald-600' : 'text-red-600'}`}>{t.type === 'income' ? '+' : ''}{formatCurrency.format(t.amount)}</div>
+                         <div className={`text-base font-bold whitespace-nowrap ${t.type === 'income' ? 'text-emerald-600' : t.type === 'transfer' ? 'text-slate-600 dark:text-slate-300' : 'text-red-600'}`}>{t.type === 'income' ? '+' : ''}{formatCurrency.format(t.amount)}</div>
                          <div className="text-left md:text-right mt-1"><div className="text-xs font-bold text-slate-500 dark:text-slate-300 whitespace-nowrap">{t.date}</div></div>
                       </div>
                     </div>
@@ -1787,11 +2956,26 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                      </div>
                  </div>
                  {(currentPage === Page.Income || currentPage === Page.Expenses || currentPage === Page.AllTransactions) && (
-                    <button onClick={() => handleOpenFAB(getHeaderFabType())} className="w-12 h-12 bg-blue-600 text-white rounded-full flex items-center justify-center shadow-lg hover:bg-blue-500 transition-all"><Plus size={24} strokeWidth={2.5} /></button>
+                    <div className="flex items-center gap-2">
+                      {currentPage === Page.AllTransactions && ledgerItems.length > 0 && <button onClick={() => bulkSelectMode ? exitBulkSelect() : setBulkSelectMode(true)} title="Select" className={`w-12 h-12 rounded-full flex items-center justify-center border shadow-md transition-all ${bulkSelectMode ? 'bg-blue-600 text-white border-blue-600' : 'bg-white dark:bg-slate-900 text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-800 hover:text-blue-600'}`}><CheckSquare size={20} strokeWidth={2} /></button>}
+                      {trash.length > 0 && <button onClick={() => setShowTrash(true)} title="Trash" className="w-12 h-12 bg-white dark:bg-slate-900 text-slate-600 dark:text-slate-300 rounded-full flex items-center justify-center border border-slate-200 dark:border-slate-800 shadow-md hover:text-red-600 transition-all"><Trash2 size={20} strokeWidth={2} /></button>}
+                      <button onClick={() => setShowImport(true)} title="Import bank statement" className="w-12 h-12 bg-white dark:bg-slate-900 text-slate-600 dark:text-slate-300 rounded-full flex items-center justify-center border border-slate-200 dark:border-slate-800 shadow-md hover:text-blue-600 transition-all"><Upload size={20} strokeWidth={2} /></button>
+                      <button onClick={() => handleOpenFAB(getHeaderFabType())} className="w-12 h-12 bg-blue-600 text-white rounded-full flex items-center justify-center shadow-lg hover:bg-blue-500 transition-all"><Plus size={24} strokeWidth={2.5} /></button>
+                    </div>
                  )}
              </div>
 
-             <PeriodSelector period={filterPeriod} setPeriod={setFilterPeriod} refDate={referenceDate} setRefDate={setReferenceDate} />
+             <PeriodSelector period={filterPeriod} setPeriod={setFilterPeriod} refDate={referenceDate} setRefDate={setReferenceDate} fiscalYearStartMonth={settings.fiscalYearStartMonth} customRange={customRange} setCustomRange={setCustomRange} />
+
+             {currentPage === Page.AllTransactions && accounts.length > 0 && (
+               <div className="flex gap-2 mb-4">
+                 <select value={ledgerAccountId} onChange={e => setLedgerAccountId(e.target.value)} className="flex-1 min-w-0 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg px-4 py-3 text-sm font-bold text-slate-700 dark:text-slate-200 outline-none focus:ring-2 focus:ring-blue-500/20">
+                   <option value="all">All accounts</option>
+                   {accounts.map(a => <option key={a.id} value={a.id}>{a.name}{a.archived ? ' (archived)' : ''} · {formatCurrency.format(balances[a.id] || 0)}</option>)}
+                 </select>
+                 {ledgerAccountId !== 'all' && <button onClick={() => setReconcilingAccountId(ledgerAccountId)} className="flex items-center gap-2 px-4 rounded-lg bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-sm font-bold text-blue-600 dark:text-blue-400 hover:border-blue-500/30 transition-all"><CheckSquare size={16} /> Reconcile</button>}
+               </div>
+             )}
 
              {currentPage === Page.AllTransactions && (
                <div className="flex bg-slate-200 dark:bg-slate-900 p-1 rounded-lg mb-4">
@@ -1801,6 +2985,20 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                </div>
              )}
 
+             {currentPage === Page.AllTransactions && (
+               <LedgerFilterPanel
+                 query={ledgerQuery}
+                 onChange={setLedgerQuery}
+                 categoryOptions={ledgerCategoryOptions}
+                 presets={settings.ledgerPresets || []}
+                 currencySymbol={settings.currencySymbol}
+                 resultCount={ledgerItems.length}
+                 onApplyPreset={applyLedgerPreset}
+                 onSavePreset={saveLedgerPreset}
+                 onDeletePreset={deleteLedgerPreset}
+               />
+             )}
+
              {filterPeriod !== 'all' && (
                 <div className="bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-5 mb-6 flex items-center justify-between shadow-sm">
                    <div className="text-center flex-1 border-r border-slate-200 dark:border-slate-800"><div className="text-xs font-bold text-emerald-600 uppercase tracking-wider mb-1">Cash In</div><div className="text-lg font-bold text-slate-900 dark:text-white">{formatCurrency.format(periodTotals.inc)}</div></div>
@@ -1810,26 +3008,32 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
 
              <div className="space-y-4">
                {(currentPage === Page.AllTransactions ? ledgerItems : filteredTransactions.filter(t => currentPage === Page.Income ? t.type === 'income' : t.type === 'expense')).length === 0 ? (
-                  <EmptyState icon={currentPage === Page.Income ? <Wallet size={32} /> : currentPage === Page.Expenses ? <Receipt size={32} /> : <History size={32} />} title="No Items Found" subtitle="No activity found for the selected period." action={() => handleOpenFAB('income')} actionLabel="Add Transaction" />
+                  <EmptyState icon={currentPage === Page.Income ? <Wallet size={32} /> : currentPage === Page.Expenses ? <Receipt size={32} /> : <History size={32} />} title="No Items Found" subtitle={currentPage === Page.AllTransactions && isQueryActive(ledgerQuery) ? "Nothing matches your search and filters." : "No activity found for the selected period."} action={() => handleOpenFAB('income')} actionLabel="Add Transaction" />
                ) : (
                 (currentPage === Page.AllTransactions ? ledgerItems : filteredTransactions.filter(t => currentPage === Page.Income ? t.type === 'income' : t.type === 'expense').sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime())).map((item: any) => {
                   const isInvoice = item.dataType === 'invoice';
                   const isIncome = item.type === 'income';
-                  const amountColor = isInvoice ? 'text-blue-600 dark:text-blue-400' : isIncome ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400';
-                  const iconBg = isInvoice ? 'bg-blue-100 text-blue-600 dark:bg-blue-500/10 dark:text-blue-400' : isIncome ? 'bg-emerald-100 text-emerald-600 dark:bg-emerald-500/10 dark:text-emerald-400' : 'bg-red-100 text-red-600 dark:bg-red-500/10 dark:text-red-400';
-                  const Icon = isInvoice ? FileText : isIncome ? Wallet : Receipt;
+                  const isTransferItem = item.type === 'transfer';
+                  const amountColor = isInvoice ? 'text-blue-600 dark:text-blue-400' : isIncome ? 'text-emerald-600 dark:text-emerald-400' : isTransferItem ? 'text-slate-600 dark:text-slate-300' : 'text-red-600 dark:text-red-400';
+                  const iconBg = isInvoice ? 'bg-blue-100 text-blue-600 dark:bg-blue-500/10 dark:text-blue-400' : isIncome ? 'bg-emerald-100 text-emerald-600 dark:bg-emerald-500/10 dark:text-emerald-400' : isTransferItem ? 'bg-slate-100 text-slate-600 dark:bg-slate-500/10 dark:text-slate-300' : 'bg-red-100 text-red-600 dark:bg-red-500/10 dark:text-red-400';
+                  const Icon = isInvoice ? FileText : isIncome ? Wallet : isTransferItem ? ArrowLeftRight : Receipt;
+                  const runningBalance = !isInvoice ? ledgerRunningBalances?.get(item.id) : undefined;
+                  const selectable = bulkSelectMode && currentPage === Page.AllTransactions;
+                  const selected = selectable && selectedLedgerIds.has(item.listId);
                   return (
-                   <div key={item.listId || item.id} className="flex items-center justify-between p-6 bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-slate-800 hover:border-blue-500/30 hover:shadow-lg transition-all shadow-md cursor-pointer group" onClick={() => handleEditItem(item)}>
+                   <div key={item.listId || item.id} className={`flex items-center justify-between p-6 bg-white dark:bg-slate-900 rounded-lg border hover:border-blue-500/30 hover:shadow-lg transition-all shadow-md cursor-pointer group ${selected ? 'border-blue-500 ring-2 ring-blue-500/20' : 'border-slate-200 dark:border-slate-800'}`} onClick={() => selectable ? toggleLedgerSelection(item.listId) : handleEditItem(item)}>
                       <div className="flex items-center gap-5 flex-1 min-w-0">
+                          {selectable && <input type="checkbox" checked={selected} onChange={() => toggleLedgerSelection(item.listId)} onClick={e => e.stopPropagation()} className="w-5 h-5 flex-shrink-0 accent-blue-600" />}
                           <div className={`w-12 h-12 rounded-full flex items-center justify-center flex-shrink-0 ${iconBg}`}><Icon size={22} strokeWidth={1.5} /></div>
                           <div className="min-w-0">
-                              <div className="flex items-center gap-2"><div className="text-lg font-bold text-slate-900 dark:text-white truncate">{item.name || item.client}</div>{isInvoice && (<span className={`text-xs font-bold px-2 py-1 rounded uppercase ${item.status === 'paid' ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-600'}`}>{item.status}</span>)}</div>
-                              <div className="text-sm font-medium text-slate-600 dark:text-slate-300 mt-0.5 truncate">{item.date} · {item.category}</div>
+                              <div className="flex items-center gap-2"><div className="text-lg font-bold text-slate-900 dark:text-white truncate">{item.name || item.client}</div>{!isInvoice && isReconciled(item) ? <Lock size={14} className="text-slate-400 flex-shrink-0" /> : !isInvoice && item.cleared ? <CheckSquare size={14} className="text-emerald-500 flex-shrink-0" /> : null}{isInvoice && (<span className={`text-xs font-bold px-2 py-1 rounded uppercase ${item.status === 'paid' ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-600'}`}>{item.status}</span>)}</div>
+                              <div className="text-sm font-medium text-slate-600 dark:text-slate-300 mt-0.5 truncate">{item.date} · {isTransferItem ? `${accountName(item.accountId)} → ${accountName(item.transferAccountId)}` : !isInvoice && isSplit(item) ? `Split · ${item.splits.length} categories` : item.category}</div>
                           </div>
                       </div>
                       <div className="text-right ml-4 flex-shrink-0 w-[130px]">
                           <div className={`text-xl font-bold whitespace-nowrap ${amountColor}`}>{isIncome ? '+' : ''}{formatCurrency.format(item.amount)}</div>
-                          <div className="flex justify-end gap-4 mt-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                          {runningBalance !== undefined && <div className="text-xs font-bold text-slate-500 dark:text-slate-400 whitespace-nowrap mt-0.5">Bal {formatCurrency.format(runningBalance)}</div>}
+                          <div className={`flex justify-end gap-4 mt-2 opacity-0 transition-opacity ${selectable ? 'hidden' : 'group-hover:opacity-100'}`}>
                                <button onClick={(e) => { e.stopPropagation(); handleEditItem(item); }} className="text-slate-400 dark:text-slate-300 hover:text-blue-600"><Edit3 size={18}/></button>
                                <button onClick={(e) => { e.stopPropagation(); if (isInvoice) deleteInvoice(item); else deleteTransaction(item.id); }} className="text-slate-400 dark:text-slate-300 hover:text-red-600"><Trash2 size={18}/></button>
                           </div>
@@ -1850,9 +3054,28 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                 </div>
                 <h2 className="text-3xl font-bold tracking-tight text-slate-950 dark:text-white font-brand">Invoices</h2>
               </div>
-              <button onClick={() => handleOpenFAB('billing')} className="w-12 h-12 bg-blue-600 text-white rounded-full flex items-center justify-center shadow-lg hover:bg-blue-500 transition-all"><Plus size={24} strokeWidth={2.5} /></button>
+              <div className="flex items-center gap-2">
+                <button onClick={() => { setSelectedClientId(null); setCurrentPage(Page.Clients); }} title="Clients" className="w-12 h-12 bg-white dark:bg-slate-900 text-slate-600 dark:text-slate-300 rounded-full flex items-center justify-center border border-slate-200 dark:border-slate-800 shadow-md hover:text-blue-600 transition-all"><Users size={20} strokeWidth={2} /></button>
+                <button onClick={() => invoicesView === 'quotes' ? openNewQuote() : handleOpenFAB('billing')} title={invoicesView === 'quotes' ? 'New Quote' : 'New Invoice'} className="w-12 h-12 bg-blue-600 text-white rounded-full flex items-center justify-center shadow-lg hover:bg-blue-500 transition-all"><Plus size={24} strokeWidth={2.5} /></button>
+              </div>
+            </div>
+            <div className="flex bg-slate-200 dark:bg-slate-900 p-1 rounded-lg">
+              {(['invoices', 'quotes'] as const).map(view => (
+                <button key={view} onClick={() => setInvoicesView(view)} className={`flex-1 py-2.5 rounded-md text-xs font-bold uppercase tracking-wider transition-all ${invoicesView === view ? 'bg-white dark:bg-slate-800 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-slate-600 dark:text-slate-300'}`}>{view === 'quotes' ? `Quotes${quotes.length ? ` (${quotes.length})` : ''}` : 'Invoices'}</button>
+              ))}
             </div>
-            <PeriodSelector period={filterPeriod} setPeriod={setFilterPeriod} refDate={referenceDate} setRefDate={setReferenceDate} />
+            {invoicesView === 'quotes' ? (
+              <QuoteList
+                quotes={quotes}
+                formatMoney={(n, currency) => formatterFor(currency).format(n)}
+                onNew={openNewQuote}
+                onOpen={openQuote}
+                onExport={handlePrintQuote}
+                onConvert={convertQuoteToInvoice}
+                onDelete={deleteQuote}
+              />
+            ) : (<>
+            <PeriodSelector period={filterPeriod} setPeriod={setFilterPeriod} refDate={referenceDate} setRefDate={setReferenceDate} fiscalYearStartMonth={settings.fiscalYearStartMonth} customRange={customRange} setCustomRange={setCustomRange} />
              {filterPeriod !== 'all' && (
                 <div className="bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-5 mb-6 flex items-center justify-between shadow-sm gap-4">
                    <div className="text-center flex-1 border-r border-slate-200 dark:border-slate-800"><div className="text-xs font-bold text-emerald-600 uppercase tracking-wider mb-1">Paid</div><div className="text-lg font-bold text-slate-900 dark:text-white">{formatCurrency.format(invoicePeriodTotals.paid)}</div></div>
@@ -1860,10 +3083,19 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                    <div className="text-center flex-1"><div className="text-xs font-bold text-red-600 uppercase tracking-wider mb-1">Overdue</div><div className="text-lg font-bold text-slate-900 dark:text-white">{formatCurrency.format(invoicePeriodTotals.overdue)}</div></div>
                 </div>
              )}
+             {filterPeriod !== 'all' && invoicePeriodTotals.otherCurrencyCount > 0 && (
+                <p className="-mt-4 mb-6 text-xs text-slate-500 dark:text-slate-400 text-center">Totals leave out {plural(invoicePeriodTotals.otherCurrencyCount, 'invoice')} billed in other currencies.</p>
+             )}
+            {(invoiceFollowUps.reminders > 0 || invoiceFollowUps.lateFees > 0) && (
+                <div className="flex items-center justify-between gap-4 p-4 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20">
+                   <div className="flex items-center gap-2 text-sm font-bold text-amber-700 dark:text-amber-400"><BellRing size={16} /> {[invoiceFollowUps.reminders > 0 ? `${plural(invoiceFollowUps.reminders, 'reminder')} due` : '', invoiceFollowUps.lateFees > 0 ? `${plural(invoiceFollowUps.lateFees, 'invoice')} with late fees to add` : ''].filter(Boolean).join(' · ')}</div>
+                   {invoiceFollowUps.lateFees > 0 && <button onClick={addAllLateFees} className="px-4 py-2 rounded-lg bg-amber-600 hover:bg-amber-700 text-white text-xs font-bold uppercase tracking-wider whitespace-nowrap transition-colors">Add Late Fees</button>}
+                </div>
+            )}
             <div className="space-y-4">
               {filteredInvoices.length === 0 ? <EmptyState icon={<FileText size={32} />} title="No Invoices Found" subtitle={filterPeriod === 'all' ? "Create professional invoices and track payments effortlessly." : "No invoices found for the selected period."} action={() => handleOpenFAB('billing')} actionLabel="Create Invoice" /> :
                 filteredInvoices.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()).map(inv => {
-                  const overdueDays = inv.status === 'unpaid' ? getDaysOverdue(inv.due) : 0;
+                  const overdueDays = isOutstanding(inv) ? getDaysOverdue(inv.due) : 0;
                   const isOverdue = overdueDays > 0;
                   const isRecurring = inv.recurrence && inv.recurrence.active;
                   const isVoid = inv.status === 'void';
@@ -1874,19 +3106,23 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                         <div className={`w-14 h-14 bg-slate-100 dark:bg-blue-500/10 text-slate-600 dark:text-blue-400 rounded-md flex items-center justify-center flex-shrink-0 ${isVoid ? 'bg-slate-200 dark:bg-slate-800 text-slate-400' : ''}`}>{isVoid ? <Ban size={24} strokeWidth={1.5} /> : isRecurring ? <Repeat size={24} strokeWidth={1.5} className="text-blue-500" /> : <FileText size={24} strokeWidth={1.5} />}</div>
                         <div className="min-w-0">
                           <div className="flex items-center gap-2"><div className={`font-bold text-slate-900 dark:text-white text-xl truncate ${isVoid ? 'line-through text-slate-400' : ''}`}>{inv.client}</div>{isRecurring && <span className="text-xs bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-300 px-1.5 py-0.5 rounded uppercase font-bold tracking-wider">Recurring</span>}</div>
-                          <div className="text-sm font-semibold text-slate-600 dark:text-slate-300 truncate">{inv.description}</div>
+                          <div className="text-sm font-semibold text-slate-600 dark:text-slate-300 truncate">{inv.number ? `#${inv.number} · ` : ''}{inv.description}</div>
                         </div>
                       </div>
-                      <div className={`flex-shrink-0 ml-3 px-4 py-1.5 rounded-full text-xs font-bold uppercase tracking-wider flex items-center gap-2 ${isVoid ? 'bg-slate-200 text-slate-600 dark:bg-slate-800 dark:text-slate-400' : inv.status === 'paid' ? 'bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-300' : isOverdue ? 'bg-red-100 text-red-700 dark:bg-red-500/20 dark:text-red-300 animate-pulse' : 'bg-orange-100 text-orange-700 dark:bg-orange-500/20 dark:text-orange-300'}`}>{isOverdue && !isVoid && <AlertTriangle size={12} />}{isVoid ? 'Void' : inv.status === 'paid' ? 'Paid' : isOverdue ? `Overdue (${overdueDays}d)` : 'Pending'}</div>
+                      <div className={`flex-shrink-0 ml-3 px-4 py-1.5 rounded-full text-xs font-bold uppercase tracking-wider flex items-center gap-2 ${isVoid ? 'bg-slate-200 text-slate-600 dark:bg-slate-800 dark:text-slate-400' : inv.status === 'paid' ? 'bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-300' : isOverdue ? 'bg-red-100 text-red-700 dark:bg-red-500/20 dark:text-red-300 animate-pulse' : inv.status === 'partial' ? 'bg-blue-100 text-blue-700 dark:bg-blue-500/20 dark:text-blue-300' : inv.status === 'draft' ? 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300' : 'bg-orange-100 text-orange-700 dark:bg-orange-500/20 dark:text-orange-300'}`}>{isOverdue && !isVoid && <AlertTriangle size={12} />}{isVoid ? 'Void' : inv.status === 'paid' ? 'Paid' : isOverdue ? `Overdue (${overdueDays}d)` : inv.status === 'partial' ? 'Part Paid' : inv.status === 'draft' ? 'Draft' : inv.status === 'sent' ? 'Sent' : 'Pending'}</div>
                     </div>
                     <div className="flex items-end justify-between">
                       <div>
                           <label className="text-xs font-bold text-slate-500 dark:text-slate-300 block mb-1 uppercase tracking-widest">Total</label>
-                          <div className="text-3xl font-bold tracking-tight text-slate-950 dark:text-white">{formatCurrency.format(inv.amount)}</div>
+                          <div className="text-3xl font-bold tracking-tight text-slate-950 dark:text-white">{formatterFor(inv.currency).format(inv.amount)}</div>
+                          {inv.status === 'partial' && <div className="text-sm font-bold text-blue-600 dark:text-blue-400">{formatterFor(inv.currency).format(balanceDue(inv))} balance due</div>}
+                          {dueReminder(inv, reminderSchedule, new Date().toISOString().split('T')[0]) !== undefined && <div className="text-xs font-bold text-blue-600 dark:text-blue-400 flex items-center gap-1 mt-1"><BellRing size={12} /> Reminder due</div>}
                           <div className={`text-sm font-bold mt-1 ${isOverdue && !isVoid ? 'text-red-500' : 'text-slate-600 dark:text-slate-300'}`}>{isOverdue && !isVoid ? `Due was ${inv.due}` : `Due ${inv.due}`}{isRecurring && inv.recurrence && <span className="block text-xs text-blue-500 mt-0.5 font-normal">Next: {inv.recurrence.nextDate}</span>}</div>
                       </div>
                       <div className="flex gap-3 opacity-0 group-hover:opacity-100 transition-opacity translate-y-2 group-hover:translate-y-0 duration-300">
                           <button onClick={(e) => { e.stopPropagation(); handlePrintInvoice(inv); }} title="Export PDF" className="p-3 rounded-md bg-slate-100 dark:bg-slate-950 text-slate-600 dark:text-slate-200 hover:bg-blue-600 hover:text-white transition-all"><Download size={22} strokeWidth={1.5} /></button>
+                          {!isVoid && <button onClick={(e) => { e.stopPropagation(); openSendInvoice(inv); }} title="Email Invoice" className="p-3 rounded-md bg-slate-100 dark:bg-slate-950 text-slate-600 dark:text-slate-200 hover:bg-blue-600 hover:text-white transition-all"><Mail size={22} strokeWidth={1.5} /></button>}
+                          {canMarkSent(inv) && <button onClick={(e) => { e.stopPropagation(); markInvoiceSent(inv); }} title="Mark Sent" className="p-3 rounded-md bg-slate-100 dark:bg-slate-950 text-slate-600 dark:text-slate-200 hover:bg-blue-600 hover:text-white transition-all"><Send size={22} strokeWidth={1.5} /></button>}
                           <button onClick={(e) => { e.stopPropagation(); markInvoicePaid(inv); }} title={inv.status === 'paid' ? "Mark Unpaid" : "Mark Paid"} disabled={isVoid} className={`p-3 rounded-md transition-all ${isVoid ? 'bg-slate-50 dark:bg-slate-900 text-slate-300 cursor-not-allowed' : inv.status === 'paid' ? 'bg-green-100 text-green-600 dark:bg-green-500/20 dark:text-green-400' : 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-200 hover:bg-green-600 hover:text-white'}`}><CheckCircle size={22} strokeWidth={1.5} /></button>
                           {!isVoid && <button onClick={(e) => { e.stopPropagation(); setActiveItem(inv); setDrawerMode('edit_inv'); setIsDrawerOpen(true); }} title="Edit Invoice" className="p-3 rounded-md bg-slate-100 dark:bg-slate-950 text-slate-600 dark:text-slate-200 hover:bg-slate-950 hover:text-white transition-all"><Edit3 size={22} strokeWidth={1.5} /></button>}
                       </div>
@@ -1895,6 +3131,46 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                 )})
               }
             </div>
+            </>)}
+          </div>
+        )}
+
+        {currentPage === Page.Clients && (
+          <div className="space-y-6 animate-in fade-in slide-in-from-right-4">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 rounded-lg bg-blue-50 text-blue-600 dark:bg-blue-500/10 dark:text-blue-400">
+                <Users size={24} strokeWidth={1.5} />
+              </div>
+              <h2 className="text-3xl font-bold tracking-tight text-slate-950 dark:text-white font-brand">Clients</h2>
+            </div>
+            {selectedClient ? (
+              <ClientDetail
+                client={selectedClient}
+                invoices={invoices}
+                transactions={transactions}
+                credits={credits}
+                payMethods={settings.payPrefs}
+                defaultCurrency={appCurrency}
+                formatMoney={(n, currency) => formatterFor(currency).format(n)}
+                onBack={() => setSelectedClientId(null)}
+                onUpdate={updateClient}
+                onDelete={deleteClient}
+                onNewInvoice={newInvoiceForClient}
+                onOpenInvoice={handleEditItem}
+                onRecordRetainer={recordRetainer}
+                onDeleteCredit={deleteCredit}
+              />
+            ) : (
+              <ClientDirectory
+                clients={clients}
+                invoices={invoices}
+                transactions={transactions}
+                defaultCurrency={appCurrency}
+                formatMoney={(n, currency) => formatterFor(currency).format(n)}
+                onAdd={addClient}
+                onOpen={client => setSelectedClientId(client.id)}
+              />
+            )}
           </div>
         )}
 
@@ -1909,7 +3185,7 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
               <div ref={taxSnapshotRef} className="bg-white dark:bg-slate-950 text-slate-900 dark:text-white p-8 rounded-lg shadow-xl relative overflow-hidden border border-slate-200 dark:border-slate-800">
                 <div className="absolute top-0 right-0 w-80 h-80 bg-blue-50 dark:bg-blue-600/20 rounded-full blur-3xl -mr-20 -mt-20 pointer-events-none" />
                 <div className="flex items-center justify-between mb-8 relative z-10">
-                  <div className="flex items-center gap-3"><Calculator size={24} strokeWidth={2} className="text-emerald-600 dark:text-emerald-400" /><div><h3 className="text-lg sm:text-xl font-bold uppercase tracking-tight font-brand">Tax Snapshot</h3><p className="text-xs text-slate-600 dark:text-slate-300 font-bold mt-1">Based on Net Profit: {formatCurrency.format(reportData.ytdNetProfit)}</p></div></div>
+                  <div className="flex items-center gap-3"><Calculator size={24} strokeWidth={2} className="text-emerald-600 dark:text-emerald-400" /><div><h3 className="text-lg sm:text-xl font-bold uppercase tracking-tight font-brand">Tax Snapshot</h3><p className="text-xs text-slate-600 dark:text-slate-300 font-bold mt-1">Based on {fiscalYearLabel(new Date(), settings.fiscalYearStartMonth)} Net Profit to Date: {formatCurrency.format(reportData.ytdNetProfit)}</p></div></div>
                   <button type="button" onClick={(e) => { e.preventDefault(); e.stopPropagation(); handleOpenTaxDrawer(); }} className="relative z-30 cursor-pointer text-xs font-bold text-blue-600 dark:text-blue-400 border border-blue-200 dark:border-blue-900 bg-blue-50 dark:bg-blue-900/30 px-3 py-1.5 rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/50 transition-colors uppercase tracking-wider active:scale-95">Manage Payments</button>
                 </div>
                 <div className="space-y-6 relative z-10">
@@ -2407,6 +3683,7 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                         </div>
                     )}
                 </div>
+              <PeriodSelector period={filterPeriod} setPeriod={setFilterPeriod} refDate={referenceDate} setRefDate={setReferenceDate} fiscalYearStartMonth={settings.fiscalYearStartMonth} customRange={customRange} setCustomRange={setCustomRange} />
               {/* Enhanced Profit & Loss Statement */}
               <div className="bg-white dark:bg-slate-900 p-6 sm:p-8 rounded-xl border border-slate-200 dark:border-slate-800 shadow-xl">
                 {/* Header with Actions */}
@@ -2418,9 +3695,7 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                         Profit & Loss
                       </h3>
                       <p className="text-sm text-slate-500 dark:text-slate-400 mt-0.5">
-                        {filterPeriod === 'month' ? referenceDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }) :
-                         filterPeriod === 'quarter' ? `Q${Math.floor(referenceDate.getMonth() / 3) + 1} ${referenceDate.getFullYear()}` :
-                         filterPeriod === 'year' ? referenceDate.getFullYear().toString() : 'All Time'}
+                        {activePeriodLabel}
                       </p>
                     </div>
                   </div>
@@ -2488,9 +3763,7 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                           <div className="mt-4">
                             <h2 className="text-xl font-bold text-slate-900 dark:text-white uppercase">Profit & Loss Statement</h2>
                             <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
-                              Period: {filterPeriod === 'month' ? referenceDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }) :
-                                      filterPeriod === 'quarter' ? `Q${Math.floor(referenceDate.getMonth() / 3) + 1} ${referenceDate.getFullYear()}` :
-                                      filterPeriod === 'year' ? referenceDate.getFullYear().toString() : 'All Time'}
+                              Period: {activePeriodLabel}
                             </p>
                             <p className="text-xs text-slate-500 dark:text-slate-500 mt-1">
                               Generated: {new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}
@@ -2506,10 +3779,7 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                           </div>
                           <div className="space-y-2 ml-7">
                             {(() => {
-                              const incomeByCategory = filteredTransactions.filter(t => t.type === 'income').reduce((acc, t) => {
-                                acc[t.category] = (acc[t.category] || 0) + t.amount;
-                                return acc;
-                              }, {} as Record<string, number>);
+                              const incomeByCategory = totalsByCategory(filteredTransactions.filter(t => t.type === 'income'));
                               return Object.entries(incomeByCategory).map(([category, amount]) => (
                                 <div key={category} className="flex justify-between items-center py-2">
                                   <span className="text-sm text-slate-700 dark:text-slate-300">{category}</span>
@@ -2532,10 +3802,7 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                           </div>
                           <div className="space-y-2 ml-7">
                             {(() => {
-                              const expensesByCategory = filteredTransactions.filter(t => t.type === 'expense').reduce((acc, t) => {
-                                acc[t.category] = (acc[t.category] || 0) + t.amount;
-                                return acc;
-                              }, {} as Record<string, number>);
+                              const expensesByCategory = totalsByCategory(filteredTransactions.filter(t => t.type === 'expense'));
                               return Object.entries(expensesByCategory).map(([category, amount]) => (
                                 <div key={category} className="flex justify-between items-center py-2">
                                   <span className="text-sm text-slate-700 dark:text-slate-300">{category}</span>
@@ -2591,9 +3858,7 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                             This statement has been prepared from the books of {settings.businessName}.
                           </p>
                           <p className="text-xs text-slate-500 dark:text-slate-500 mt-1">
-                            For period ending {filterPeriod === 'month' ? referenceDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }) :
-                                              filterPeriod === 'quarter' ? `Q${Math.floor(referenceDate.getMonth() / 3) + 1} ${referenceDate.getFullYear()}` :
-                                              filterPeriod === 'year' ? referenceDate.getFullYear().toString() : 'All Time'}
+                            For period ending {activePeriodRange ? new Date(activePeriodRange.end + 'T00:00:00').toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' }) : new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}
                           </p>
                         </div>
                       </div>
@@ -2614,17 +3879,11 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                             const element = document.getElementById('pl-pdf-preview-content');
                             if (!element) throw new Error('Preview content not found');
                             
-                            const periodLabel = filterPeriod === 'month' 
-                              ? referenceDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
-                              : filterPeriod === 'quarter' 
-                                ? `Q${Math.floor(referenceDate.getMonth() / 3) + 1} ${referenceDate.getFullYear()}`
-                                : filterPeriod === 'year'
-                                  ? referenceDate.getFullYear().toString()
-                                  : 'All-Time';
+                            const fileLabel = activePeriodRange ? `${activePeriodRange.start}-to-${activePeriodRange.end}` : 'All-Time';
                             
                             const opt = {
                               margin: [10, 10, 10, 10],
-                              filename: `PL-Statement-${periodLabel.replace(/\s+/g, '-')}.pdf`,
+                              filename: `PL-Statement-${fileLabel}.pdf`,
                               image: { type: 'jpeg', quality: 0.98 },
                               html2canvas: { scale: 2, useCORS: true, backgroundColor: '#ffffff', scrollY: 0 },
                               jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' }
@@ -2772,6 +4031,7 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div><label className="text-xs font-bold uppercase tracking-widest text-slate-500 dark:text-slate-300 mb-2 block pl-1 font-brand">State Tax (Optional)</label><div className="relative"><input type="number" value={settings.stateTaxRate} onChange={e => setSettings(s => ({ ...s, stateTaxRate: Math.min(100, Math.max(0, Number(e.target.value))) }))} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-4 py-3 font-bold text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500/20 transition-all"/><span className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-500 dark:text-slate-300 font-bold">%</span></div></div>
                     <div><label className="text-xs font-bold uppercase tracking-widest text-slate-500 dark:text-slate-300 mb-2 block pl-1 font-brand">Filing Status</label><select value={settings.filingStatus} onChange={e => setSettings(s => ({ ...s, filingStatus: e.target.value as FilingStatus }))} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-4 py-3 font-bold text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500/20 transition-all appearance-none"><option value="single">Single</option><option value="joint">Married Filing Jointly</option><option value="head">Head of Household</option></select></div>
+                    <div><label className="text-xs font-bold uppercase tracking-widest text-slate-500 dark:text-slate-300 mb-2 block pl-1 font-brand">Fiscal Year Starts</label><select value={settings.fiscalYearStartMonth || 0} onChange={e => setSettings(s => ({ ...s, fiscalYearStartMonth: Number(e.target.value) }))} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-4 py-3 font-bold text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500/20 transition-all appearance-none">{MONTH_NAMES.map((m, i) => <option key={m} value={i}>{m}</option>)}</select><p className="text-xs text-slate-500 dark:text-slate-400 mt-2 pl-1">Sets quarters, years and YTD figures in reports and the tax snapshot.</p></div>
                  </div>
                  <div className="mt-8 pt-6 border-t border-slate-200 dark:border-slate-800">
                     <h5 className="text-xs font-bold uppercase tracking-widest text-slate-500 dark:text-slate-300 mb-4 font-brand">Current Estimate Settings</h5>
@@ -2785,9 +4045,91 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                  </div>
               </div>
 
+              <div className="bg-slate-50 dark:bg-slate-950/50 p-6 rounded-lg border border-slate-100 dark:border-slate-800">
+                 <h4 className="text-sm font-bold text-slate-900 dark:text-white mb-6 flex items-center gap-2 uppercase tracking-wide font-brand"><Lock size={16}/> Period Close</h4>
+                 <PeriodCloseSettings
+                   closingDate={settings.closingDate}
+                   unlocks={settings.periodUnlocks || []}
+                   onChangeClosingDate={changeClosingDate}
+                 />
+              </div>
+
+              <div className="bg-slate-50 dark:bg-slate-950/50 p-6 rounded-lg border border-slate-100 dark:border-slate-800">
+                 <h4 className="text-sm font-bold text-slate-900 dark:text-white mb-6 flex items-center gap-2 uppercase tracking-wide font-brand"><Landmark size={16}/> Accounts</h4>
+                 <AccountsManager
+                   accounts={accounts}
+                   balances={balances}
+                   formatMoney={n => formatCurrency.format(n)}
+                   onAdd={addAccount}
+                   onUpdate={updateAccount}
+                   onDelete={deleteAccount}
+                   onReconcile={account => setReconcilingAccountId(account.id)}
+                   reconciledThrough={id => lastReconciliation(reconciliations, id)?.statementDate}
+                 />
+              </div>
+
+              <div className="bg-slate-50 dark:bg-slate-950/50 p-6 rounded-lg border border-slate-100 dark:border-slate-800">
+                 <h4 className="text-sm font-bold text-slate-900 dark:text-white mb-6 flex items-center gap-2 uppercase tracking-wide font-brand"><Package size={16}/> Products & Services</h4>
+                 <CatalogManager
+                   items={catalogItems}
+                   categories={[...customCategories.billing, ...CATS_BILLING]}
+                   formatMoney={n => formatCurrency.format(n)}
+                   onAdd={addCatalogItem}
+                   onUpdate={updateCatalogItem}
+                   onDelete={deleteCatalogItem}
+                 />
+              </div>
+
+              <div className="bg-slate-50 dark:bg-slate-950/50 p-6 rounded-lg border border-slate-100 dark:border-slate-800">
+                 <h4 className="text-sm font-bold text-slate-900 dark:text-white mb-6 flex items-center gap-2 uppercase tracking-wide font-brand"><FileText size={16}/> Invoice Numbering</h4>
+                 <InvoiceNumberingSettings
+                   scheme={settings.invoiceNumbering || DEFAULT_INVOICE_NUMBERING}
+                   invoices={numberedInvoices}
+                   onChange={invoiceNumbering => setSettings(s => ({ ...s, invoiceNumbering }))}
+                 />
+              </div>
+
+              <div className="bg-slate-50 dark:bg-slate-950/50 p-6 rounded-lg border border-slate-100 dark:border-slate-800">
+                 <h4 className="text-sm font-bold text-slate-900 dark:text-white mb-6 flex items-center gap-2 uppercase tracking-wide font-brand"><BellRing size={16}/> Late Fees & Reminders</h4>
+                 <LateFeeSettings
+                   rule={settings.lateFeeRule || DEFAULT_LATE_FEE_RULE}
+                   schedule={reminderSchedule}
+                   currencySymbol={settings.currencySymbol}
+                   onChangeRule={lateFeeRule => setSettings(s => ({ ...s, lateFeeRule }))}
+                   onChangeSchedule={reminderSchedule => setSettings(s => ({ ...s, reminderSchedule }))}
+                 />
+              </div>
+
+              <div className="bg-slate-50 dark:bg-slate-950/50 p-6 rounded-lg border border-slate-100 dark:border-slate-800">
+                 <h4 className="text-sm font-bold text-slate-900 dark:text-white mb-6 flex items-center gap-2 uppercase tracking-wide font-brand"><Mail size={16}/> Invoice Email</h4>
+                 <EmailDeliverySettings
+                   settings={emailSettings}
+                   smtpToken={smtpToken}
+                   onChange={invoiceEmail => setSettings(s => ({ ...s, invoiceEmail }))}
+                   onChangeSmtpToken={changeSmtpToken}
+                 />
+              </div>
+
+              <div className="bg-slate-50 dark:bg-slate-950/50 p-6 rounded-lg border border-slate-100 dark:border-slate-800">
+                 <h4 className="text-sm font-bold text-slate-900 dark:text-white mb-6 flex items-center gap-2 uppercase tracking-wide font-brand"><Tag size={16}/> Categorization Rules</h4>
+                 <CategoryRulesManager
+                   rules={categoryRules}
+                   transactions={transactions}
+                   incomeCategories={[...customCategories.income, ...CATS_IN]}
+                   expenseCategories={[...customCategories.expense, ...CATS_OUT]}
+                   currencySymbol={settings.currencySymbol}
+                   onAdd={addCategoryRule}
+                   onChange={setCategoryRules}
+                   onApply={handleApplyRuleChanges}
+                 />
+              </div>
+
               <div className="bg-blue-600/5 dark:bg-indigo-500/10 p-8 rounded-lg border border-blue-200 dark:border-indigo-500/20">
                 <h4 className="text-base font-bold text-blue-800 dark:text-indigo-300 mb-4 uppercase tracking-widest font-brand">Data Management</h4>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <button onClick={() => setShowImport(true)} className="w-full md:col-span-2 bg-white dark:bg-slate-900 hover:bg-slate-950 hover:text-white text-slate-900 dark:text-indigo-400 py-5 rounded-lg text-sm font-bold uppercase tracking-widest shadow-lg transition-all flex items-center justify-center gap-2 border border-slate-200 dark:border-slate-800 active:scale-95"><Upload size={20} />Import Bank Statement</button>
+                    <button onClick={handleExportAuditLog} className="w-full bg-white dark:bg-slate-900 hover:bg-slate-950 hover:text-white text-slate-900 dark:text-indigo-400 py-5 rounded-lg text-sm font-bold uppercase tracking-widest shadow-lg transition-all flex items-center justify-center gap-2 border border-slate-200 dark:border-slate-800 active:scale-95"><History size={20} />Export Change Log</button>
+                    <button onClick={() => setShowTrash(true)} className="w-full bg-white dark:bg-slate-900 hover:bg-slate-950 hover:text-white text-slate-900 dark:text-indigo-400 py-5 rounded-lg text-sm font-bold uppercase tracking-widest shadow-lg transition-all flex items-center justify-center gap-2 border border-slate-200 dark:border-slate-800 active:scale-95"><Trash2 size={20} />Trash{trash.length > 0 ? ` (${trash.length})` : ''}</button>
                     <button onClick={handleSeedDemoData} className="w-full bg-white dark:bg-slate-900 hover:bg-slate-950 hover:text-white text-slate-900 dark:text-indigo-400 py-5 rounded-lg text-sm font-bold uppercase tracking-widest shadow-lg transition-all flex items-center justify-center gap-2 border border-slate-200 dark:border-slate-800 active:scale-95">{seedSuccess ? <CheckCircle size={20} /> : <Sparkles size={20} />}{seedSuccess ? 'Done' : 'Load Demo Data'}</button>
                     <button onClick={handleClearData} className="w-full bg-white dark:bg-slate-900 hover:bg-red-50 hover:text-red-600 text-slate-900 dark:text-red-400 py-5 rounded-lg text-sm font-bold uppercase tracking-widest shadow-lg transition-all flex items-center justify-center gap-2 border border-slate-200 dark:border-slate-800 active:scale-95"><Trash2 size={20} />Reset & Clear</button>
                 </div>
@@ -2817,20 +4159,106 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
               invoices={invoices}
               taxPayments={taxPayments}
               settings={settings}
+              appCurrency={appCurrency}
               onClose={() => setShowInsights(false)}
             />
           </div>
         </div>
       )}
 
+      {/* Account Reconciliation Modal */}
+      {reconcilingAccountId && accounts.find(a => a.id === reconcilingAccountId) && (
+        <div className="fixed inset-0 z-[120] flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+          <div className="bg-white dark:bg-slate-900 w-full max-w-3xl max-h-[90vh] rounded-2xl shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-800">
+            <ReconcileAccount
+              account={accounts.find(a => a.id === reconcilingAccountId)!}
+              transactions={transactions}
+              reconciliations={reconciliations}
+              formatMoney={n => formatCurrency.format(n)}
+              onToggleCleared={toggleCleared}
+              onFinish={finishReconciliation}
+              onUndo={undoLastReconciliation}
+              onClose={() => setReconcilingAccountId(null)}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Bulk Ledger Actions */}
+      {bulkSelectMode && currentPage === Page.AllTransactions && (
+        <BulkActionBar
+          selectedCount={ledgerSelection.transactions.length + ledgerSelection.invoices.length}
+          totalCount={ledgerItems.length}
+          unpaidInvoiceCount={ledgerSelection.invoices.filter(isOutstanding).length}
+          categoryOptions={bulkCategoryOptions}
+          onSelectAll={() => setSelectedLedgerIds(new Set(ledgerItems.map((item: any) => item.listId)))}
+          onRecategorize={bulkRecategorize}
+          onShiftDates={bulkShiftDates}
+          onMarkPaid={bulkMarkPaid}
+          onExport={bulkExport}
+          onDelete={bulkDelete}
+          onDone={exitBulkSelect}
+        />
+      )}
+
+      {/* Trash Modal */}
+      {showTrash && (
+        <div className="fixed inset-0 z-[120] flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+          <div className="bg-white dark:bg-slate-900 w-full max-w-3xl max-h-[90vh] rounded-2xl shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-800">
+            <TrashBin
+              items={trash}
+              formatMoney={n => formatCurrency.format(n)}
+              onRestore={restoreFromTrash}
+              onPurge={purgeFromTrash}
+              onEmpty={emptyTrash}
+              onClose={() => setShowTrash(false)}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Send Invoice Modal */}
+      {invoiceToSend && (
+        <div className="fixed inset-0 z-[120] flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+          <div className="bg-white dark:bg-slate-900 w-full max-w-xl max-h-[90vh] rounded-2xl shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-800">
+            <SendInvoiceDialog
+              invoice={invoiceToSend}
+              transport={emailSettings.transport}
+              transportAvailable={createTransport(emailSettings, smtpToken).isAvailable()}
+              initialSubject={invoiceEmailDraft(invoiceToSend).subject}
+              initialBody={invoiceEmailDraft(invoiceToSend).body}
+              onSend={sendInvoice}
+              onClose={() => setInvoiceToSend(null)}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Bank Statement Import Modal */}
+      {showImport && (
+        <div className="fixed inset-0 z-[120] flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+          <div className="bg-white dark:bg-slate-900 w-full max-w-3xl max-h-[90vh] rounded-2xl shadow-2xl overflow-hidden border border-slate-200 dark:border-slate-800">
+            <ImportTransactions
+              transactions={transactions}
+              categoryRules={categoryRules}
+              accounts={activeAccounts}
+              currencySymbol={settings.currencySymbol}
+              onImport={handleImportTransactions}
+              onClose={() => setShowImport(false)}
+            />
+          </div>
+        </div>
+      )}
+
       <Drawer
          isOpen={isDrawerOpen}
          onClose={() => setIsDrawerOpen(false)}
          title={
             drawerMode === 'tax_payments' ? 'Tax Payments' :
             drawerMode === 'create_cat' ? 'New Category' :
-            drawerMode === 'add' ? (activeTab === 'billing' ? 'New Invoice' : activeTab === 'income' ? 'Add Income' : 'Add Expense') : 
-            drawerMode === 'edit_tx' ? 'Edit Transaction' : 
+            drawerMode === 'add' ? (activeTab === 'billing' ? (billingKind === 'quote' ? 'New Quote' : 'New Invoice') : activeTab === 'income' ? 'Add Income' : activeTab === 'transfer' ? 'Add Transfer' : 'Add Expense') : 
+            drawerMode === 'edit_tx' ? (activeTab === 'transfer' ? 'Edit Transfer' : 'Edit Transaction') : 
+            drawerMode === 'edit_quote' ? 'Edit Quote' :
             'Edit Invoice'
          }
       >
@@ -2861,14 +4289,51 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                     <div className="flex bg-slate-200 dark:bg-slate-900 p-1 rounded-lg mb-4">
                         <button onClick={() => { setActiveTab('income'); resetActiveItem('income'); setCategorySearch(''); }} className={`flex-1 py-3 rounded-md text-xs font-bold uppercase tracking-wider transition-all ${activeTab === 'income' ? 'bg-white dark:bg-slate-800 text-emerald-600 dark:text-emerald-400 shadow-sm' : 'text-slate-600 dark:text-slate-300'}`}>Income</button>
                         <button onClick={() => { setActiveTab('expense'); resetActiveItem('expense'); setCategorySearch(''); }} className={`flex-1 py-3 rounded-md text-xs font-bold uppercase tracking-wider transition-all ${activeTab === 'expense' ? 'bg-white dark:bg-slate-800 text-red-600 dark:text-red-400 shadow-sm' : 'text-slate-600 dark:text-slate-300'}`}>Expense</button>
-                        <button onClick={() => { setActiveTab('billing'); resetActiveItem('billing'); setCategorySearch(''); }} className={`flex-1 py-3 rounded-md text-xs font-bold uppercase tracking-wider transition-all ${activeTab === 'billing' ? 'bg-white dark:bg-slate-800 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-slate-600 dark:text-slate-300'}`}>Invoice</button>
+                        {activeAccounts.length >= 2 && <button onClick={() => { setActiveTab('transfer'); resetActiveItem('transfer'); setCategorySearch(''); }} className={`flex-1 py-3 rounded-md text-xs font-bold uppercase tracking-wider transition-all ${activeTab === 'transfer' ? 'bg-white dark:bg-slate-800 text-slate-900 dark:text-white shadow-sm' : 'text-slate-600 dark:text-slate-300'}`}>Transfer</button>}
+                        <button onClick={() => { setActiveTab('billing'); setBillingKind('invoice'); resetActiveItem('billing'); setCategorySearch(''); }} className={`flex-1 py-3 rounded-md text-xs font-bold uppercase tracking-wider transition-all ${activeTab === 'billing' ? 'bg-white dark:bg-slate-800 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-slate-600 dark:text-slate-300'}`}>Invoice</button>
                     </div>
                 )}
 
+                {drawerMode === 'add' && activeTab === 'billing' && (
+                    <div className="flex gap-2 -mt-2 mb-4">
+                        {(['invoice', 'quote'] as const).map(kind => (
+                            <button key={kind} onClick={() => switchBillingKind(kind)} className={`flex-1 py-2 rounded-md text-xs font-bold uppercase tracking-wider border transition-all ${billingKind === kind ? 'bg-blue-50 dark:bg-blue-500/10 border-blue-200 dark:border-blue-800 text-blue-600 dark:text-blue-400' : 'border-slate-200 dark:border-slate-800 text-slate-600 dark:text-slate-300'}`}>{kind === 'quote' ? 'Quote' : 'Invoice'}</button>
+                        ))}
+                    </div>
+                )}
+
+                {drawerMode === 'edit_quote' && activeItem.id && quotes.some(q => q.id === activeItem.id) && (() => {
+                    const quote = quotes.find(q => q.id === activeItem.id)!;
+                    const status = quoteStatus(quote);
+                    return (
+                    <div className="bg-slate-100 dark:bg-slate-800/50 p-2 rounded-lg mb-4 border border-slate-200 dark:border-slate-700 space-y-2">
+                        <div className="flex gap-2 w-full">
+                            <button type="button" onClick={() => handlePrintQuote({ ...quote, ...quoteFieldsFromDraft(activeItem) })} disabled={isGeneratingPdf} className={`flex-1 py-2.5 flex flex-col items-center justify-center gap-1 rounded-md bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 shadow-sm transition-all ${isGeneratingPdf ? 'opacity-70 cursor-wait' : ''}`}>{isGeneratingPdf ? <Loader2 size={18} className="animate-spin text-blue-600" /> : <Download size={18} />}<span className="text-[10px] font-bold uppercase tracking-wider">{isGeneratingPdf ? 'Generating...' : 'Export PDF'}</span></button>
+                            <button type="button" onClick={() => convertQuoteToInvoice(quote)} disabled={!quote.invoiceId && status === 'declined'} className={`flex-1 py-2.5 flex flex-col items-center justify-center gap-1 rounded-md border shadow-sm transition-all ${!quote.invoiceId && status === 'declined' ? 'opacity-50 cursor-not-allowed bg-slate-200 dark:bg-slate-800 text-slate-500' : 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800 text-emerald-700 dark:text-emerald-400 hover:bg-emerald-100'}`}><ArrowRightCircle size={18} /><span className="text-[10px] font-bold uppercase tracking-wider">{quote.invoiceId ? 'Open Invoice' : 'Convert to Invoice'}</span></button>
+                            <button type="button" onClick={() => deleteQuote(quote)} className="flex-1 py-2.5 flex flex-col items-center justify-center gap-1 rounded-md bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 shadow-sm transition-all"><Trash2 size={18} /><span className="text-[10px] font-bold uppercase tracking-wider">Delete</span></button>
+                        </div>
+                        {!quote.invoiceId && (
+                            <div className="flex gap-1">
+                                {(['draft', 'sent', 'accepted', 'declined'] as const).map(option => (
+                                    <button key={option} type="button" onClick={() => option !== quote.status && setQuoteStatus(quote, option)} className={`flex-1 py-1.5 rounded text-[10px] font-bold uppercase tracking-wider transition-all ${quote.status === option ? 'bg-white dark:bg-slate-900 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}>{QUOTE_STATUS_LABELS[option]}</button>
+                                ))}
+                            </div>
+                        )}
+                        {status === 'expired' && <div className="text-xs font-bold text-amber-600 dark:text-amber-400 px-1">Expired {quote.validUntil}. Move the valid-until date to reopen it.</div>}
+                    </div>
+                    );
+                })()}
+
+                {drawerMode === 'edit_tx' && isReconciled(activeItem as Transaction) && (
+                    <div className="flex items-center gap-2 p-3 mb-4 rounded-lg bg-slate-100 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 text-xs font-bold text-slate-600 dark:text-slate-300"><Lock size={14} /> Reconciled — only the category and notes can be changed.</div>
+                )}
+
                 {drawerMode === 'edit_inv' && activeItem.id && (
                     <div className="bg-slate-100 dark:bg-slate-800/50 p-2 rounded-lg flex items-center justify-between mb-4 border border-slate-200 dark:border-slate-700">
                         <div className="flex gap-2 w-full">
                             <button type="button" onClick={handleDirectExportPDF} disabled={isGeneratingPdf} className={`flex-1 py-2.5 flex flex-col items-center justify-center gap-1 rounded-md bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 shadow-sm transition-all ${isGeneratingPdf ? 'opacity-70 cursor-wait' : ''}`}>{isGeneratingPdf ? <Loader2 size={18} className="animate-spin text-blue-600" /> : <Download size={18} />}<span className="text-[10px] font-bold uppercase tracking-wider">{isGeneratingPdf ? 'Generating...' : 'Export PDF'}</span></button>
+                            {activeItem.status !== 'void' && <button type="button" onClick={() => openSendInvoice(activeItem)} disabled={isGeneratingPdf} className="flex-1 py-2.5 flex flex-col items-center justify-center gap-1 rounded-md bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 shadow-sm transition-all"><Mail size={18} /><span className="text-[10px] font-bold uppercase tracking-wider">Email</span></button>}
+                            {canMarkSent(activeItem as Invoice) && <button type="button" onClick={() => markInvoiceSent(activeItem)} className="flex-1 py-2.5 flex flex-col items-center justify-center gap-1 rounded-md bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-400 hover:bg-blue-100 shadow-sm transition-all"><Send size={18} /><span className="text-[10px] font-bold uppercase tracking-wider">Mark Sent</span></button>}
                             <button type="button" onClick={() => toggleInvoicePaidStatus(activeItem)} disabled={activeItem.status === 'void'} className={`flex-1 py-2.5 flex flex-col items-center justify-center gap-1 rounded-md border shadow-sm transition-all ${activeItem.status === 'void' ? 'opacity-50 cursor-not-allowed bg-slate-200 dark:bg-slate-800 text-slate-500' : activeItem.status === 'paid' ? 'bg-orange-50 dark:bg-orange-900/20 border-orange-200 dark:border-orange-800 text-orange-700 dark:text-orange-400 hover:bg-orange-100' : 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800 text-emerald-700 dark:text-emerald-400 hover:bg-emerald-100'}`}>{activeItem.status === 'paid' ? <X size={18} /> : <CheckCircle size={18} />}<span className="text-[10px] font-bold uppercase tracking-wider">{activeItem.status === 'paid' ? 'Mark Unpaid' : 'Mark Paid'}</span></button>
                             <button type="button" onClick={(e) => { e.preventDefault(); e.stopPropagation(); setInvoiceToDelete(activeItem.id!); }} className="flex-1 py-2.5 flex flex-col items-center justify-center gap-1 rounded-md bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 shadow-sm transition-all"><Trash2 size={18} /><span className="text-[10px] font-bold uppercase tracking-wider">Delete</span></button>
                         </div>
@@ -2878,41 +4343,129 @@ html:not(.dark) .divide-slate-200 > :not([hidden]) ~ :not([hidden]) { border-col
                 {activeTab === 'billing' ? (
                    <div className="space-y-4">
                       <div className="bg-slate-50 dark:bg-slate-900 p-4 rounded-lg border border-slate-100 dark:border-slate-800">
-                          <h4 className="text-xs font-bold text-slate-500 dark:text-slate-300 uppercase tracking-wider mb-3">Client Details</h4>
+                          <div className="flex items-center justify-between mb-3">
+                              <h4 className="text-xs font-bold text-slate-500 dark:text-slate-300 uppercase tracking-wider">Client Details</h4>
+                              {!activeItem.clientId && activeItem.client?.trim() && <button type="button" onClick={saveInvoiceClient} className="text-xs font-bold text-blue-600 flex items-center gap-1 hover:underline"><Users size={12} /> Save as Client</button>}
+                          </div>
                           <div className="space-y-3">
+                              {clients.some(c => !c.archived || c.id === activeItem.clientId) && (
+                                <select value={activeItem.clientId || ''} onChange={e => pickInvoiceClient(e.target.value)} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm font-bold outline-none focus:ring-1 focus:ring-blue-500">
+                                  <option value="">New client (enter below)</option>
+                                  {clients.filter(c => !c.archived || c.id === activeItem.clientId).map(c => <option key={c.id} value={c.id}>{c.name}{c.company ? ` · ${c.company}` : ''}</option>)}
+                                </select>
+                              )}
                               <input type="text" value={activeItem.client || ''} onChange={e => setActiveItem(prev => ({ ...prev, client: e.target.value }))} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-3 font-bold text-base outline-none focus:ring-1 focus:ring-blue-500" placeholder="Client Name (Required)" />
                               <input type="text" value={activeItem.clientCompany || ''} onChange={e => setActiveItem(prev => ({ ...prev, clientCompany: e.target.value }))} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-blue-500" placeholder="Company Name (Optional)" />
                               <input type="email" value={activeItem.clientEmail || ''} onChange={e => setActiveItem(prev => ({ ...prev, clientEmail: e.target.value }))} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-blue-500" placeholder="Client Email (Optional)" />
                               <input type="text" value={activeItem.clientAddress || ''} onChange={e => setActiveItem(prev => ({ ...prev, clientAddress: e.target.value }))} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-blue-500" placeholder="Client Address (Optional)" />
                           </div>
                       </div>
-                      <div className="grid grid-cols-2 gap-4"><DateInput label="Date" value={activeItem.date || ''} onChange={v => setActiveItem(prev => ({ ...prev, date: v }))} /><DateInput label="Due Date" value={activeItem.due || ''} onChange={v => setActiveItem(prev => ({ ...prev, due: v }))} /></div>
+                      <div><label className="text-xs font-bold text-slate-500 dark:text-slate-300 uppercase tracking-wider mb-2 block pl-1">{billingKind === 'quote' ? 'Quote #' : 'Invoice #'}</label><input type="text" value={activeItem.number || ''} onChange={e => setActiveItem(prev => ({ ...prev, number: e.target.value }))} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg px-4 py-3 text-sm font-bold outline-none focus:ring-1 focus:ring-blue-500" placeholder={`${billingKind === 'quote' ? nextQuoteNumber(quotes) : issueInvoiceNumber(settings.invoiceNumbering || DEFAULT_INVOICE_NUMBERING, activeItem.date || new Date().toISOString().split('T')[0], numberedInvoices).number} (assigned on save)`} /></div>
+                      <div className="grid grid-cols-2 gap-4"><DateInput label="Date" value={activeItem.date || ''} onChange={v => setActiveItem(prev => ({ ...prev, date: v }))} /><DateInput label={billingKind === 'quote' ? 'Valid Until' : 'Due Date'} value={activeItem.due || ''} onChange={v => setActiveItem(prev => ({ ...prev, due: v }))} /></div>
                       <div className="bg-slate-50 dark:bg-slate-900 p-1 rounded-lg border border-slate-100 dark:border-slate-800">
-                          <div className="flex items-center justify-between p-3 border-b border-slate-200 dark:border-slate-800"><h4 className="text-xs font-bold text-slate-500 dark:text-slate-300 uppercase tracking-wider">Line Items</h4><button onClick={addInvoiceItem} className="text-xs font-bold text-blue-600 flex items-center gap-1 hover:underline"><PlusCircle size={14}/> Add Item</button></div>
-                          <div className="p-2 space-y-2">{(activeItem.items || []).map((item, idx) => (<div key={item.id} className="flex gap-2 items-start animate-in fade-in slide-in-from-left-2"><div className="flex-1 space-y-2"><input type="text" value={item.description} onChange={(e) => updateInvoiceItem(item.id, 'description', e.target.value)} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-blue-500" placeholder="Description" /><div className="flex gap-2"><div className="relative w-20"><span className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-500 dark:text-slate-300 text-xs">Qty</span><input type="number" value={item.quantity || ''} onChange={(e) => updateInvoiceItem(item.id, 'quantity', Number(e.target.value))} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded pl-8 pr-2 py-2 text-sm outline-none focus:ring-1 focus:ring-blue-500 text-center" placeholder="0"/></div><div className="relative flex-1"><span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 dark:text-slate-300 text-xs">$</span><input type="number" value={item.rate || ''} onChange={(e) => updateInvoiceItem(item.id, 'rate', Number(e.target.value))} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded pl-6 pr-2 py-2 text-sm outline-none focus:ring-1 focus:ring-blue-500" placeholder="0.00" /></div></div></div><div className="pt-2"><button onClick={() => removeInvoiceItem(item.id)} className="text-slate-400 hover:text-red-500 p-1"><MinusCircle size={18} /></button></div></div>))}{(activeItem.items || []).length === 0 && <div className="text-center py-4 text-xs text-slate-400 italic">No items added. Add at least one item.</div>}</div>
+                          <div className="flex items-center justify-between p-3 border-b border-slate-200 dark:border-slate-800"><h4 className="text-xs font-bold text-slate-500 dark:text-slate-300 uppercase tracking-wider">Line Items</h4><div className="flex items-center gap-3">{catalogItems.some(c => !c.archived) && <select value="" onChange={e => addCatalogLine(e.target.value)} className="max-w-[150px] bg-transparent text-xs font-bold text-blue-600 outline-none cursor-pointer"><option value="">From Catalog…</option>{catalogItems.filter(c => !c.archived).map(c => <option key={c.id} value={c.id}>{c.name} · {formatterFor(activeItem.currency).format(c.rate)}/{CATALOG_UNIT_LABELS[c.unit].short}</option>)}</select>}<button onClick={addInvoiceItem} className="text-xs font-bold text-blue-600 flex items-center gap-1 hover:underline"><PlusCircle size={14}/> Add Item</button></div></div>
+                          <div className="p-2 space-y-2">{(activeItem.items || []).map((item, idx) => (<div key={item.id} className="flex gap-2 items-start animate-in fade-in slide-in-from-left-2"><div className="flex-1 space-y-2"><input type="text" value={item.description} onChange={(e) => updateInvoiceItem(item.id, 'description', e.target.value)} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-blue-500" placeholder="Description" /><div className="flex gap-2"><div className="relative w-20"><span className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-500 dark:text-slate-300 text-xs">Qty</span><input type="number" value={item.quantity || ''} onChange={(e) => updateInvoiceItem(item.id, 'quantity', Number(e.target.value))} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded pl-8 pr-2 py-2 text-sm outline-none focus:ring-1 focus:ring-blue-500 text-center" placeholder="0"/></div><div className="relative flex-1"><span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 dark:text-slate-300 text-xs">$</span><input type="number" value={item.rate || ''} onChange={(e) => updateInvoiceItem(item.id, 'rate', Number(e.target.value))} className={`w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded pl-6 py-2 text-sm outline-none focus:ring-1 focus:ring-blue-500 ${item.unit ? 'pr-12' : 'pr-2'}`} placeholder="0.00" />{item.unit && <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500 dark:text-slate-300 text-xs">/{CATALOG_UNIT_LABELS[item.unit].short}</span>}</div>{(activeItem.taxRate || 0) > 0 && <button type="button" onClick={() => updateInvoiceItem(item.id, 'taxable', !isTaxableLine(item))} title={isTaxableLine(item) ? 'Taxed at the invoice rate' : 'Not taxed'} className={`px-2 rounded text-[10px] font-bold uppercase tracking-wider border ${isTaxableLine(item) ? 'border-blue-500/30 text-blue-600 bg-blue-50 dark:bg-blue-500/10' : 'border-slate-200 dark:border-slate-800 text-slate-400 line-through'}`}>Tax</button>}</div></div><div className="pt-2"><button onClick={() => removeInvoiceItem(item.id)} className="text-slate-400 hover:text-red-500 p-1"><MinusCircle size={18} /></button></div></div>))}{(activeItem.items || []).length === 0 && <div className="text-center py-4 text-xs text-slate-400 italic">No items added. Add at least one item.</div>}</div>
                           <div className="p-3 bg-slate-100 dark:bg-slate-900/50 rounded-b-lg space-y-2">
-                              <div className="flex justify-between text-xs text-slate-600 dark:text-slate-300"><span>Subtotal</span><span>{formatCurrency.format(activeInvoiceTotals.subtotal)}</span></div>
+                              <div className="flex justify-between text-xs text-slate-600 dark:text-slate-300"><span>Subtotal</span><span>{formatterFor(activeItem.currency).format(activeInvoiceTotals.subtotal)}</span></div>
                               <div className="flex items-center justify-between gap-4"><label className="text-xs text-slate-600 dark:text-slate-300">Discount</label><div className="relative w-24"><span className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-500 dark:text-slate-300 text-xs">$</span><input type="number" value={activeItem.discount || ''} onChange={e => setActiveItem(p => ({...p, discount: Number(e.target.value)}))} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded py-1 pl-5 pr-1 text-xs text-right outline-none" placeholder="0" /></div></div>
                               <div className="flex items-center justify-between gap-4"><label className="text-xs text-slate-600 dark:text-slate-300">Tax Rate</label><div className="relative w-24"><input type="number" value={activeItem.taxRate || ''} onChange={e => setActiveItem(p => ({...p, taxRate: Number(e.target.value)}))} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded py-1 pl-1 pr-5 text-xs text-right outline-none" placeholder="0" /><span className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-500 dark:text-slate-300 text-xs">%</span></div></div>
                               <div className="flex items-center justify-between gap-4"><label className="text-xs text-slate-600 dark:text-slate-300">Shipping</label><div className="relative w-24"><span className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-500 dark:text-slate-300 text-xs">$</span><input type="number" value={activeItem.shipping || ''} onChange={e => setActiveItem(p => ({...p, shipping: Number(e.target.value)}))} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded py-1 pl-5 pr-1 text-xs text-right outline-none" placeholder="0" /></div></div>
-                              <div className="flex justify-between text-sm font-bold pt-2 border-t border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white"><span>Total Due</span><span>{formatCurrency.format(activeInvoiceTotals.total)}</span></div>
+                              <div className="flex justify-between text-sm font-bold pt-2 border-t border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white"><span>{billingKind === 'quote' ? 'Total' : 'Total Due'}</span><span>{formatterFor(activeItem.currency).format(activeInvoiceTotals.total)}</span></div>
+                              <div className="flex items-center justify-between gap-4"><label className="text-xs text-slate-600 dark:text-slate-300">Currency</label><select value={activeItem.currency || appCurrency} onChange={e => setActiveItem(p => ({ ...p, currency: e.target.value === appCurrency ? undefined : e.target.value }))} className="w-24 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded py-1 px-1 text-xs text-right outline-none">{Array.from(new Set([appCurrency, ...CURRENCY_OPTIONS])).map(c => <option key={c} value={c}>{c}</option>)}</select></div>
                           </div>
                       </div>
+                      {drawerMode === 'edit_inv' && activeItem.id && activeItem.status !== 'void' && invoices.some(i => i.id === activeItem.id) && (
+                          <InvoicePaymentsPanel
+                            key={activeItem.id}
+                            invoice={invoices.find(i => i.id === activeItem.id)!}
+                            payMethods={settings.payPrefs}
+                            formatMoney={n => formatterFor(activeItem.currency).format(n)}
+                            booked={isForeignCurrency(activeItem) ? { currency: appCurrency, formatMoney: n => formatCurrency.format(n) } : undefined}
+                            onRecord={entry => recordInvoicePayment(activeItem, entry)}
+                            onRemove={payment => removeInvoicePayment(activeItem, payment)}
+                          />
+                      )}
+                      {drawerMode === 'edit_inv' && activeItem.id && activeItem.status !== 'void' && invoices.some(i => i.id === activeItem.id) && (
+                          <InvoiceCreditsPanel
+                            key={`credits_${activeItem.id}`}
+                            invoice={invoices.find(i => i.id === activeItem.id)!}
+                            available={availableCredits(invoices.find(i => i.id === activeItem.id)!, credits, invoices, appCurrency)}
+                            creditNotes={creditNotesFor(activeItem.id, credits)}
+                            creditNoteLimit={creditNoteLimit(invoices.find(i => i.id === activeItem.id)!, credits)}
+                            creditFor={id => credits.find(c => c.id === id)}
+                            formatMoney={n => formatterFor(activeItem.currency).format(n)}
+                            onApply={(credit, amount) => applyCreditToInvoice(activeItem, credit, amount)}
+                            onRemove={applied => removeAppliedCredit(activeItem, applied)}
+                            onIssueCreditNote={(amount, reason) => issueCreditNote(activeItem, amount, reason)}
+                          />
+                      )}
+                      {drawerMode === 'edit_inv' && activeItem.id && invoices.some(i => i.id === activeItem.id && isOutstanding(i)) && (() => {
+                          const stored = invoices.find(i => i.id === activeItem.id)!;
+                          const today = new Date().toISOString().split('T')[0];
+                          const money = (n: number) => formatterFor(stored.currency).format(n);
+                          const rule = lateFeeRuleFor(stored, settings);
+                          const offset = dueReminder(stored, reminderSchedule, today);
+                          const upcoming = nextReminder(stored, reminderSchedule, today);
+                          return (
+                            <InvoiceRemindersPanel
+                              invoice={stored}
+                              defaultRule={settings.lateFeeRule || DEFAULT_LATE_FEE_RULE}
+                              currencySymbol={settings.currencySymbol}
+                              pendingFees={lateFeesFor(stored, today)}
+                              reminder={offset !== undefined ? { offsetDays: offset, ...reminderMessage(stored, offset, today, { businessName: settings.businessName, senderName: settings.ownerName, payMethods: settings.payPrefs, formatMoney: money, lateFeeNote: rule ? describeLateFeeRule(rule, money) : undefined }) } : undefined}
+                              next={upcoming !== undefined ? { offsetDays: upcoming, date: reminderDate(stored, upcoming) } : undefined}
+                              formatMoney={money}
+                              onChangeRule={rule => updateInvoiceLateFeeRule(stored, rule)}
+                              onAddFees={() => addLateFees(stored)}
+                              onCopy={copyReminder}
+                              onMarkSent={offsetDays => markReminderSent(stored, offsetDays)}
+                            />
+                          );
+                      })()}
+                      {drawerMode === 'edit_inv' && activeItem.id && invoices.some(i => i.id === activeItem.id) && (
+                          <InvoiceTimeline invoice={invoices.find(i => i.id === activeItem.id)!} />
+                      )}
                       <div className="space-y-4">
                           <div><label className="text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block pl-1 uppercase tracking-wider">Internal Category</label>{renderCategoryChips(activeItem.category, (cat) => setActiveItem(prev => ({ ...prev, category: cat })))}</div>
                           <div><label className="text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block pl-1 uppercase tracking-wider">Notes / Memo</label><textarea value={activeItem.notes || ''} onChange={e => setActiveItem(prev => ({ ...prev, notes: e.target.value }))} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-blue-50 min-h-[60px]" placeholder="Thank you for your business..." /></div>
                           <div><label className="text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block pl-1 uppercase tracking-wider">Terms</label><textarea value={activeItem.terms || ''} onChange={e => setActiveItem(prev => ({ ...prev, terms: e.target.value }))} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-blue-500 min-h-[60px]" placeholder="Net 30. Late fees apply..." /></div>
                       </div>
-                      <button onClick={() => saveInvoice(activeItem)} className="w-full py-4 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-lg shadow-lg shadow-blue-500/20 uppercase tracking-widest transition-all active:scale-95">Save Invoice</button>
+                      <button onClick={() => billingKind === 'quote' ? saveQuote(activeItem) : saveInvoice(activeItem)} className="w-full py-4 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-lg shadow-lg shadow-blue-500/20 uppercase tracking-widest transition-all active:scale-95">{billingKind === 'quote' ? 'Save Quote' : 'Save Invoice'}</button>
                    </div>
-                ) : (
+                ) : activeTab === 'transfer' ? (
                    <div className="space-y-4">
-                      <div><label className="text-sm font-bold text-slate-600 dark:text-slate-300 mb-2 block pl-1">Description</label><input type="text" value={activeItem.name || ''} onChange={e => setActiveItem(prev => ({ ...prev, name: e.target.value }))} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-0 rounded-lg px-4 py-4 font-bold text-lg outline-none focus:ring-2 focus:ring-blue-500/20" placeholder={activeTab === 'income' ? "Client or Source" : "Vendor or Purchase"} /></div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div><label className="text-sm font-bold text-slate-600 dark:text-slate-300 mb-2 block pl-1">From</label><select value={activeItem.accountId || ''} onChange={e => setActiveItem(prev => ({ ...prev, accountId: e.target.value }))} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-0 rounded-lg px-4 py-4 font-bold text-base outline-none focus:ring-2 focus:ring-blue-500/20">{accounts.filter(a => !a.archived || a.id === activeItem.accountId).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}</select></div>
+                        <div><label className="text-sm font-bold text-slate-600 dark:text-slate-300 mb-2 block pl-1">To</label><select value={activeItem.transferAccountId || ''} onChange={e => setActiveItem(prev => ({ ...prev, transferAccountId: e.target.value }))} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-0 rounded-lg px-4 py-4 font-bold text-base outline-none focus:ring-2 focus:ring-blue-500/20">{accounts.filter(a => !a.archived || a.id === activeItem.transferAccountId).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}</select></div>
+                      </div>
                       <div className="grid grid-cols-2 gap-4"><DateInput label="Date" value={activeItem.date || ''} onChange={v => setActiveItem(prev => ({ ...prev, date: v }))} /><div><label className="text-sm font-bold text-slate-600 dark:text-slate-300 mb-2 block pl-1">Amount</label><div className="relative"><span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500 dark:text-slate-300 font-bold">{settings.currencySymbol}</span><input type="number" value={activeItem.amount || ''} onChange={e => setActiveItem(prev => ({ ...prev, amount: Number(e.target.value) }))} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-0 rounded-lg pl-10 pr-4 py-4 font-bold text-lg outline-none focus:ring-2 focus:ring-blue-500/20" placeholder="0.00" /></div></div></div>
-                      <div><label className="text-sm font-bold text-slate-600 dark:text-slate-300 mb-2 block pl-1">Category</label>{renderCategoryChips(activeItem.category, (cat) => setActiveItem(prev => ({ ...prev, category: cat })))}</div>
+                      <div><label className="text-sm font-bold text-slate-600 dark:text-slate-300 mb-2 block pl-1">Description</label><input type="text" value={activeItem.name || ''} onChange={e => setActiveItem(prev => ({ ...prev, name: e.target.value }))} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-0 rounded-lg px-4 py-4 font-bold text-lg outline-none focus:ring-2 focus:ring-blue-500/20" placeholder={`Transfer to ${accountName(activeItem.transferAccountId)}`} /></div>
+                      <div><label className="text-sm font-bold text-slate-600 dark:text-slate-300 mb-2 block pl-1">Notes</label><textarea value={activeItem.notes || ''} onChange={e => setActiveItem(prev => ({ ...prev, notes: e.target.value }))} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-blue-500 min-h-[60px]" placeholder="e.g. Paying down the card" /></div>
+                      <button onClick={() => saveTransaction(activeItem)} className="w-full py-4 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-lg shadow-lg shadow-blue-500/20 uppercase tracking-widest transition-all active:scale-95">Save Transfer</button>
+                   </div>
+                ) : (
+                   <div className="space-y-4">
+                      <div><label className="text-sm font-bold text-slate-600 dark:text-slate-300 mb-2 block pl-1">Description</label><input type="text" value={activeItem.name || ''} onChange={e => updateTransactionDraft({ name: e.target.value })} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-0 rounded-lg px-4 py-4 font-bold text-lg outline-none focus:ring-2 focus:ring-blue-500/20" placeholder={activeTab === 'income' ? "Client or Source" : "Vendor or Purchase"} /></div>
+                      <div className="grid grid-cols-2 gap-4"><DateInput label="Date" value={activeItem.date || ''} onChange={v => setActiveItem(prev => ({ ...prev, date: v }))} /><div><label className="text-sm font-bold text-slate-600 dark:text-slate-300 mb-2 block pl-1">Amount</label><div className="relative"><span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500 dark:text-slate-300 font-bold">{settings.currencySymbol}</span><input type="number" value={activeItem.amount || ''} onChange={e => updateTransactionDraft({ amount: Number(e.target.value) })} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-0 rounded-lg pl-10 pr-4 py-4 font-bold text-lg outline-none focus:ring-2 focus:ring-blue-500/20" placeholder="0.00" /></div></div></div>
+                      <div>
+                        <div className="flex items-center justify-between mb-2 pl-1"><label className="text-sm font-bold text-slate-600 dark:text-slate-300">Category</label><button type="button" onClick={toggleSplit} className="text-xs font-bold text-blue-600 flex items-center gap-1 hover:underline"><Split size={14}/> {activeItem.splits?.length ? 'Remove Split' : 'Split'}</button></div>
+                        {activeItem.splits?.length ? (
+                          <div className="bg-slate-50 dark:bg-slate-900 p-1 rounded-lg border border-slate-100 dark:border-slate-800">
+                            <div className="p-2 space-y-2">{activeItem.splits.map(sp => (<div key={sp.id} className="flex gap-2 items-start animate-in fade-in slide-in-from-left-2"><div className="flex-1 space-y-2"><div className="flex gap-2"><select value={sp.category} onChange={e => updateSplitLine(sp.id, 'category', e.target.value)} className="flex-1 min-w-0 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-blue-500"><option value="">Category…</option>{(activeTab === 'income' ? [...customCategories.income, ...CATS_IN] : [...customCategories.expense, ...CATS_OUT]).map(c => <option key={c} value={c}>{c}</option>)}</select><div className="relative w-28"><span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 dark:text-slate-300 text-xs">{settings.currencySymbol}</span><input type="number" value={sp.amount || ''} onChange={e => updateSplitLine(sp.id, 'amount', Number(e.target.value))} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded pl-6 pr-2 py-2 text-sm outline-none focus:ring-1 focus:ring-blue-500" placeholder="0.00" /></div></div><input type="text" value={sp.note || ''} onChange={e => updateSplitLine(sp.id, 'note', e.target.value)} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-blue-500" placeholder="Note (optional)" /></div><div className="pt-2"><button onClick={() => removeSplitLine(sp.id)} className="text-slate-400 hover:text-red-500 p-1"><MinusCircle size={18} /></button></div></div>))}</div>
+                            <div className="flex items-center justify-between p-3 bg-slate-100 dark:bg-slate-900/50 rounded-b-lg"><button onClick={addSplitLine} className="text-xs font-bold text-blue-600 flex items-center gap-1 hover:underline"><PlusCircle size={14}/> Add Line</button><span className={`text-xs font-bold ${Math.round((splitsTotal(activeItem.splits) - (Number(activeItem.amount) || 0)) * 100) === 0 ? 'text-emerald-600' : 'text-amber-600'}`}>Remaining {formatCurrency.format((Number(activeItem.amount) || 0) - splitsTotal(activeItem.splits))}</span></div>
+                          </div>
+                        ) : renderCategoryChips(activeItem.category, (cat) => { categoryPickedRef.current = true; setActiveItem(prev => ({ ...prev, category: cat })); })}
+                      </div>
+                      {accounts.length > 0 && (
+                        <div><label className="text-sm font-bold text-slate-600 dark:text-slate-300 mb-2 block pl-1">Account</label><select value={activeItem.accountId || ''} onChange={e => setActiveItem(prev => ({ ...prev, accountId: e.target.value || undefined }))} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-0 rounded-lg px-4 py-4 font-bold text-base outline-none focus:ring-2 focus:ring-blue-500/20"><option value="">No account</option>{accounts.filter(a => !a.archived || a.id === activeItem.accountId).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}</select></div>
+                      )}
                       <button onClick={() => saveTransaction(activeItem)} className={`w-full py-4 font-bold rounded-lg shadow-lg uppercase tracking-widest transition-all active:scale-95 text-white ${activeTab === 'income' ? 'bg-emerald-600 hover:bg-emerald-700 shadow-emerald-500/20' : 'bg-red-600 hover:bg-red-700 shadow-red-500/20'}`}>Save {activeTab}</button>
                    </div>
                 )}
+
+                {(drawerMode === 'edit_tx' || drawerMode === 'edit_inv') && activeItem.id && (
+                   <RecordHistory entries={historyFor(auditLog, drawerMode === 'edit_inv' ? 'invoice' : 'transaction', activeItem.id)} />
+                )}
              </div>
          )}
       </Drawer>
@@ -0,0 +1,82 @@
+import React, { useState } from "react";
+import { X, Tag, CalendarClock, CheckCircle2, Download, Trash2, CheckSquare } from "lucide-react";
+
+type Props = {
+  selectedCount: number;
+  totalCount: number;
+  unpaidInvoiceCount: number;
+  categoryOptions: string[];
+  onSelectAll: () => void;
+  onRecategorize: (category: string) => void;
+  onShiftDates: (days: number) => void;
+  onMarkPaid: () => void;
+  onExport: () => void;
+  onDelete: () => void;
+  onDone: () => void;
+};
+
+type Panel = "none" | "category" | "dates";
+
+const inputClass =
+  "flex-1 min-w-0 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg px-3 py-2 text-sm font-medium outline-none focus:ring-1 focus:ring-blue-500 text-slate-900 dark:text-white";
+
+const actionClass =
+  "flex flex-col items-center justify-center gap-1 px-2 py-2 rounded-lg text-[11px] font-bold uppercase tracking-wide text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40 transition-colors";
+
+export default function BulkActionBar({
+  selectedCount,
+  totalCount,
+  unpaidInvoiceCount,
+  categoryOptions,
+  onSelectAll,
+  onRecategorize,
+  onShiftDates,
+  onMarkPaid,
+  onExport,
+  onDelete,
+  onDone,
+}: Props) {
+  const [panel, setPanel] = useState<Panel>("none");
+  const [category, setCategory] = useState("");
+  const [days, setDays] = useState("");
+  const none = selectedCount === 0;
+
+  const togglePanel = (next: Panel) => setPanel(panel === next ? "none" : next);
+
+  return (
+    <div className="no-print fixed bottom-24 left-1/2 -translate-x-1/2 w-[94%] max-w-2xl z-[56] bg-white dark:bg-slate-950 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-800 p-3 space-y-3 animate-in slide-in-from-bottom-4 fade-in duration-200">
+      <div className="flex items-center justify-between px-1">
+        <span className="text-sm font-bold text-slate-900 dark:text-white">{selectedCount} selected</span>
+        <div className="flex items-center gap-3">
+          {selectedCount < totalCount && (
+            <button onClick={onSelectAll} className="text-xs font-bold text-blue-600 flex items-center gap-1 hover:underline"><CheckSquare size={14} /> Select All {totalCount}</button>
+          )}
+          <button onClick={onDone} className="p-1 text-slate-400 hover:text-slate-700 dark:hover:text-white" title="Done"><X size={18} /></button>
+        </div>
+      </div>
+
+      {panel === "category" && (
+        <div className="flex gap-2">
+          <select value={category || categoryOptions[0] || ""} onChange={e => setCategory(e.target.value)} className={inputClass}>
+            {categoryOptions.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <button onClick={() => { onRecategorize(category || categoryOptions[0]); setPanel("none"); }} className="px-4 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-xs font-bold uppercase tracking-wider">Apply</button>
+        </div>
+      )}
+      {panel === "dates" && (
+        <div className="flex gap-2">
+          <input type="number" value={days} onChange={e => setDays(e.target.value)} className={inputClass} placeholder="Days to move, e.g. 30 or -7" />
+          <button onClick={() => { onShiftDates(Number(days)); setPanel("none"); setDays(""); }} disabled={!Number(days)} className="px-4 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-xs font-bold uppercase tracking-wider disabled:opacity-50">Shift</button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-5 gap-1">
+        <button onClick={() => togglePanel("category")} disabled={none} className={actionClass}><Tag size={18} /> Category</button>
+        <button onClick={() => togglePanel("dates")} disabled={none} className={actionClass}><CalendarClock size={18} /> Dates</button>
+        <button onClick={onMarkPaid} disabled={unpaidInvoiceCount === 0} className={actionClass}><CheckCircle2 size={18} /> Paid{unpaidInvoiceCount > 0 ? ` (${unpaidInvoiceCount})` : ""}</button>
+        <button onClick={onExport} disabled={none} className={actionClass}><Download size={18} /> Export</button>
+        <button onClick={onDelete} disabled={none} className={`${actionClass} hover:text-red-600`}><Trash2 size={18} /> Delete</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import React, { useState } from "react";
+import { Plus, Trash2, Archive, ArchiveRestore, Package } from "lucide-react";
+import type { CatalogItem, CatalogUnit } from "./types";
+import { CATALOG_UNIT_LABELS } from "./services/catalog";
+
+type Props = {
+  items: CatalogItem[];
+  categories: string[];
+  formatMoney: (n: number) => string;
+  onAdd: (item: Omit<CatalogItem, "id">) => void;
+  onUpdate: (item: CatalogItem) => void;
+  onDelete: (item: CatalogItem) => void;
+};
+
+const inputClass =
+  "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm font-medium outline-none focus:ring-1 focus:ring-blue-500 text-slate-900 dark:text-white";
+
+const units = Object.keys(CATALOG_UNIT_LABELS) as CatalogUnit[];
+
+export default function CatalogManager({ items, categories, formatMoney, onAdd, onUpdate, onDelete }: Props) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [rate, setRate] = useState("");
+  const [unit, setUnit] = useState<CatalogUnit>("hour");
+  const [category, setCategory] = useState("");
+  const [taxable, setTaxable] = useState(true);
+
+  const addItem = () => {
+    if (!name.trim()) return;
+    onAdd({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      rate: Number(rate) || 0,
+      unit,
+      taxable,
+      category: category || categories[0],
+    });
+    setName("");
+    setDescription("");
+    setRate("");
+  };
+
+  return (
+    <div className="space-y-5">
+      {items.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">Save the services and products you bill regularly, then add them to an invoice in one tap.</p>
+      ) : (
+        <div className="divide-y divide-slate-200 dark:divide-slate-800 rounded-lg border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+          {items.map(item => (
+            <div key={item.id} className={`flex items-center gap-3 px-4 py-3 ${item.archived ? "opacity-50" : ""}`}>
+              <div className="w-9 h-9 rounded-full bg-blue-50 text-blue-600 dark:bg-blue-500/10 dark:text-blue-400 flex items-center justify-center flex-shrink-0">
+                <Package size={16} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <input
+                  type="text"
+                  value={item.name}
+                  onChange={e => onUpdate({ ...item, name: e.target.value })}
+                  className="w-full bg-transparent text-sm font-bold text-slate-900 dark:text-white outline-none focus:ring-1 focus:ring-blue-500 rounded px-1"
+                />
+                <div className="text-xs text-slate-500 dark:text-slate-400 px-1 truncate">
+                  {formatMoney(item.rate)} {CATALOG_UNIT_LABELS[item.unit].label.toLowerCase()} · {item.category}{item.taxable ? "" : " · Not taxed"}{item.archived ? " · Archived" : ""}
+                </div>
+              </div>
+              <input
+                type="number"
+                value={item.rate}
+                onChange={e => onUpdate({ ...item, rate: Number(e.target.value) || 0 })}
+                className="w-24 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-2 py-1 text-sm text-right outline-none focus:ring-1 focus:ring-blue-500 text-slate-900 dark:text-white"
+                title="Default rate"
+              />
+              <button onClick={() => onUpdate({ ...item, archived: !item.archived })} className="p-1 text-slate-400 hover:text-blue-600" title={item.archived ? "Unarchive" : "Archive"}>
+                {item.archived ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+              </button>
+              <button onClick={() => onDelete(item)} className="p-1 text-slate-400 hover:text-red-600" title="Delete">
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block">Name</label>
+          <input type="text" value={name} onChange={e => setName(e.target.value)} className={inputClass} placeholder="e.g. Design consultation" />
+        </div>
+        <div>
+          <label className="text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block">Description (Optional)</label>
+          <input type="text" value={description} onChange={e => setDescription(e.target.value)} className={inputClass} placeholder="Shown on the invoice line" />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block">Rate</label>
+            <input type="number" value={rate} onChange={e => setRate(e.target.value)} className={inputClass} placeholder="0.00" />
+          </div>
+          <div>
+            <label className="text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block">Unit</label>
+            <select value={unit} onChange={e => setUnit(e.target.value as CatalogUnit)} className={inputClass}>
+              {units.map(u => <option key={u} value={u}>{CATALOG_UNIT_LABELS[u].label}</option>)}
+            </select>
+          </div>
+        </div>
+        <div>
+          <label className="text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block">Billing Category</label>
+          <select value={category || categories[0] || ""} onChange={e => setCategory(e.target.value)} className={inputClass}>
+            {categories.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300">
+        <input type="checkbox" checked={taxable} onChange={e => setTaxable(e.target.checked)} className="rounded" />
+        Apply the invoice tax rate to this item
+      </label>
+      <button onClick={addItem} disabled={!name.trim()} className="w-full flex items-center justify-center gap-2 py-3 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold uppercase tracking-wider disabled:opacity-50 transition-colors">
+        <Plus size={16} /> Add to Catalog
+      </button>
+    </div>
+  );
+}
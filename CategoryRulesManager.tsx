@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from "react";
+import { Plus, Trash2, ChevronUp, ChevronDown, Play, X, ArrowRight, ToggleLeft, ToggleRight } from "lucide-react";
+import type { Transaction, CategoryRule } from "./types";
+import { describeRule, hasConditions, previewRuleChanges, type RuleChange } from "./services/categoryRules";
+
+type Props = {
+  rules: CategoryRule[];
+  transactions: Transaction[];
+  incomeCategories: string[];
+  expenseCategories: string[];
+  currencySymbol: string;
+  onAdd: (rule: Omit<CategoryRule, "id">) => void;
+  onChange: (rules: CategoryRule[]) => void;
+  onApply: (changes: RuleChange[]) => void;
+};
+
+const inputClass =
+  "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm font-medium outline-none focus:ring-1 focus:ring-blue-500 text-slate-900 dark:text-white";
+
+const emptyDraft = { matchType: "expense" as CategoryRule["matchType"], nameContains: "", minAmount: "", maxAmount: "", category: "" };
+
+export default function CategoryRulesManager({
+  rules,
+  transactions,
+  incomeCategories,
+  expenseCategories,
+  currencySymbol,
+  onAdd,
+  onChange,
+  onApply,
+}: Props) {
+  const [draft, setDraft] = useState(emptyDraft);
+  const [preview, setPreview] = useState<RuleChange[] | null>(null);
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+
+  const categoryOptions = useMemo(() => {
+    if (draft.matchType === "income") return incomeCategories;
+    if (draft.matchType === "expense") return expenseCategories;
+    return Array.from(new Set([...expenseCategories, ...incomeCategories]));
+  }, [draft.matchType, incomeCategories, expenseCategories]);
+
+  const addRule = () => {
+    const rule: Omit<CategoryRule, "id"> = {
+      enabled: true,
+      matchType: draft.matchType,
+      nameContains: draft.nameContains.trim() || undefined,
+      minAmount: draft.minAmount === "" ? undefined : Number(draft.minAmount),
+      maxAmount: draft.maxAmount === "" ? undefined : Number(draft.maxAmount),
+      category: draft.category || categoryOptions[0] || "",
+    };
+    if (!hasConditions({ ...rule, id: "" })) return;
+    onAdd(rule);
+    setDraft({ ...emptyDraft, matchType: draft.matchType });
+  };
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const runPreview = () => {
+    setSkipped(new Set());
+    setPreview(previewRuleChanges(rules, transactions));
+  };
+
+  const applyPreview = () => {
+    if (!preview) return;
+    onApply(preview.filter(c => !skipped.has(c.transaction.id)));
+    setPreview(null);
+  };
+
+  const toggleSkipped = (id: string) => {
+    const next = new Set(skipped);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSkipped(next);
+  };
+
+  const canAdd = !!draft.nameContains.trim() || draft.minAmount !== "" || draft.maxAmount !== "";
+  const selectedCount = preview ? preview.length - skipped.size : 0;
+
+  return (
+    <div className="space-y-5">
+      {rules.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No rules yet. Rules fill in the category for new entries and imports, e.g. name contains "Adobe" → Software / SaaS.</p>
+      ) : (
+        <div className="divide-y divide-slate-200 dark:divide-slate-800 rounded-lg border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+          {rules.map((rule, index) => (
+            <div key={rule.id} className={`flex items-center gap-3 px-4 py-3 ${rule.enabled ? "" : "opacity-50"}`}>
+              <button onClick={() => onChange(rules.map(r => r.id === rule.id ? { ...r, enabled: !r.enabled } : r))} className="text-slate-400 hover:text-blue-600" title={rule.enabled ? "Disable" : "Enable"}>
+                {rule.enabled ? <ToggleRight size={22} className="text-blue-600" /> : <ToggleLeft size={22} />}
+              </button>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-bold text-slate-900 dark:text-white truncate">{rule.category}</div>
+                <div className="text-xs text-slate-500 dark:text-slate-400 truncate">{describeRule(rule)}</div>
+              </div>
+              <div className="flex items-center gap-1">
+                <button onClick={() => move(index, -1)} disabled={index === 0} className="p-1 text-slate-400 hover:text-slate-700 dark:hover:text-white disabled:opacity-30" title="Higher priority"><ChevronUp size={16} /></button>
+                <button onClick={() => move(index, 1)} disabled={index === rules.length - 1} className="p-1 text-slate-400 hover:text-slate-700 dark:hover:text-white disabled:opacity-30" title="Lower priority"><ChevronDown size={16} /></button>
+                <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="p-1 text-slate-400 hover:text-red-600" title="Delete rule"><Trash2 size={16} /></button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block">Applies To</label>
+          <select value={draft.matchType} onChange={e => setDraft({ ...draft, matchType: e.target.value as CategoryRule["matchType"], category: "" })} className={inputClass}>
+            <option value="expense">Expenses</option>
+            <option value="income">Income</option>
+            <option value="any">Both</option>
+          </select>
+        </div>
+        <div>
+          <label className="text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block">Name Contains</label>
+          <input type="text" value={draft.nameContains} onChange={e => setDraft({ ...draft, nameContains: e.target.value })} className={inputClass} placeholder="e.g. Adobe" />
+        </div>
+        <div>
+          <label className="text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block">Min Amount ({currencySymbol})</label>
+          <input type="number" value={draft.minAmount} onChange={e => setDraft({ ...draft, minAmount: e.target.value })} className={inputClass} placeholder="Any" />
+        </div>
+        <div>
+          <label className="text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block">Max Amount ({currencySymbol})</label>
+          <input type="number" value={draft.maxAmount} onChange={e => setDraft({ ...draft, maxAmount: e.target.value })} className={inputClass} placeholder="Any" />
+        </div>
+        <div className="sm:col-span-2">
+          <label className="text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block">Set Category To</label>
+          <select value={draft.category || categoryOptions[0] || ""} onChange={e => setDraft({ ...draft, category: e.target.value })} className={inputClass}>
+            {categoryOptions.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <button onClick={addRule} disabled={!canAdd} className="flex-1 flex items-center justify-center gap-2 py-3 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold uppercase tracking-wider disabled:opacity-50 transition-colors">
+          <Plus size={16} /> Add Rule
+        </button>
+        <button onClick={runPreview} disabled={rules.length === 0} className="flex-1 flex items-center justify-center gap-2 py-3 rounded-lg bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-700 text-sm font-bold uppercase tracking-wider disabled:opacity-50 transition-colors">
+          <Play size={16} /> Re-run on Existing
+        </button>
+      </div>
+
+      {preview && (
+        <div className="rounded-lg border border-blue-200 dark:border-blue-900/40 bg-blue-50/50 dark:bg-blue-950/10 p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h5 className="text-xs font-bold uppercase tracking-widest text-slate-600 dark:text-slate-300">
+              {preview.length === 0 ? "No changes — everything already matches" : `${preview.length} ${preview.length === 1 ? "transaction" : "transactions"} would change`}
+            </h5>
+            <button onClick={() => setPreview(null)} className="p-1 text-slate-400 hover:text-slate-700 dark:hover:text-white"><X size={16} /></button>
+          </div>
+          {preview.length > 0 && (
+            <>
+              <div className="max-h-64 overflow-y-auto divide-y divide-slate-200 dark:divide-slate-800 rounded border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+                {preview.map(change => (
+                  <label key={change.transaction.id} className="flex items-center gap-3 px-3 py-2 cursor-pointer">
+                    <input type="checkbox" checked={!skipped.has(change.transaction.id)} onChange={() => toggleSkipped(change.transaction.id)} />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-bold text-slate-900 dark:text-white truncate">{change.transaction.name}</div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1 truncate">
+                        {change.transaction.date} · {change.from} <ArrowRight size={12} /> <span className="text-blue-600 dark:text-blue-400 font-bold">{change.to}</span>
+                      </div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+              <button onClick={applyPreview} disabled={selectedCount === 0} className="w-full py-3 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold uppercase tracking-wider disabled:opacity-50 transition-colors">
+                Apply {selectedCount} {selectedCount === 1 ? "Change" : "Changes"}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from "react";
+import { ArrowLeft, Pencil, Archive, ArchiveRestore, Trash2, Plus, Mail, Phone, MapPin, FileText, ReceiptText } from "lucide-react";
+import type { Client, ClientCredit, Invoice, Transaction } from "./types";
+import { clientStats, creditsForClient, currencyOf, invoicesForClient } from "./services/clients";
+import { CREDIT_KIND_LABELS, creditRemaining } from "./services/credits";
+import { INVOICE_STATUS_LABELS } from "./services/invoiceStatus";
+import { ClientForm } from "./ClientDirectory";
+
+type Props = {
+  client: Client;
+  invoices: Invoice[];
+  transactions: Transaction[];
+  credits: ClientCredit[];
+  payMethods: string[];
+  defaultCurrency: string; // The app currency
+  formatMoney: (n: number, currency?: string) => string; // Unset currency is the app currency
+  onBack: () => void;
+  onUpdate: (client: Client) => void;
+  onDelete: (client: Client) => void;
+  onNewInvoice: (client: Client) => void;
+  onOpenInvoice: (invoice: Invoice) => void;
+  onRecordRetainer: (client: Client, entry: { amount: number; date: string; method?: string; bookedAmount?: number }) => void;
+  onDeleteCredit: (credit: ClientCredit) => void;
+};
+
+const inputClass =
+  "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm font-medium outline-none focus:ring-1 focus:ring-blue-500 text-slate-900 dark:text-white";
+
+const STATUS_CLASSES: Record<Invoice["status"], string> = {
+  draft: "bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300",
+  sent: "bg-amber-100 text-amber-700 dark:bg-amber-500/10 dark:text-amber-400",
+  paid: "bg-green-100 text-green-700 dark:bg-green-500/10 dark:text-green-400",
+  unpaid: "bg-amber-100 text-amber-700 dark:bg-amber-500/10 dark:text-amber-400",
+  partial: "bg-blue-100 text-blue-700 dark:bg-blue-500/10 dark:text-blue-400",
+  void: "bg-slate-200 text-slate-600 dark:bg-slate-800 dark:text-slate-400",
+};
+
+export default function ClientDetail({ client, invoices, transactions, credits, payMethods, defaultCurrency, formatMoney, onBack, onUpdate, onDelete, onNewInvoice, onOpenInvoice, onRecordRetainer, onDeleteCredit }: Props) {
+  const [editing, setEditing] = useState(false);
+  const [addingRetainer, setAddingRetainer] = useState(false);
+  const [retainer, setRetainer] = useState({ amount: "", booked: "", date: new Date().toISOString().split("T")[0], method: "" });
+  const stats = useMemo(() => clientStats(client, invoices, transactions, defaultCurrency, credits), [client, invoices, transactions, defaultCurrency, credits]);
+  // Retainers are taken in the client's currency but booked as income in the app's
+  const foreign = stats.currency !== defaultCurrency;
+  const clientCredits = useMemo(
+    () => creditsForClient(client, credits).map(credit => ({ credit, remaining: creditRemaining(credit, invoices) })),
+    [client, credits, invoices]
+  );
+  const creditAvailable = clientCredits.filter(c => currencyOf(c.credit, defaultCurrency) === stats.currency).reduce((sum, c) => sum + c.remaining, 0);
+
+  const saveRetainer = () => {
+    onRecordRetainer(client, { amount: Number(retainer.amount) || 0, date: retainer.date, method: retainer.method || undefined, bookedAmount: foreign ? Number(retainer.booked) || 0 : undefined });
+    setRetainer(prev => ({ ...prev, amount: "", booked: "" }));
+    setAddingRetainer(false);
+  };
+  const history = useMemo(
+    () => [...invoicesForClient(client, invoices)].sort((a, b) => (a.date < b.date ? 1 : a.date > b.date ? -1 : 0)),
+    [client, invoices]
+  );
+
+  const statCard = (label: string, value: string, tone = "text-slate-900 dark:text-white") => (
+    <div className="bg-white dark:bg-slate-900 p-4 rounded-lg border border-slate-200 dark:border-slate-800">
+      <div className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1">{label}</div>
+      <div className={`text-xl font-bold ${tone}`}>{value}</div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <button onClick={onBack} className="flex items-center gap-2 text-sm font-bold text-slate-600 dark:text-slate-300 hover:text-blue-600"><ArrowLeft size={16} /> All Clients</button>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setEditing(!editing)} className="p-2 text-slate-400 hover:text-blue-600" title="Edit client"><Pencil size={16} /></button>
+          <button onClick={() => onUpdate({ ...client, archived: !client.archived })} className="p-2 text-slate-400 hover:text-blue-600" title={client.archived ? "Unarchive" : "Archive"}>
+            {client.archived ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+          </button>
+          <button onClick={() => onDelete(client)} className="p-2 text-slate-400 hover:text-red-600" title="Delete client"><Trash2 size={16} /></button>
+        </div>
+      </div>
+
+      {editing ? (
+        <ClientForm
+          initial={client}
+          defaultCurrency={defaultCurrency}
+          submitLabel="Save Client"
+          onSave={changes => { onUpdate({ ...changes, id: client.id }); setEditing(false); }}
+          onCancel={() => setEditing(false)}
+        />
+      ) : (
+        <div>
+          <h3 className="text-2xl font-bold text-slate-900 dark:text-white font-brand">{client.name}</h3>
+          {client.company && <div className="text-base font-semibold text-slate-600 dark:text-slate-300">{client.company}</div>}
+          <div className="mt-3 space-y-1 text-sm text-slate-600 dark:text-slate-300">
+            {client.email && <div className="flex items-center gap-2"><Mail size={14} /> {client.email}</div>}
+            {client.phone && <div className="flex items-center gap-2"><Phone size={14} /> {client.phone}</div>}
+            {client.address && <div className="flex items-start gap-2 whitespace-pre-line"><MapPin size={14} className="mt-0.5" /> {client.address}</div>}
+          </div>
+          <div className="mt-3 text-xs text-slate-500 dark:text-slate-400">
+            {[
+              client.paymentTermsDays !== undefined ? `Net ${client.paymentTermsDays}` : "",
+              client.defaultTaxRate ? `${client.defaultTaxRate}% tax` : "",
+              client.defaultCurrency || "",
+              client.archived ? "Archived" : "",
+            ].filter(Boolean).join(" · ")}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {statCard("Total Billed", formatMoney(stats.totalBilled, stats.currency))}
+        {statCard("Outstanding", formatMoney(stats.outstanding, stats.currency), stats.outstanding > 0 ? "text-amber-600 dark:text-amber-400" : undefined)}
+        {statCard("Invoices", String(stats.invoiceCount))}
+        {statCard("Avg. Days to Pay", stats.averageDaysToPay === null ? "—" : stats.averageDaysToPay.toFixed(0))}
+      </div>
+      {stats.otherCurrencyCount > 0 && <p className="-mt-3 text-xs text-slate-500 dark:text-slate-400">Totals are in {stats.currency} and leave out {stats.otherCurrencyCount} {stats.otherCurrencyCount === 1 ? "invoice" : "invoices"} in other currencies.</p>}
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-bold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Credits{creditAvailable > 0 ? ` · ${formatMoney(creditAvailable, stats.currency)} available` : ""}</h4>
+          {!client.archived && !addingRetainer && (
+            <button onClick={() => setAddingRetainer(true)} className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:underline"><Plus size={14} /> Record Retainer</button>
+          )}
+        </div>
+        {addingRetainer && (
+          <div className="space-y-2 bg-slate-50 dark:bg-slate-950/50 p-4 rounded-lg border border-slate-200 dark:border-slate-800">
+            <div className="grid grid-cols-3 gap-2">
+              <input type="number" min="0" step="0.01" value={retainer.amount} onChange={e => setRetainer(prev => ({ ...prev, amount: e.target.value }))} className={inputClass} placeholder="Amount" />
+              <input type="date" value={retainer.date} onChange={e => setRetainer(prev => ({ ...prev, date: e.target.value }))} className={inputClass} />
+              <select value={retainer.method} onChange={e => setRetainer(prev => ({ ...prev, method: e.target.value }))} className={inputClass}>
+                <option value="">Method</option>
+                {payMethods.map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+            </div>
+            {foreign && <input type="number" min="0" step="0.01" value={retainer.booked} onChange={e => setRetainer(prev => ({ ...prev, booked: e.target.value }))} className={inputClass} placeholder={`Received in ${defaultCurrency}`} />}
+            <p className="text-xs text-slate-500 dark:text-slate-400">Booked as income now, then applied to this client's invoices as a credit.</p>
+            <div className="flex gap-2">
+              <button onClick={() => setAddingRetainer(false)} className="flex-1 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-sm font-bold text-slate-600 dark:text-slate-300">Cancel</button>
+              <button onClick={saveRetainer} disabled={!(Number(retainer.amount) > 0) || (foreign && !(Number(retainer.booked) > 0)) || !retainer.date} className="flex-1 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold uppercase tracking-wider disabled:opacity-50 transition-colors">Record Retainer</button>
+            </div>
+          </div>
+        )}
+        {clientCredits.length === 0 ? (
+          !addingRetainer && <p className="text-sm text-slate-500 dark:text-slate-400">No retainers or credit notes yet.</p>
+        ) : (
+          <div className="divide-y divide-slate-200 dark:divide-slate-800 rounded-lg border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+            {clientCredits.map(({ credit, remaining }) => (
+              <div key={credit.id} className="flex items-center gap-3 px-4 py-3">
+                <ReceiptText size={16} className="text-slate-400 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-bold text-slate-900 dark:text-white truncate">{CREDIT_KIND_LABELS[credit.kind]} {credit.number}</div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                    {[credit.date, credit.reason, remaining > 0 ? `${formatMoney(remaining, credit.currency)} left` : "Fully applied"].filter(Boolean).join(" · ")}
+                  </div>
+                </div>
+                <div className="text-sm font-bold text-slate-900 dark:text-white whitespace-nowrap">{formatMoney(credit.amount, credit.currency)}</div>
+                <button onClick={() => onDeleteCredit(credit)} className="p-1 text-slate-400 hover:text-red-600" title="Delete credit"><Trash2 size={14} /></button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-bold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Invoice History</h4>
+          {!client.archived && (
+            <button onClick={() => onNewInvoice(client)} className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:underline"><Plus size={14} /> New Invoice</button>
+          )}
+        </div>
+        {history.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-8">No invoices for this client yet.</p>
+        ) : (
+          <div className="divide-y divide-slate-200 dark:divide-slate-800 rounded-lg border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+            {history.map(inv => (
+              <button key={inv.id} onClick={() => onOpenInvoice(inv)} className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors">
+                <FileText size={16} className="text-slate-400 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className={`text-sm font-bold text-slate-900 dark:text-white truncate ${inv.status === "void" ? "line-through text-slate-400" : ""}`}>{inv.number ? `#${inv.number} · ` : ""}{inv.description}</div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">{inv.date} · Due {inv.due}</div>
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider ${STATUS_CLASSES[inv.status]}`}>{INVOICE_STATUS_LABELS[inv.status]}</span>
+                <div className="text-sm font-bold text-slate-900 dark:text-white whitespace-nowrap">{formatMoney(inv.amount, inv.currency)}</div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
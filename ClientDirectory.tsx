@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from "react";
+import { Plus, Search, Users, ChevronRight } from "lucide-react";
+import type { Client, Invoice, Transaction } from "./types";
+import { CURRENCY_OPTIONS, clientStats } from "./services/clients";
+
+type Props = {
+  clients: Client[];
+  invoices: Invoice[];
+  transactions: Transaction[];
+  defaultCurrency: string;
+  formatMoney: (n: number, currency: string) => string;
+  onAdd: (client: Omit<Client, "id">) => void;
+  onOpen: (client: Client) => void;
+};
+
+const inputClass =
+  "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm font-medium outline-none focus:ring-1 focus:ring-blue-500 text-slate-900 dark:text-white";
+
+const labelClass = "text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block";
+
+type FormProps = {
+  initial?: Partial<Client>;
+  defaultCurrency: string;
+  submitLabel: string;
+  onSave: (client: Omit<Client, "id">) => void;
+  onCancel: () => void;
+};
+
+const optionalNumber = (value: string) => (value.trim() === "" ? undefined : Math.max(0, Number(value) || 0));
+
+export function ClientForm({ initial = {}, defaultCurrency, submitLabel, onSave, onCancel }: FormProps) {
+  const [draft, setDraft] = useState<Partial<Client>>(initial);
+  const set = (patch: Partial<Client>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const save = () => {
+    if (!draft.name?.trim()) return;
+    const { id: _id, ...rest } = draft;
+    onSave({ ...rest, name: draft.name.trim() });
+  };
+
+  return (
+    <div className="space-y-3 bg-slate-50 dark:bg-slate-950/50 p-4 rounded-lg border border-slate-200 dark:border-slate-800">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div><label className={labelClass}>Name</label><input type="text" value={draft.name || ""} onChange={e => set({ name: e.target.value })} className={inputClass} placeholder="Client name" /></div>
+        <div><label className={labelClass}>Company</label><input type="text" value={draft.company || ""} onChange={e => set({ company: e.target.value })} className={inputClass} /></div>
+        <div><label className={labelClass}>Email</label><input type="email" value={draft.email || ""} onChange={e => set({ email: e.target.value })} className={inputClass} /></div>
+        <div><label className={labelClass}>Phone</label><input type="tel" value={draft.phone || ""} onChange={e => set({ phone: e.target.value })} className={inputClass} /></div>
+      </div>
+      <div><label className={labelClass}>Address</label><textarea value={draft.address || ""} onChange={e => set({ address: e.target.value })} className={`${inputClass} h-16 resize-none`} /></div>
+      <div className="grid grid-cols-3 gap-3">
+        <div><label className={labelClass}>Net Days</label><input type="number" min="0" value={draft.paymentTermsDays ?? ""} onChange={e => set({ paymentTermsDays: optionalNumber(e.target.value) })} className={inputClass} placeholder="e.g. 30" /></div>
+        <div><label className={labelClass}>Tax Rate %</label><input type="number" min="0" value={draft.defaultTaxRate ?? ""} onChange={e => set({ defaultTaxRate: optionalNumber(e.target.value) })} className={inputClass} placeholder="0" /></div>
+        <div>
+          <label className={labelClass}>Currency</label>
+          <select value={draft.defaultCurrency || defaultCurrency} onChange={e => set({ defaultCurrency: e.target.value === defaultCurrency ? undefined : e.target.value })} className={inputClass}>
+            {Array.from(new Set([defaultCurrency, ...CURRENCY_OPTIONS])).map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+      </div>
+      <div><label className={labelClass}>Default Terms</label><textarea value={draft.defaultTerms || ""} onChange={e => set({ defaultTerms: e.target.value })} className={`${inputClass} h-16 resize-none`} placeholder="Printed on this client's invoices" /></div>
+      <div><label className={labelClass}>Notes</label><input type="text" value={draft.notes || ""} onChange={e => set({ notes: e.target.value })} className={inputClass} placeholder="Internal only" /></div>
+      <div className="flex gap-2">
+        <button onClick={onCancel} className="flex-1 py-3 rounded-lg border border-slate-200 dark:border-slate-700 text-sm font-bold text-slate-600 dark:text-slate-300">Cancel</button>
+        <button onClick={save} disabled={!draft.name?.trim()} className="flex-1 py-3 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold uppercase tracking-wider disabled:opacity-50 transition-colors">{submitLabel}</button>
+      </div>
+    </div>
+  );
+}
+
+export default function ClientDirectory({ clients, invoices, transactions, defaultCurrency, formatMoney, onAdd, onOpen }: Props) {
+  const [adding, setAdding] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const rows = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return clients
+      .filter(c => !q || [c.name, c.company, c.email].some(v => v?.toLowerCase().includes(q)))
+      .sort((a, b) => Number(!!a.archived) - Number(!!b.archived) || a.name.localeCompare(b.name))
+      .map(client => ({ client, stats: clientStats(client, invoices, transactions, defaultCurrency) }));
+  }, [clients, invoices, transactions, defaultCurrency, search]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <div className="relative flex-1 min-w-0">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input type="search" value={search} onChange={e => setSearch(e.target.value)} placeholder="Search clients" className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg pl-9 pr-3 py-3 text-sm font-medium text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500/20" />
+        </div>
+        {!adding && (
+          <button onClick={() => setAdding(true)} className="flex items-center gap-2 px-4 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold transition-colors"><Plus size={16} /> Add Client</button>
+        )}
+      </div>
+
+      {adding && (
+        <ClientForm
+          defaultCurrency={defaultCurrency}
+          submitLabel="Add Client"
+          onSave={client => { onAdd(client); setAdding(false); }}
+          onCancel={() => setAdding(false)}
+        />
+      )}
+
+      {clients.length === 0 && !adding ? (
+        <div className="text-center py-12 text-slate-500 dark:text-slate-400">
+          <Users size={32} className="mx-auto mb-3 opacity-60" />
+          <p className="text-sm">Save clients once and pick them when you invoice. Their terms, tax rate and currency fill in automatically.</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-slate-200 dark:divide-slate-800 rounded-lg border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+          {rows.map(({ client, stats }) => (
+            <button key={client.id} onClick={() => onOpen(client)} className={`w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors ${client.archived ? "opacity-50" : ""}`}>
+              <div className="w-9 h-9 rounded-full bg-blue-50 text-blue-600 dark:bg-blue-500/10 dark:text-blue-400 flex items-center justify-center flex-shrink-0 text-sm font-bold">
+                {client.name.charAt(0).toUpperCase()}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-bold text-slate-900 dark:text-white truncate">{client.name}</div>
+                <div className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                  {[client.company, `${stats.invoiceCount} ${stats.invoiceCount === 1 ? "invoice" : "invoices"}`, client.archived ? "Archived" : ""].filter(Boolean).join(" · ")}
+                </div>
+              </div>
+              {stats.outstanding > 0 && <div className="text-sm font-bold text-amber-600 dark:text-amber-400 whitespace-nowrap">{formatMoney(stats.outstanding, stats.currency)} due</div>}
+              <ChevronRight size={16} className="text-slate-400 flex-shrink-0" />
+            </button>
+          ))}
+          {rows.length === 0 && <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-6">No clients match "{search}".</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import React from "react";
+import type { EmailTransportKind, InvoiceEmailSettings, SmtpRelaySettings } from "./types";
+import { EMAIL_TRANSPORT_LABELS, TEMPLATE_PLACEHOLDERS } from "./services/emailDelivery";
+
+type Props = {
+  settings: InvoiceEmailSettings;
+  smtpToken?: string; // Kept out of settings so it never lands in a backup
+  onChange: (settings: InvoiceEmailSettings) => void;
+  onChangeSmtpToken: (token: string | undefined) => void;
+};
+
+const inputClass =
+  "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm font-medium outline-none focus:ring-1 focus:ring-blue-500 text-slate-900 dark:text-white";
+
+const labelClass = "text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block";
+
+const transports = Object.keys(EMAIL_TRANSPORT_LABELS) as EmailTransportKind[];
+
+export default function EmailDeliverySettings({ settings, smtpToken, onChange, onChangeSmtpToken }: Props) {
+  const set = (patch: Partial<InvoiceEmailSettings>) => onChange({ ...settings, ...patch });
+  const smtp: SmtpRelaySettings = settings.smtp || { endpoint: "", from: "" };
+  const setSmtp = (patch: Partial<SmtpRelaySettings>) => set({ smtp: { ...smtp, ...patch } });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className={labelClass}>Send With</label>
+        <select value={settings.transport} onChange={e => set({ transport: e.target.value as EmailTransportKind })} className={inputClass}>
+          {transports.map(t => <option key={t} value={t}>{EMAIL_TRANSPORT_LABELS[t]}</option>)}
+        </select>
+      </div>
+
+      {settings.transport === "smtp" && (
+        <div className="space-y-3 bg-white dark:bg-slate-900 p-4 rounded-lg border border-slate-200 dark:border-slate-800">
+          <div><label className={labelClass}>Relay URL</label><input type="url" value={smtp.endpoint} onChange={e => setSmtp({ endpoint: e.target.value.trim() })} className={inputClass} placeholder="http://localhost:8025/send" /></div>
+          <div className="grid grid-cols-2 gap-3">
+            <div><label className={labelClass}>From Address</label><input type="email" value={smtp.from} onChange={e => setSmtp({ from: e.target.value.trim() })} className={inputClass} placeholder="billing@example.com" /></div>
+            <div><label className={labelClass}>Token (Optional)</label><input type="password" value={smtpToken || ""} onChange={e => onChangeSmtpToken(e.target.value || undefined)} className={inputClass} /></div>
+          </div>
+          <p className="text-xs text-slate-500 dark:text-slate-400">Browsers can't talk to a mail server directly. The relay receives the message and PDF as JSON and hands them to your SMTP server.</p>
+        </div>
+      )}
+
+      <div><label className={labelClass}>Subject</label><input type="text" value={settings.subjectTemplate} onChange={e => set({ subjectTemplate: e.target.value })} className={inputClass} /></div>
+      <div><label className={labelClass}>Message</label><textarea value={settings.bodyTemplate} onChange={e => set({ bodyTemplate: e.target.value })} className={`${inputClass} h-40 resize-none`} /></div>
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        Placeholders: {TEMPLATE_PLACEHOLDERS.map(p => `{{${p}}}`).join(" ")}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { X, Upload, FileText, AlertTriangle, CheckCircle2, ChevronLeft, Copy } from "lucide-react";
+import type { Transaction, CategoryRule, Account } from "./types";
+import {
+  parseCsv,
+  parseOfx,
+  parseQif,
+  detectStatementFormat,
+  inferColumnMapping,
+  buildImportRows,
+  markDuplicates,
+  EMPTY_MAPPING,
+  type ColumnMapping,
+  type DateFormat,
+  type ImportedTransaction,
+  type StatementFormat,
+} from "./services/transactionImport";
+
+type Props = {
+  transactions: Transaction[];
+  categoryRules: CategoryRule[];
+  accounts: Account[];
+  currencySymbol: string;
+  onImport: (rows: ImportedTransaction[], accountId?: string) => void;
+  onClose: () => void;
+};
+
+type Step = "upload" | "map" | "review";
+
+const FIELD_LABELS: { field: keyof ColumnMapping; label: string; hint: string }[] = [
+  { field: "date", label: "Date", hint: "Required" },
+  { field: "description", label: "Description", hint: "Required" },
+  { field: "amount", label: "Amount", hint: "Signed: negative = expense" },
+  { field: "debit", label: "Debit / Money Out", hint: "Use instead of Amount" },
+  { field: "credit", label: "Credit / Money In", hint: "Use instead of Amount" },
+  { field: "category", label: "Category", hint: "Optional" },
+];
+
+const selectClass =
+  "w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function ImportTransactions({
+  transactions,
+  categoryRules,
+  accounts,
+  currencySymbol,
+  onImport,
+  onClose,
+}: Props) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [format, setFormat] = useState<StatementFormat>("csv");
+  const [rawText, setRawText] = useState("");
+  const [rawRows, setRawRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [dateFormat, setDateFormat] = useState<DateFormat>("auto");
+  const [invertAmounts, setInvertAmounts] = useState(false);
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [parseError, setParseError] = useState("");
+  const [accountId, setAccountId] = useState(accounts[0]?.id || "");
+
+  const columnCount = useMemo(() => rawRows.reduce((max, r) => Math.max(max, r.length), 0), [rawRows]);
+  const columnLabels = useMemo(() => {
+    return Array.from({ length: columnCount }, (_, i) =>
+      hasHeader && rawRows[0]?.[i] ? rawRows[0][i] : `Column ${i + 1}`
+    );
+  }, [rawRows, columnCount, hasHeader]);
+
+  const mappingValid =
+    mapping.date !== null &&
+    mapping.description !== null &&
+    (mapping.amount !== null || mapping.debit !== null || mapping.credit !== null);
+
+  const rows = useMemo(() => {
+    const options = { dateFormat, rules: categoryRules, defaultIncomeCategory: "Other Income", defaultExpenseCategory: "Other Expense" };
+    let built: ImportedTransaction[];
+    if (format === "ofx") built = parseOfx(rawText, options);
+    else if (format === "qif") built = parseQif(rawText, options);
+    else if (mappingValid) built = buildImportRows(rawRows, mapping, { ...options, hasHeader, invertAmounts });
+    else built = [];
+    return markDuplicates(built, transactions);
+  }, [format, rawText, mappingValid, rawRows, mapping, hasHeader, dateFormat, invertAmounts, categoryRules, transactions]);
+
+  // Likely duplicates start unticked; everything else starts ticked. Rebuilt rows (a new date
+  // format or mapping) start over, since row numbers and duplicate matches may have changed.
+  useEffect(() => {
+    if (step === "review") setExcluded(new Set(rows.filter(r => r.duplicateOf).map(r => r.rowNumber)));
+  }, [step, rows]);
+
+  const stats = useMemo(() => {
+    const valid = rows.filter(r => !r.error);
+    const selected = valid.filter(r => !excluded.has(r.rowNumber));
+    return {
+      errors: rows.length - valid.length,
+      duplicates: valid.filter(r => r.duplicateOf).length,
+      selected: selected.length,
+      income: selected.filter(r => r.type === "income").reduce((s, r) => s + r.amount, 0),
+      expense: selected.filter(r => r.type === "expense").reduce((s, r) => s + r.amount, 0),
+    };
+  }, [rows, excluded]);
+
+  const formatMoney = (n: number) =>
+    `${currencySymbol}${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = String(e.target?.result || "");
+      const detected = detectStatementFormat(file.name, text);
+      setFileName(file.name);
+      setFormat(detected);
+      setRawText(text);
+      setDateFormat("auto");
+      // OFX and QIF are self-describing, so they skip column mapping
+      if (detected !== "csv") {
+        setParseError("");
+        setStep("review");
+        return;
+      }
+      const parsed = parseCsv(text);
+      if (parsed.length === 0) {
+        setParseError("That file doesn't contain any rows.");
+        return;
+      }
+      setParseError("");
+      setRawRows(parsed);
+      setMapping(inferColumnMapping(parsed[0]));
+      setHasHeader(true);
+      setStep("map");
+    };
+    reader.onerror = () => setParseError("Could not read the file.");
+    reader.readAsText(file);
+    event.target.value = "";
+  };
+
+  const toggleRow = (rowNumber: number) => {
+    const next = new Set(excluded);
+    if (next.has(rowNumber)) next.delete(rowNumber);
+    else next.add(rowNumber);
+    setExcluded(next);
+  };
+
+  const confirmImport = () => {
+    onImport(rows.filter(r => !r.error && !excluded.has(r.rowNumber)), accountId || undefined);
+  };
+
+  return (
+    <div className="flex flex-col max-h-[90vh] bg-white dark:bg-slate-900">
+      <div className="flex-shrink-0 flex items-center justify-between px-6 py-5 border-b border-slate-200 dark:border-slate-800">
+        <div className="flex items-center gap-3">
+          {step !== "upload" && (
+            <button
+              onClick={() => setStep(step === "review" && format === "csv" ? "map" : "upload")}
+              className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800"
+              title="Back"
+            >
+              <ChevronLeft size={18} />
+            </button>
+          )}
+          <div>
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white font-brand">Import Bank Statement</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {step === "upload" ? "Choose a CSV, OFX, QFX or QIF file" : step === "map" ? `Map columns · ${fileName}` : `Review · ${fileName}`}
+            </p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        {step === "upload" && (
+          <div className="space-y-4">
+            <button
+              onClick={() => fileRef.current?.click()}
+              className="w-full flex flex-col items-center justify-center gap-3 py-12 rounded-xl border-2 border-dashed border-slate-300 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-blue-500 hover:text-blue-600 transition-colors"
+            >
+              <Upload size={32} strokeWidth={1.5} />
+              <span className="font-bold">Choose statement file</span>
+              <span className="text-xs text-slate-500 dark:text-slate-400">Export transactions from your bank's website as CSV, OFX/QFX (Quicken / Money) or QIF</span>
+            </button>
+            <input type="file" ref={fileRef} onChange={handleFile} className="hidden" accept=".csv,.ofx,.qfx,.qif,text/csv,text/plain" />
+            {parseError && <p className="text-sm text-red-600 font-medium">{parseError}</p>}
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {FIELD_LABELS.map(({ field, label, hint }) => (
+                <label key={field} className="block">
+                  <span className="block text-xs font-bold uppercase tracking-wider text-slate-600 dark:text-slate-300 mb-1">
+                    {label} <span className="normal-case font-medium text-slate-400">· {hint}</span>
+                  </span>
+                  <select
+                    value={mapping[field] === null ? "" : String(mapping[field])}
+                    onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === "" ? null : Number(e.target.value) })}
+                    className={selectClass}
+                  >
+                    <option value="">— Not in file —</option>
+                    {columnLabels.map((c, i) => <option key={i} value={i}>{c}</option>)}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300">
+                <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+                First row is a header
+              </label>
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300">
+                <input type="checkbox" checked={invertAmounts} onChange={(e) => setInvertAmounts(e.target.checked)} />
+                Spending is positive
+              </label>
+              <select value={dateFormat} onChange={(e) => setDateFormat(e.target.value as DateFormat)} className={selectClass}>
+                <option value="auto">Date format: Auto</option>
+                <option value="mdy">MM/DD/YYYY</option>
+                <option value="dmy">DD/MM/YYYY</option>
+                <option value="ymd">YYYY-MM-DD</option>
+              </select>
+            </div>
+
+            <div className="overflow-x-auto rounded-lg border border-slate-200 dark:border-slate-800">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50 dark:bg-slate-950 text-slate-600 dark:text-slate-300">
+                  <tr>{columnLabels.map((c, i) => <th key={i} className="px-3 py-2 text-left font-bold whitespace-nowrap">{c}</th>)}</tr>
+                </thead>
+                <tbody>
+                  {rawRows.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + 5).map((r, ri) => (
+                    <tr key={ri} className="border-t border-slate-200 dark:border-slate-800 text-slate-700 dark:text-slate-300">
+                      {columnLabels.map((_, ci) => <td key={ci} className="px-3 py-2 whitespace-nowrap">{r[ci] || ""}</td>)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {step === "review" && (
+          <div className="space-y-4">
+            {format === "qif" && (
+              <select value={dateFormat} onChange={(e) => setDateFormat(e.target.value as DateFormat)} className={selectClass}>
+                <option value="auto">Date format: Auto</option>
+                <option value="mdy">MM/DD/YYYY</option>
+                <option value="dmy">DD/MM/YYYY</option>
+              </select>
+            )}
+            {rows.length === 0 && (
+              <p className="text-sm text-slate-500 dark:text-slate-400">No transactions found in this file.</p>
+            )}
+            {accounts.length > 0 && (
+              <div>
+                <label className="text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block">Import Into Account</label>
+                <select value={accountId} onChange={e => setAccountId(e.target.value)} className={selectClass}>
+                  <option value="">No account</option>
+                  {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                </select>
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2 text-xs font-bold">
+              <span className="px-3 py-1 rounded-full bg-blue-100 text-blue-700 dark:bg-blue-500/10 dark:text-blue-400">{stats.selected} selected</span>
+              <span className="px-3 py-1 rounded-full bg-emerald-100 text-emerald-700 dark:bg-emerald-500/10 dark:text-emerald-400">+{formatMoney(stats.income)}</span>
+              <span className="px-3 py-1 rounded-full bg-red-100 text-red-700 dark:bg-red-500/10 dark:text-red-400">-{formatMoney(stats.expense)}</span>
+              {stats.duplicates > 0 && <span className="px-3 py-1 rounded-full bg-amber-100 text-amber-700 dark:bg-amber-500/10 dark:text-amber-400">{stats.duplicates} likely duplicates</span>}
+              {stats.errors > 0 && <span className="px-3 py-1 rounded-full bg-slate-200 text-slate-700 dark:bg-slate-800 dark:text-slate-300">{stats.errors} skipped</span>}
+            </div>
+            <div className="divide-y divide-slate-200 dark:divide-slate-800 rounded-lg border border-slate-200 dark:border-slate-800">
+              {rows.map(r => {
+                const duplicate = r.duplicateOf ? transactions.find(t => t.id === r.duplicateOf) : undefined;
+                return (
+                  <label key={r.rowNumber} className={`flex items-center gap-3 px-4 py-3 ${r.error ? "opacity-50" : "cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/50"}`}>
+                    <input type="checkbox" disabled={!!r.error} checked={!r.error && !excluded.has(r.rowNumber)} onChange={() => toggleRow(r.rowNumber)} />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-bold text-slate-900 dark:text-white truncate">{r.name}</div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                        {r.error ? (
+                          <span className="inline-flex items-center gap-1 text-red-600"><AlertTriangle size={12} /> Row {r.rowNumber}: {r.error}</span>
+                        ) : duplicate ? (
+                          <span className="inline-flex items-center gap-1 text-amber-600"><Copy size={12} /> Matches "{duplicate.name}" on {duplicate.date}</span>
+                        ) : (
+                          <>{r.date} · {r.category}</>
+                        )}
+                      </div>
+                    </div>
+                    <div className={`text-sm font-bold whitespace-nowrap ${r.type === "income" ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400"}`}>
+                      {r.type === "income" ? "+" : "-"}{formatMoney(r.amount)}
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {step !== "upload" && (
+        <div className="flex-shrink-0 flex items-center justify-between gap-3 px-6 py-4 border-t border-slate-200 dark:border-slate-800">
+          <div className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1">
+            <FileText size={14} /> {format === "csv" ? Math.max(0, rawRows.length - (hasHeader ? 1 : 0)) : rows.length} rows in file
+          </div>
+          {step === "map" ? (
+            <button
+              onClick={() => setStep("review")}
+              disabled={!mappingValid}
+              className="px-5 py-3 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold disabled:opacity-50 transition-colors"
+            >
+              Preview Rows
+            </button>
+          ) : (
+            <button
+              onClick={confirmImport}
+              disabled={stats.selected === 0}
+              className="px-5 py-3 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold disabled:opacity-50 transition-colors flex items-center gap-2"
+            >
+              <CheckCircle2 size={16} /> Import {stats.selected} {stats.selected === 1 ? "Transaction" : "Transactions"}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
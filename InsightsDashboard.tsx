@@ -33,6 +33,7 @@ type Props = {
   invoices: Invoice[];
   taxPayments: TaxPayment[];
   settings: UserSettings;
+  appCurrency: string;
   onClose: () => void;
 };
 
@@ -84,6 +85,7 @@ export default function InsightsDashboard({
   invoices,
   taxPayments,
   settings,
+  appCurrency,
   onClose,
 }: Props) {
   const [dismissed, setDismissed] = useState<Set<string>>(new Set());
@@ -96,8 +98,8 @@ export default function InsightsDashboard({
   }, []);
 
   const allInsights: Insight[] = useMemo(() => {
-    return generateInsights({ transactions, invoices, taxPayments, settings });
-  }, [transactions, invoices, taxPayments, settings]);
+    return generateInsights({ transactions, invoices, taxPayments, settings, appCurrency });
+  }, [transactions, invoices, taxPayments, settings, appCurrency]);
 
   const insightsBySeverity = useMemo(() => {
     const active = allInsights.filter((i) => !dismissed.has(i.id));
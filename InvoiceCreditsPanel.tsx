@@ -0,0 +1,103 @@
+import React, { useState } from "react";
+import { Trash2, ReceiptText, FileMinus } from "lucide-react";
+import type { AppliedCredit, ClientCredit, Invoice } from "./types";
+import { balanceDue } from "./services/invoicePayments";
+import { CREDIT_KIND_LABELS } from "./services/credits";
+
+type Props = {
+  invoice: Invoice;
+  available: { credit: ClientCredit; remaining: number }[];
+  creditNotes: ClientCredit[]; // Issued against this invoice
+  creditNoteLimit: number;
+  creditFor: (creditId: string) => ClientCredit | undefined;
+  formatMoney: (n: number) => string;
+  onApply: (credit: ClientCredit, amount: number) => void;
+  onRemove: (applied: AppliedCredit) => void;
+  onIssueCreditNote: (amount: number, reason: string) => void;
+};
+
+const inputClass =
+  "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm font-medium outline-none focus:ring-1 focus:ring-blue-500 text-slate-900 dark:text-white";
+
+export default function InvoiceCreditsPanel({ invoice, available, creditNotes, creditNoteLimit, creditFor, formatMoney, onApply, onRemove, onIssueCreditNote }: Props) {
+  const [creditId, setCreditId] = useState("");
+  const [issuing, setIssuing] = useState(false);
+  const [noteAmount, setNoteAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const applied = invoice.credits || [];
+  const due = balanceDue(invoice);
+  const selected = available.find(a => a.credit.id === creditId) || available[0];
+
+  const issue = () => {
+    onIssueCreditNote(Number(noteAmount) || 0, reason.trim());
+    setNoteAmount("");
+    setReason("");
+    setIssuing(false);
+  };
+
+  return (
+    <div className="bg-slate-50 dark:bg-slate-900 p-4 rounded-lg border border-slate-100 dark:border-slate-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-slate-500 dark:text-slate-300 uppercase tracking-wider">Credits</h4>
+        {!issuing && creditNoteLimit > 0 && (
+          <button type="button" onClick={() => setIssuing(true)} className="text-xs font-bold text-blue-600 flex items-center gap-1 hover:underline"><FileMinus size={12} /> Issue Credit Note</button>
+        )}
+      </div>
+
+      {applied.length > 0 && (
+        <div className="divide-y divide-slate-200 dark:divide-slate-800 rounded border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+          {applied.map(a => {
+            const credit = creditFor(a.creditId);
+            return (
+              <div key={a.id} className="flex items-center gap-3 px-3 py-2">
+                <ReceiptText size={14} className="text-blue-500 flex-shrink-0" />
+                <div className="flex-1 min-w-0 text-sm text-slate-700 dark:text-slate-200 truncate">
+                  {credit ? `${CREDIT_KIND_LABELS[credit.kind]} ${credit.number}` : "Deleted credit"} · {a.date}
+                </div>
+                <div className="text-sm font-bold text-slate-900 dark:text-white whitespace-nowrap">-{formatMoney(a.amount)}</div>
+                <button type="button" onClick={() => onRemove(a)} className="p-1 text-slate-400 hover:text-red-600" title="Remove credit"><Trash2 size={14} /></button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {creditNotes.length > 0 && (
+        <div className="text-xs text-slate-500 dark:text-slate-400 space-y-0.5">
+          {creditNotes.map(c => <div key={c.id}>{c.number} issued {c.date} for {formatMoney(c.amount)}{c.reason ? ` · ${c.reason}` : ""}</div>)}
+        </div>
+      )}
+
+      {due > 0 && selected && (
+        <div className="flex gap-2">
+          <select value={selected.credit.id} onChange={e => setCreditId(e.target.value)} className={inputClass}>
+            {available.map(({ credit, remaining }) => (
+              <option key={credit.id} value={credit.id}>{CREDIT_KIND_LABELS[credit.kind]} {credit.number} · {formatMoney(remaining)} left</option>
+            ))}
+          </select>
+          <button type="button" onClick={() => onApply(selected.credit, Math.min(selected.remaining, due))} className="px-4 rounded bg-blue-600 hover:bg-blue-700 text-white text-xs font-bold uppercase tracking-wider whitespace-nowrap transition-colors">
+            Apply {formatMoney(Math.min(selected.remaining, due))}
+          </button>
+        </div>
+      )}
+
+      {issuing && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            <input type="number" min="0" step="0.01" value={noteAmount} onChange={e => setNoteAmount(e.target.value)} className={inputClass} placeholder={creditNoteLimit.toFixed(2)} title="Credit amount" />
+            <input type="text" value={reason} onChange={e => setReason(e.target.value)} className={`${inputClass} col-span-2`} placeholder="Reason (printed on the invoice)" />
+          </div>
+          <div className="flex gap-2">
+            <button type="button" onClick={() => setIssuing(false)} className="flex-1 py-2 rounded border border-slate-200 dark:border-slate-700 text-xs font-bold text-slate-600 dark:text-slate-300">Cancel</button>
+            <button type="button" onClick={issue} disabled={!(Number(noteAmount) > 0)} className="flex-1 py-2 rounded bg-blue-600 hover:bg-blue-700 text-white text-xs font-bold uppercase tracking-wider disabled:opacity-50 transition-colors">Issue Credit Note</button>
+          </div>
+          <p className="text-xs text-slate-500 dark:text-slate-400">The credit comes off this invoice's balance. Anything beyond the balance stays on the client's account for future invoices.</p>
+        </div>
+      )}
+
+      {applied.length === 0 && creditNotes.length === 0 && available.length === 0 && !issuing && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">No credits for this client. Record a retainer on the client's page, or issue a credit note to correct this invoice.</p>
+      )}
+    </div>
+  );
+}
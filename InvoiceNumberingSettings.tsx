@@ -0,0 +1,52 @@
+import React from "react";
+import type { Invoice, InvoiceNumbering } from "./types";
+import { issueInvoiceNumber } from "./services/invoiceNumbering";
+
+type Props = {
+  scheme: InvoiceNumbering;
+  invoices: Invoice[];
+  onChange: (scheme: InvoiceNumbering) => void;
+};
+
+const inputClass =
+  "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm font-medium outline-none focus:ring-1 focus:ring-blue-500 text-slate-900 dark:text-white";
+
+const labelClass = "text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block";
+
+export default function InvoiceNumberingSettings({ scheme, invoices, onChange }: Props) {
+  const set = (patch: Partial<InvoiceNumbering>) => onChange({ ...scheme, ...patch });
+  const next = issueInvoiceNumber(scheme, new Date().toISOString().split("T")[0], invoices).number;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-500 dark:text-slate-400">
+        Every invoice gets the next number when it is saved. You can still type a number by hand; numbers already in use are rejected.
+      </p>
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className={labelClass}>Prefix</label>
+          <input type="text" value={scheme.prefix} onChange={e => set({ prefix: e.target.value.replace(/\s+/g, "") })} className={inputClass} placeholder="INV" />
+        </div>
+        <div>
+          <label className={labelClass}>Next Number</label>
+          <input type="number" min="1" value={scheme.nextNumber} onChange={e => set({ nextNumber: Math.max(1, Math.floor(Number(e.target.value)) || 1), lastYear: new Date().getFullYear() })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Digits</label>
+          <input type="number" min="1" max="8" value={scheme.padding} onChange={e => set({ padding: Math.min(8, Math.max(1, Math.floor(Number(e.target.value)) || 1)) })} className={inputClass} />
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300">
+        <input type="checkbox" checked={scheme.includeYear} onChange={e => set({ includeYear: e.target.checked })} className="rounded" />
+        Include the invoice year
+      </label>
+      <label className={`flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300 ${scheme.includeYear ? "" : "opacity-50"}`}>
+        <input type="checkbox" checked={scheme.resetYearly} disabled={!scheme.includeYear} onChange={e => set({ resetYearly: e.target.checked })} className="rounded" />
+        Start again at 1 each year
+      </label>
+      <div className="text-xs text-slate-500 dark:text-slate-400">
+        Next invoice: <span className="font-bold text-slate-900 dark:text-white">{next}</span>
+      </div>
+    </div>
+  );
+}
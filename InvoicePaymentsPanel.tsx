@@ -0,0 +1,78 @@
+import React, { useState } from "react";
+import { Plus, Trash2, Wallet } from "lucide-react";
+import type { Invoice, InvoicePayment } from "./types";
+import { amountPaid, balanceDue } from "./services/invoicePayments";
+
+type Props = {
+  invoice: Invoice;
+  payMethods: string[];
+  formatMoney: (n: number) => string;
+  // Set when the invoice is billed in another currency: income is booked in the app's, so the amount that arrived is asked for
+  booked?: { currency: string; formatMoney: (n: number) => string };
+  onRecord: (entry: { amount: number; date: string; method?: string; bookedAmount?: number }) => void;
+  onRemove: (payment: InvoicePayment) => void;
+};
+
+const inputClass =
+  "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm font-medium outline-none focus:ring-1 focus:ring-blue-500 text-slate-900 dark:text-white";
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export default function InvoicePaymentsPanel({ invoice, payMethods, formatMoney, booked, onRecord, onRemove }: Props) {
+  const [amount, setAmount] = useState("");
+  const [bookedAmount, setBookedAmount] = useState("");
+  const [date, setDate] = useState(today);
+  const [method, setMethod] = useState(invoice.payMethod || "");
+  const payments = invoice.payments || [];
+  const due = balanceDue(invoice);
+
+  const record = () => {
+    onRecord({ amount: amount.trim() === "" ? due : Number(amount) || 0, date, method: method || undefined, bookedAmount: booked ? Number(bookedAmount) || 0 : undefined });
+    setAmount("");
+    setBookedAmount("");
+  };
+
+  return (
+    <div className="bg-slate-50 dark:bg-slate-900 p-4 rounded-lg border border-slate-100 dark:border-slate-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-slate-500 dark:text-slate-300 uppercase tracking-wider">Payments</h4>
+        <div className="text-xs font-bold text-slate-600 dark:text-slate-300">
+          {formatMoney(amountPaid(invoice))} paid · <span className={due > 0 ? "text-amber-600 dark:text-amber-400" : "text-emerald-600 dark:text-emerald-400"}>{formatMoney(due)} due</span>
+        </div>
+      </div>
+
+      {payments.length > 0 && (
+        <div className="divide-y divide-slate-200 dark:divide-slate-800 rounded border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+          {payments.map(p => (
+            <div key={p.id} className="flex items-center gap-3 px-3 py-2">
+              <Wallet size={14} className="text-emerald-500 flex-shrink-0" />
+              <div className="flex-1 min-w-0 text-sm text-slate-700 dark:text-slate-200 truncate">{p.date}{p.method ? ` · ${p.method}` : ""}{booked && p.bookedAmount !== undefined ? ` · ${booked.formatMoney(p.bookedAmount)} received` : ""}</div>
+              <div className="text-sm font-bold text-slate-900 dark:text-white whitespace-nowrap">{formatMoney(p.amount)}</div>
+              <button type="button" onClick={() => onRemove(p)} className="p-1 text-slate-400 hover:text-red-600" title="Remove payment"><Trash2 size={14} /></button>
+            </div>
+          ))}
+        </div>
+      )}
+      {payments.length === 0 && invoice.status === "paid" && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">Marked paid before individual payments were recorded.</p>
+      )}
+
+      {due > 0 && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            <input type="number" min="0" step="0.01" value={amount} onChange={e => setAmount(e.target.value)} className={inputClass} placeholder={due.toFixed(2)} title="Amount received" />
+            <input type="date" value={date} onChange={e => setDate(e.target.value)} className={inputClass} />
+            <select value={method} onChange={e => setMethod(e.target.value)} className={inputClass}>
+              <option value="">Method</option>
+              {payMethods.map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+          </div>
+          {booked && <input type="number" min="0" step="0.01" value={bookedAmount} onChange={e => setBookedAmount(e.target.value)} className={inputClass} placeholder={`Received in ${booked.currency}`} />}
+          <button type="button" onClick={record} disabled={!date || (!!booked && !(Number(bookedAmount) > 0))} className="w-full flex items-center justify-center gap-2 py-2.5 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-bold uppercase tracking-wider disabled:opacity-50 transition-colors">
+            <Plus size={14} /> Record Payment
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import React from "react";
+import { BellRing, Copy, Check, Plus } from "lucide-react";
+import type { Invoice, LateFeeRule } from "./types";
+import { describeLateFeeRule, type PendingLateFee } from "./services/lateFees";
+import { reminderLabel } from "./services/paymentReminders";
+import { LateFeeRuleFields } from "./LateFeeSettings";
+
+type Props = {
+  invoice: Invoice;
+  defaultRule: LateFeeRule;
+  currencySymbol: string;
+  pendingFees: PendingLateFee[];
+  reminder?: { offsetDays: number; subject: string; body: string }; // Due to go out now
+  next?: { offsetDays: number; date: string };
+  formatMoney: (n: number) => string;
+  onChangeRule: (rule: LateFeeRule | undefined) => void; // undefined goes back to the default
+  onAddFees: () => void;
+  onCopy: (text: string) => void;
+  onMarkSent: (offsetDays: number) => void;
+};
+
+const inputClass =
+  "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm font-medium outline-none focus:ring-1 focus:ring-blue-500 text-slate-900 dark:text-white";
+
+export default function InvoiceRemindersPanel({ invoice, defaultRule, currencySymbol, pendingFees, reminder, next, formatMoney, onChangeRule, onAddFees, onCopy, onMarkSent }: Props) {
+  const source = !invoice.lateFeeRule ? "default" : invoice.lateFeeRule.enabled ? "custom" : "none";
+  const effective = source === "default" ? (defaultRule.enabled ? defaultRule : undefined) : source === "custom" ? invoice.lateFeeRule : undefined;
+  const sent = [...(invoice.reminders || [])].reverse();
+
+  const pickSource = (value: string) => {
+    if (value === "default") onChangeRule(undefined);
+    else if (value === "none") onChangeRule({ ...(invoice.lateFeeRule || defaultRule), enabled: false });
+    else onChangeRule({ ...(invoice.lateFeeRule || defaultRule), enabled: true });
+  };
+
+  return (
+    <div className="bg-slate-50 dark:bg-slate-900 p-4 rounded-lg border border-slate-100 dark:border-slate-800 space-y-4">
+      <h4 className="text-xs font-bold text-slate-500 dark:text-slate-300 uppercase tracking-wider">Late Fees & Reminders</h4>
+
+      <div className="space-y-2">
+        <select value={source} onChange={e => pickSource(e.target.value)} className={inputClass}>
+          <option value="default">Default late fee{defaultRule.enabled ? "" : " (off)"}</option>
+          <option value="custom">Custom late fee for this invoice</option>
+          <option value="none">No late fees</option>
+        </select>
+        {source === "custom" && invoice.lateFeeRule && <LateFeeRuleFields rule={invoice.lateFeeRule} currencySymbol={currencySymbol} onChange={onChangeRule} />}
+        {effective && <p className="text-xs text-slate-500 dark:text-slate-400">{describeLateFeeRule(effective, formatMoney)}</p>}
+        {pendingFees.length > 0 && (
+          <div className="flex items-center justify-between gap-3 rounded border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 px-3 py-2">
+            <div className="text-xs font-bold text-amber-700 dark:text-amber-400">
+              {pendingFees.length === 1 ? "A late fee" : `${pendingFees.length} late fees`} of {formatMoney(pendingFees.reduce((sum, f) => sum + f.amount, 0))} can be added
+            </div>
+            <button type="button" onClick={onAddFees} className="flex items-center gap-1 text-xs font-bold text-amber-700 dark:text-amber-400 hover:underline whitespace-nowrap"><Plus size={12} /> Add to Invoice</button>
+          </div>
+        )}
+      </div>
+
+      {reminder ? (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-xs font-bold text-blue-600 dark:text-blue-400"><BellRing size={14} /> Reminder due · {reminderLabel(reminder.offsetDays)}</div>
+          <input type="text" readOnly value={reminder.subject} className={inputClass} />
+          <textarea readOnly value={reminder.body} className={`${inputClass} h-40 resize-none`} />
+          <div className="flex gap-2">
+            <button type="button" onClick={() => onCopy(`${reminder.subject}\n\n${reminder.body}`)} className="flex-1 flex items-center justify-center gap-2 py-2 rounded border border-slate-200 dark:border-slate-700 text-xs font-bold text-slate-600 dark:text-slate-300"><Copy size={14} /> Copy Text</button>
+            <button type="button" onClick={() => onMarkSent(reminder.offsetDays)} className="flex-1 flex items-center justify-center gap-2 py-2 rounded bg-blue-600 hover:bg-blue-700 text-white text-xs font-bold uppercase tracking-wider transition-colors"><Check size={14} /> Mark Sent</button>
+          </div>
+        </div>
+      ) : next ? (
+        <p className="text-xs text-slate-500 dark:text-slate-400">Next reminder: {reminderLabel(next.offsetDays).toLowerCase()} ({next.date})</p>
+      ) : null}
+
+      {sent.length > 0 && (
+        <div className="text-xs text-slate-500 dark:text-slate-400 space-y-0.5">
+          {sent.map(r => <div key={`${r.offsetDays}_${r.sentAt}`}>{reminderLabel(r.offsetDays)} reminder sent {new Date(r.sentAt).toLocaleString()}</div>)}
+        </div>
+      )}
+    </div>
+  );
+}
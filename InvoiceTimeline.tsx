@@ -0,0 +1,30 @@
+import React from "react";
+import type { Invoice } from "./types";
+import { statusTimeline } from "./services/invoiceStatus";
+
+type Props = {
+  invoice: Invoice;
+};
+
+// Steps carry a full timestamp, except the "created" step of older invoices which only has the invoice date
+const formatWhen = (at: string) => (at.includes("T") ? new Date(at).toLocaleString() : at);
+
+export default function InvoiceTimeline({ invoice }: Props) {
+  const steps = statusTimeline(invoice);
+
+  return (
+    <div className="bg-slate-50 dark:bg-slate-900 p-4 rounded-lg border border-slate-100 dark:border-slate-800">
+      <h4 className="text-xs font-bold text-slate-500 dark:text-slate-300 uppercase tracking-wider mb-3">Status Timeline</h4>
+      <ol className="relative border-l border-slate-200 dark:border-slate-700 ml-1.5 space-y-3">
+        {steps.map((step, idx) => (
+          <li key={idx} className="pl-4 relative">
+            <span className={`absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full ${idx === steps.length - 1 ? "bg-blue-600" : "bg-slate-300 dark:bg-slate-600"}`} />
+            <div className="text-sm font-bold text-slate-900 dark:text-white">{step.label}</div>
+            {step.at && <div className="text-xs text-slate-500 dark:text-slate-400">{formatWhen(step.at)}</div>}
+          </li>
+        ))}
+      </ol>
+      {invoice.sentAt && <p className="text-xs text-slate-500 dark:text-slate-400 mt-3">Last emailed {new Date(invoice.sentAt).toLocaleString()}</p>}
+    </div>
+  );
+}
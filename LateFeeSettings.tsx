@@ -0,0 +1,95 @@
+import React, { useState } from "react";
+import { X, Plus } from "lucide-react";
+import type { LateFeeKind, LateFeeRule } from "./types";
+import { reminderLabel } from "./services/paymentReminders";
+
+const inputClass =
+  "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm font-medium outline-none focus:ring-1 focus:ring-blue-500 text-slate-900 dark:text-white";
+
+const labelClass = "text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block";
+
+type RuleProps = {
+  rule: LateFeeRule;
+  currencySymbol: string;
+  onChange: (rule: LateFeeRule) => void;
+};
+
+export function LateFeeRuleFields({ rule, currencySymbol, onChange }: RuleProps) {
+  const set = (patch: Partial<LateFeeRule>) => onChange({ ...rule, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className={labelClass}>Fee</label>
+          <select value={rule.kind} onChange={e => set({ kind: e.target.value as LateFeeKind })} className={inputClass}>
+            <option value="percent">Percent</option>
+            <option value="flat">Flat ({currencySymbol})</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{rule.kind === "percent" ? "Percent" : "Amount"}</label>
+          <input type="number" min="0" step="0.01" value={rule.amount} onChange={e => set({ amount: Math.max(0, Number(e.target.value) || 0) })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Days After Due</label>
+          <input type="number" min="0" value={rule.graceDays} onChange={e => set({ graceDays: Math.max(0, Math.floor(Number(e.target.value)) || 0) })} className={inputClass} />
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300">
+        <input type="checkbox" checked={rule.compoundMonthly} onChange={e => set({ compoundMonthly: e.target.checked })} className="rounded" />
+        Charge again every 30 days while unpaid
+      </label>
+    </div>
+  );
+}
+
+type Props = {
+  rule: LateFeeRule;
+  schedule: number[];
+  currencySymbol: string;
+  onChangeRule: (rule: LateFeeRule) => void;
+  onChangeSchedule: (schedule: number[]) => void;
+};
+
+export default function LateFeeSettings({ rule, schedule, currencySymbol, onChangeRule, onChangeSchedule }: Props) {
+  const [offset, setOffset] = useState("");
+
+  const addStep = () => {
+    if (offset.trim() === "") return;
+    const days = Math.round(Number(offset));
+    if (!Number.isFinite(days)) return;
+    onChangeSchedule(Array.from(new Set([...schedule, days])).sort((a, b) => a - b));
+    setOffset("");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <label className="flex items-center gap-2 text-sm font-bold text-slate-700 dark:text-slate-300">
+          <input type="checkbox" checked={rule.enabled} onChange={e => onChangeRule({ ...rule, enabled: e.target.checked })} className="rounded" />
+          Charge late fees on overdue invoices
+        </label>
+        {rule.enabled && <LateFeeRuleFields rule={rule} currencySymbol={currencySymbol} onChange={onChangeRule} />}
+        <p className="text-xs text-slate-500 dark:text-slate-400">Fees are added as a line on the invoice when you apply them. Any invoice can use its own rule or none.</p>
+      </div>
+
+      <div className="space-y-3">
+        <h5 className={labelClass}>Reminder Schedule</h5>
+        <div className="flex flex-wrap gap-2">
+          {schedule.map(step => (
+            <span key={step} className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-xs font-bold text-slate-700 dark:text-slate-300">
+              {reminderLabel(step)}
+              <button onClick={() => onChangeSchedule(schedule.filter(s => s !== step))} className="p-0.5 text-slate-400 hover:text-red-600" title="Remove"><X size={12} /></button>
+            </span>
+          ))}
+          {schedule.length === 0 && <span className="text-xs text-slate-500 dark:text-slate-400">No reminders scheduled.</span>}
+        </div>
+        <div className="flex gap-2">
+          <input type="number" value={offset} onChange={e => setOffset(e.target.value)} className={inputClass} placeholder="Days after due (negative for before)" />
+          <button onClick={addStep} disabled={offset.trim() === ""} className="flex items-center gap-1 px-4 rounded bg-blue-600 hover:bg-blue-700 text-white text-xs font-bold uppercase tracking-wider whitespace-nowrap disabled:opacity-50 transition-colors"><Plus size={14} /> Add</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import React, { useState } from "react";
+import { Search, SlidersHorizontal, X, Bookmark, BookmarkPlus } from "lucide-react";
+import type { LedgerFilterPreset, LedgerQuery } from "./types";
+import { EMPTY_LEDGER_QUERY, describeQuery, isQueryActive } from "./services/ledgerFilter";
+
+type Props = {
+  query: LedgerQuery;
+  onChange: (query: LedgerQuery) => void;
+  categoryOptions: string[];
+  presets: LedgerFilterPreset[];
+  currencySymbol: string;
+  resultCount: number;
+  onApplyPreset: (preset: LedgerFilterPreset) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+};
+
+const inputClass =
+  "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg px-3 py-2 text-sm font-medium outline-none focus:ring-1 focus:ring-blue-500 text-slate-900 dark:text-white";
+
+const labelClass = "block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1";
+
+const parseAmount = (value: string) => (value.trim() === "" || isNaN(Number(value)) ? undefined : Math.abs(Number(value)));
+
+export default function LedgerFilterPanel({
+  query,
+  onChange,
+  categoryOptions,
+  presets,
+  currencySymbol,
+  resultCount,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset,
+}: Props) {
+  const [open, setOpen] = useState(false);
+  const [presetName, setPresetName] = useState("");
+  const active = isQueryActive(query);
+  const advancedCount =
+    (query.minAmount !== undefined || query.maxAmount !== undefined ? 1 : 0) +
+    (query.fromDate || query.toDate ? 1 : 0) +
+    (query.categories.length > 0 ? 1 : 0);
+
+  const update = (patch: Partial<LedgerQuery>) => onChange({ ...query, ...patch });
+
+  const toggleCategory = (category: string) =>
+    update({
+      categories: query.categories.includes(category)
+        ? query.categories.filter(c => c !== category)
+        : [...query.categories, category],
+    });
+
+  const savePreset = () => {
+    if (!presetName.trim()) return;
+    onSavePreset(presetName.trim());
+    setPresetName("");
+  };
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex gap-2">
+        <div className="relative flex-1 min-w-0">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            type="search"
+            value={query.text}
+            onChange={e => update({ text: e.target.value })}
+            placeholder="Search name, notes, category, client, invoice #"
+            className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg pl-9 pr-3 py-3 text-sm font-medium text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500/20"
+          />
+        </div>
+        <button
+          onClick={() => setOpen(!open)}
+          title="Filters"
+          className={`relative flex items-center gap-2 px-4 rounded-lg border text-sm font-bold transition-all ${open || advancedCount > 0 ? "bg-blue-50 dark:bg-blue-500/10 border-blue-500/30 text-blue-600 dark:text-blue-400" : "bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 text-slate-600 dark:text-slate-300"}`}
+        >
+          <SlidersHorizontal size={16} />
+          {advancedCount > 0 && <span className="text-xs">{advancedCount}</span>}
+        </button>
+      </div>
+
+      {presets.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {presets.map(p => (
+            <span key={p.id} className="inline-flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-slate-100 dark:bg-slate-800 text-xs font-bold text-slate-700 dark:text-slate-200">
+              <button onClick={() => onApplyPreset(p)} title={describeQuery(p.query, currencySymbol)} className="flex items-center gap-1 hover:text-blue-600">
+                <Bookmark size={12} /> {p.name}
+              </button>
+              <button onClick={() => onDeletePreset(p.id)} title="Delete saved filter" className="p-0.5 text-slate-400 hover:text-red-600">
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {open && (
+        <div className="bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Min Amount</label>
+              <input type="number" min="0" step="0.01" value={query.minAmount ?? ""} onChange={e => update({ minAmount: parseAmount(e.target.value) })} className={inputClass} placeholder={`${currencySymbol}0`} />
+            </div>
+            <div>
+              <label className={labelClass}>Max Amount</label>
+              <input type="number" min="0" step="0.01" value={query.maxAmount ?? ""} onChange={e => update({ maxAmount: parseAmount(e.target.value) })} className={inputClass} placeholder="Any" />
+            </div>
+            <div>
+              <label className={labelClass}>From</label>
+              <input type="date" value={query.fromDate || ""} onChange={e => update({ fromDate: e.target.value || undefined })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>To</label>
+              <input type="date" value={query.toDate || ""} onChange={e => update({ toDate: e.target.value || undefined })} className={inputClass} />
+            </div>
+          </div>
+          {(query.fromDate || query.toDate) && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">The date range replaces the period selector above.</p>
+          )}
+
+          {categoryOptions.length > 0 && (
+            <div>
+              <label className={labelClass}>Categories</label>
+              <div className="flex flex-wrap gap-2">
+                {categoryOptions.map(c => {
+                  const on = query.categories.includes(c);
+                  return (
+                    <button key={c} onClick={() => toggleCategory(c)} className={`px-3 py-1 rounded-full text-xs font-bold border transition-colors ${on ? "bg-blue-600 border-blue-600 text-white" : "bg-white dark:bg-slate-950 border-slate-200 dark:border-slate-800 text-slate-600 dark:text-slate-300 hover:border-blue-500/30"}`}>
+                      {c}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <input value={presetName} onChange={e => setPresetName(e.target.value)} onKeyDown={e => e.key === "Enter" && savePreset()} className={inputClass} placeholder="Name this filter to save it" />
+            <button onClick={savePreset} disabled={!active || !presetName.trim()} className="flex items-center gap-1 px-4 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-xs font-bold uppercase tracking-wider disabled:opacity-50">
+              <BookmarkPlus size={14} /> Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      {active && (
+        <div className="flex items-center justify-between px-1 text-xs text-slate-500 dark:text-slate-400">
+          <span>{resultCount} {resultCount === 1 ? "match" : "matches"} · {describeQuery(query, currencySymbol)}</span>
+          <button onClick={() => onChange(EMPTY_LEDGER_QUERY)} className="font-bold text-blue-600 hover:underline">Clear</button>
+        </div>
+      )}
+    </div>
+  );
+}
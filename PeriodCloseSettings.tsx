@@ -0,0 +1,53 @@
+import React from "react";
+import type { PeriodUnlock } from "./types";
+import { previousQuarterEnd } from "./services/periodClose";
+
+type Props = {
+  closingDate?: string;
+  unlocks: PeriodUnlock[];
+  onChangeClosingDate: (date: string | undefined) => void;
+};
+
+const inputClass =
+  "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm font-medium outline-none focus:ring-1 focus:ring-blue-500 text-slate-900 dark:text-white";
+
+export default function PeriodCloseSettings({ closingDate, unlocks, onChangeClosingDate }: Props) {
+  return (
+    <div className="space-y-5">
+      <p className="text-sm text-slate-500 dark:text-slate-400">
+        Transactions and invoices dated on or before the closing date can't be added, edited or deleted, so filed estimates keep matching the books.
+        To change one anyway, give a reason when asked. That unlocks the period for that change only, and it's logged below.
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block">Closing Date</label>
+          <input type="date" value={closingDate || ""} onChange={e => onChangeClosingDate(e.target.value || undefined)} className={inputClass} />
+        </div>
+        <div className="flex items-end gap-2">
+          <button onClick={() => onChangeClosingDate(previousQuarterEnd())} className="flex-1 py-2 rounded bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-700 text-xs font-bold uppercase tracking-wider transition-colors">
+            Close Last Quarter
+          </button>
+          {closingDate && (
+            <button onClick={() => onChangeClosingDate(undefined)} className="flex-1 py-2 rounded bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-700 text-xs font-bold uppercase tracking-wider transition-colors">
+              Remove
+            </button>
+          )}
+        </div>
+      </div>
+
+      {unlocks.length > 0 && (
+        <div>
+          <h5 className="text-xs font-bold uppercase tracking-widest text-slate-600 dark:text-slate-300 mb-2">Unlock History</h5>
+          <div className="max-h-48 overflow-y-auto divide-y divide-slate-200 dark:divide-slate-800 rounded-lg border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+            {[...unlocks].reverse().map(u => (
+              <div key={u.id} className="px-4 py-2">
+                <div className="text-sm font-bold text-slate-900 dark:text-white">{u.reason}</div>
+                <div className="text-xs text-slate-500 dark:text-slate-400">{new Date(u.at).toLocaleString()}{u.change ? ` · ${u.change}` : ""} · closed through {u.closingDate}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
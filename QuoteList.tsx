@@ -0,0 +1,65 @@
+import React, { useMemo } from "react";
+import { Plus, Download, ArrowRightCircle, Trash2, ClipboardList } from "lucide-react";
+import type { Quote, QuoteStatus } from "./types";
+import { QUOTE_STATUS_LABELS, quoteStatus } from "./services/quotes";
+
+type Props = {
+  quotes: Quote[];
+  formatMoney: (n: number, currency?: string) => string;
+  onNew: () => void;
+  onOpen: (quote: Quote) => void;
+  onExport: (quote: Quote) => void;
+  onConvert: (quote: Quote) => void;
+  onDelete: (quote: Quote) => void;
+};
+
+const STATUS_BADGE: Record<QuoteStatus, string> = {
+  draft: "bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300",
+  sent: "bg-blue-100 text-blue-700 dark:bg-blue-500/10 dark:text-blue-400",
+  accepted: "bg-green-100 text-green-700 dark:bg-green-500/10 dark:text-green-400",
+  declined: "bg-red-100 text-red-700 dark:bg-red-500/10 dark:text-red-400",
+  expired: "bg-amber-100 text-amber-700 dark:bg-amber-500/10 dark:text-amber-400",
+};
+
+export default function QuoteList({ quotes, formatMoney, onNew, onOpen, onExport, onConvert, onDelete }: Props) {
+  const rows = useMemo(() => {
+    const today = new Date().toISOString().split("T")[0];
+    return [...quotes]
+      .sort((a, b) => b.date.localeCompare(a.date) || b.number.localeCompare(a.number))
+      .map(quote => ({ quote, status: quoteStatus(quote, today) }));
+  }, [quotes]);
+
+  if (rows.length === 0) {
+    return (
+      <div className="text-center py-12 text-slate-500 dark:text-slate-400">
+        <ClipboardList size={32} className="mx-auto mb-3 opacity-60" />
+        <p className="text-sm mb-4">Send a quote before the work starts. Once the client accepts, turn it into an invoice with the same line items.</p>
+        <button onClick={onNew} className="inline-flex items-center gap-2 px-4 py-3 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold transition-colors"><Plus size={16} /> New Quote</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y divide-slate-200 dark:divide-slate-800 rounded-lg border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+      {rows.map(({ quote, status }) => (
+        <div key={quote.id} onClick={() => onOpen(quote)} className="flex items-center gap-3 px-4 py-3 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors">
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <div className="text-sm font-bold text-slate-900 dark:text-white truncate">{quote.client}</div>
+              <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider ${STATUS_BADGE[status]}`}>{QUOTE_STATUS_LABELS[status]}</span>
+            </div>
+            <div className="text-xs text-slate-500 dark:text-slate-400 truncate">
+              #{quote.number} · {quote.description} · {quote.invoiceId ? "Invoiced" : `Valid until ${quote.validUntil}`}
+            </div>
+          </div>
+          <div className="text-sm font-bold text-slate-900 dark:text-white whitespace-nowrap">{formatMoney(quote.amount, quote.currency)}</div>
+          <button onClick={e => { e.stopPropagation(); onExport(quote); }} className="p-1 text-slate-400 hover:text-blue-600" title="Export PDF"><Download size={16} /></button>
+          {!quote.invoiceId && status !== "declined" && (
+            <button onClick={e => { e.stopPropagation(); onConvert(quote); }} className="p-1 text-slate-400 hover:text-emerald-600" title="Convert to Invoice"><ArrowRightCircle size={16} /></button>
+          )}
+          <button onClick={e => { e.stopPropagation(); onDelete(quote); }} className="p-1 text-slate-400 hover:text-red-600" title="Delete"><Trash2 size={16} /></button>
+        </div>
+      ))}
+    </div>
+  );
+}
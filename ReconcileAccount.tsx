@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from "react";
+import { X, Lock, CheckCircle2, RotateCcw, AlertTriangle } from "lucide-react";
+import type { Account, Reconciliation, Transaction } from "./types";
+import { balanceEffect } from "./services/accounts";
+import {
+  clearedBalance,
+  lastReconciliation,
+  reconciliationCandidates,
+  reconciliationDifference,
+} from "./services/reconciliation";
+
+type Props = {
+  account: Account;
+  transactions: Transaction[];
+  reconciliations: Reconciliation[];
+  formatMoney: (n: number) => string;
+  onToggleCleared: (ids: string[], cleared: boolean) => void;
+  onFinish: (statementDate: string, statementBalance: number) => void;
+  onUndo: (reconciliation: Reconciliation) => void;
+  onClose: () => void;
+};
+
+const inputClass =
+  "w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function ReconcileAccount({
+  account,
+  transactions,
+  reconciliations,
+  formatMoney,
+  onToggleCleared,
+  onFinish,
+  onUndo,
+  onClose,
+}: Props) {
+  const previous = lastReconciliation(reconciliations, account.id);
+  const [statementDate, setStatementDate] = useState(new Date().toISOString().split("T")[0]);
+  const [statementBalance, setStatementBalance] = useState("");
+
+  // Cleared flags are saved as they are ticked, so progress survives closing the dialog
+  const candidates = useMemo(
+    () => reconciliationCandidates(account.id, transactions, statementDate),
+    [account.id, transactions, statementDate]
+  );
+  const cleared = useMemo(() => clearedBalance(account, transactions, statementDate), [account, transactions, statementDate]);
+  const difference = statementBalance === "" ? null : reconciliationDifference(Number(statementBalance), cleared);
+  const clearedCount = candidates.filter(t => t.cleared).length;
+  const beforePrevious = !!previous && statementDate <= previous.statementDate;
+  const canFinish = difference === 0 && !beforePrevious;
+
+  return (
+    <div className="flex flex-col max-h-[90vh] bg-white dark:bg-slate-900">
+      <div className="flex-shrink-0 flex items-center justify-between px-6 py-5 border-b border-slate-200 dark:border-slate-800">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white font-brand">Reconcile {account.name}</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {previous ? `Last reconciled through ${previous.statementDate} at ${formatMoney(previous.statementBalance)}` : "Not reconciled yet"}
+          </p>
+        </div>
+        <button onClick={onClose} className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="block text-xs font-bold uppercase tracking-wider text-slate-600 dark:text-slate-300 mb-1">Statement Ending Date</span>
+            <input type="date" value={statementDate} onChange={e => setStatementDate(e.target.value)} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="block text-xs font-bold uppercase tracking-wider text-slate-600 dark:text-slate-300 mb-1">Statement Ending Balance</span>
+            <input type="number" value={statementBalance} onChange={e => setStatementBalance(e.target.value)} className={inputClass} placeholder="0.00" />
+          </label>
+        </div>
+        {beforePrevious && (
+          <p className="text-sm text-red-600 font-medium flex items-center gap-2"><AlertTriangle size={14} /> Choose a date after {previous!.statementDate}.</p>
+        )}
+
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800">
+            <div className="text-xs font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400">Cleared</div>
+            <div className="text-base font-bold text-slate-900 dark:text-white">{formatMoney(cleared)}</div>
+          </div>
+          <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800">
+            <div className="text-xs font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400">Statement</div>
+            <div className="text-base font-bold text-slate-900 dark:text-white">{statementBalance === "" ? "—" : formatMoney(Number(statementBalance))}</div>
+          </div>
+          <div className={`p-3 rounded-lg border ${difference === 0 ? "bg-emerald-50 border-emerald-200 dark:bg-emerald-500/10 dark:border-emerald-900/40" : "bg-amber-50 border-amber-200 dark:bg-amber-500/10 dark:border-amber-900/40"}`}>
+            <div className="text-xs font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400">Difference</div>
+            <div className={`text-base font-bold ${difference === 0 ? "text-emerald-600 dark:text-emerald-400" : "text-amber-600 dark:text-amber-400"}`}>{difference === null ? "—" : formatMoney(difference)}</div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h5 className="text-xs font-bold uppercase tracking-widest text-slate-600 dark:text-slate-300">
+              {clearedCount} of {candidates.length} cleared
+            </h5>
+            {candidates.length > 0 && (
+              <button
+                onClick={() => onToggleCleared(candidates.map(t => t.id), clearedCount < candidates.length)}
+                className="text-xs font-bold text-blue-600 hover:underline"
+              >
+                {clearedCount < candidates.length ? "Mark All Cleared" : "Clear All"}
+              </button>
+            )}
+          </div>
+          {candidates.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">No unreconciled transactions on or before this date.</p>
+          ) : (
+            <div className="divide-y divide-slate-200 dark:divide-slate-800 rounded-lg border border-slate-200 dark:border-slate-800">
+              {candidates.map(t => {
+                const effect = balanceEffect(t, account.id);
+                return (
+                  <label key={t.id} className="flex items-center gap-3 px-4 py-3 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/50">
+                    <input type="checkbox" checked={!!t.cleared} onChange={() => onToggleCleared([t.id], !t.cleared)} />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-bold text-slate-900 dark:text-white truncate">{t.name}</div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400 truncate">{t.date} · {t.category}</div>
+                    </div>
+                    <div className={`text-sm font-bold whitespace-nowrap ${effect >= 0 ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400"}`}>
+                      {effect >= 0 ? "+" : "-"}{formatMoney(Math.abs(effect))}
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-shrink-0 flex items-center justify-between gap-3 px-6 py-4 border-t border-slate-200 dark:border-slate-800">
+        {previous ? (
+          <button
+            onClick={() => onUndo(previous)}
+            className="text-xs font-bold text-slate-500 dark:text-slate-400 hover:text-red-600 flex items-center gap-1"
+          >
+            <RotateCcw size={14} /> Undo Last Reconciliation
+          </button>
+        ) : (
+          <div className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1">
+            <Lock size={14} /> Finishing locks the cleared transactions
+          </div>
+        )}
+        <button
+          onClick={() => onFinish(statementDate, Number(statementBalance))}
+          disabled={!canFinish}
+          className="px-5 py-3 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold disabled:opacity-50 transition-colors flex items-center gap-2"
+        >
+          <CheckCircle2 size={16} /> Finish Reconciliation
+        </button>
+      </div>
+    </div>
+  );
+}
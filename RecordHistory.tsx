@@ -0,0 +1,47 @@
+import React, { useState } from "react";
+import { History, ChevronDown, ChevronUp, ArrowRight } from "lucide-react";
+import type { AuditEntry } from "./types";
+import { formatAuditValue } from "./services/auditLog";
+
+type Props = {
+  entries: AuditEntry[]; // Newest first
+};
+
+const ACTION_LABELS: Record<AuditEntry["action"], string> = {
+  create: "Created",
+  update: "Edited",
+  delete: "Deleted",
+  reset: "Reset",
+  restore: "Restored",
+};
+
+export default function RecordHistory({ entries }: Props) {
+  const [open, setOpen] = useState(false);
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-900">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between px-4 py-3 text-xs font-bold uppercase tracking-wider text-slate-600 dark:text-slate-300">
+        <span className="flex items-center gap-2"><History size={14} /> Change History ({entries.length})</span>
+        {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+      {open && (
+        <div className="max-h-72 overflow-y-auto divide-y divide-slate-200 dark:divide-slate-800 border-t border-slate-200 dark:border-slate-800">
+          {entries.map(entry => (
+            <div key={entry.id} className="px-4 py-3 space-y-1">
+              <div className="text-xs text-slate-500 dark:text-slate-400">
+                <span className="font-bold text-slate-700 dark:text-slate-200">{ACTION_LABELS[entry.action]}</span> · {new Date(entry.at).toLocaleString()}{entry.actor ? ` · ${entry.actor}` : ""}
+              </div>
+              {entry.action === "update" &&
+                Object.keys(entry.after || {}).map(field => (
+                  <div key={field} className="text-xs text-slate-600 dark:text-slate-300 flex items-center gap-1 flex-wrap break-all">
+                    <span className="font-bold">{field}:</span> {formatAuditValue(entry.before?.[field])} <ArrowRight size={12} className="flex-shrink-0" /> <span className="text-blue-600 dark:text-blue-400">{formatAuditValue(entry.after?.[field])}</span>
+                  </div>
+                ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import React, { useState } from "react";
+import { X, Send } from "lucide-react";
+import type { EmailTransportKind, Invoice } from "./types";
+import { EMAIL_TRANSPORT_LABELS } from "./services/emailDelivery";
+
+type Props = {
+  invoice: Invoice;
+  transport: EmailTransportKind;
+  transportAvailable: boolean;
+  initialSubject: string;
+  initialBody: string;
+  onSend: (message: { to: string; subject: string; body: string }) => void;
+  onClose: () => void;
+};
+
+const inputClass =
+  "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded px-3 py-2 text-sm font-medium outline-none focus:ring-1 focus:ring-blue-500 text-slate-900 dark:text-white";
+
+const labelClass = "text-xs font-bold text-slate-500 dark:text-slate-300 mb-1 block";
+
+const TRANSPORT_HINTS: Record<EmailTransportKind, string> = {
+  mailto: "Opens your mail app with this message. The PDF downloads so you can attach it.",
+  share: "Opens the share sheet with the PDF attached.",
+  smtp: "Sends through your SMTP relay with the PDF attached.",
+};
+
+export default function SendInvoiceDialog({ invoice, transport, transportAvailable, initialSubject, initialBody, onSend, onClose }: Props) {
+  const [to, setTo] = useState(invoice.clientEmail || "");
+  const [subject, setSubject] = useState(initialSubject);
+  const [body, setBody] = useState(initialBody);
+  // The share sheet picks its own recipient
+  const needsRecipient = transport !== "share";
+
+  return (
+    <div className="flex flex-col max-h-[90vh] bg-white dark:bg-slate-900">
+      <div className="flex-shrink-0 flex items-center justify-between px-6 py-5 border-b border-slate-200 dark:border-slate-800">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white font-brand">Send Invoice{invoice.number ? ` ${invoice.number}` : ""}</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Via {EMAIL_TRANSPORT_LABELS[transport]}{invoice.sentAt ? ` · Last sent ${new Date(invoice.sentAt).toLocaleString()}` : ""}
+          </p>
+        </div>
+        <button onClick={onClose} className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-4">
+        {needsRecipient && (
+          <div><label className={labelClass}>To</label><input type="email" value={to} onChange={e => setTo(e.target.value)} className={inputClass} placeholder="client@example.com" /></div>
+        )}
+        <div><label className={labelClass}>Subject</label><input type="text" value={subject} onChange={e => setSubject(e.target.value)} className={inputClass} /></div>
+        <div><label className={labelClass}>Message</label><textarea value={body} onChange={e => setBody(e.target.value)} className={`${inputClass} h-48 resize-none`} /></div>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          {transportAvailable ? TRANSPORT_HINTS[transport] : transport === "smtp" ? "Add the SMTP relay address and sender in Settings to send from here." : "This device can't use the share sheet. Pick another delivery method in Settings."}
+        </p>
+      </div>
+
+      <div className="flex-shrink-0 flex gap-2 px-6 py-4 border-t border-slate-200 dark:border-slate-800">
+        <button onClick={onClose} className="flex-1 py-3 rounded-lg border border-slate-200 dark:border-slate-700 text-sm font-bold text-slate-600 dark:text-slate-300">Cancel</button>
+        <button
+          onClick={() => onSend({ to: to.trim(), subject: subject.trim(), body })}
+          disabled={!transportAvailable || !subject.trim() || (needsRecipient && !to.trim())}
+          className="flex-1 flex items-center justify-center gap-2 py-3 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold uppercase tracking-wider disabled:opacity-50 transition-colors"
+        >
+          <Send size={16} /> Send
+        </button>
+      </div>
+    </div>
+  );
+}
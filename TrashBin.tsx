@@ -0,0 +1,78 @@
+import React from "react";
+import { X, RotateCcw, Trash2, FileText, Wallet, Receipt, Landmark } from "lucide-react";
+import type { TrashItem, TrashKind } from "./types";
+import { TRASH_RETENTION_DAYS, daysLeft, describeTrashItem } from "./services/trash";
+
+type Props = {
+  items: TrashItem[];
+  formatMoney: (n: number) => string;
+  onRestore: (item: TrashItem) => void;
+  onPurge: (item: TrashItem) => void;
+  onEmpty: () => void;
+  onClose: () => void;
+};
+
+const KIND_ICONS: Record<TrashKind, React.ReactNode> = {
+  transaction: <Wallet size={16} />,
+  invoice: <FileText size={16} />,
+  receipt: <Receipt size={16} />,
+  taxPayment: <Landmark size={16} />,
+};
+
+export default function TrashBin({ items, formatMoney, onRestore, onPurge, onEmpty, onClose }: Props) {
+  return (
+    <div className="flex flex-col max-h-[90vh] bg-white dark:bg-slate-900">
+      <div className="flex-shrink-0 flex items-center justify-between px-6 py-5 border-b border-slate-200 dark:border-slate-800">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white font-brand">Trash</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400">Deleted items are kept for {TRASH_RETENTION_DAYS} days, then removed for good</p>
+        </div>
+        <button onClick={onClose} className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        {items.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-12">Trash is empty.</p>
+        ) : (
+          <div className="divide-y divide-slate-200 dark:divide-slate-800 rounded-lg border border-slate-200 dark:border-slate-800">
+            {items.map(item => {
+              const { title, subtitle, amount } = describeTrashItem(item);
+              const days = daysLeft(item);
+              return (
+                <div key={item.id} className="flex items-center gap-3 px-4 py-3">
+                  <div className="w-9 h-9 rounded-full bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300 flex items-center justify-center flex-shrink-0">
+                    {KIND_ICONS[item.kind]}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-bold text-slate-900 dark:text-white truncate">{title}</div>
+                    <div className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                      {subtitle} · {days === 1 ? "1 day left" : `${days} days left`}
+                    </div>
+                  </div>
+                  {amount !== undefined && <div className="text-sm font-bold text-slate-700 dark:text-slate-200 whitespace-nowrap">{formatMoney(amount)}</div>}
+                  <button onClick={() => onRestore(item)} className="p-1 text-slate-400 hover:text-blue-600" title="Restore">
+                    <RotateCcw size={16} />
+                  </button>
+                  <button onClick={() => onPurge(item)} className="p-1 text-slate-400 hover:text-red-600" title="Delete forever">
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <div className="flex-shrink-0 flex items-center justify-between gap-3 px-6 py-4 border-t border-slate-200 dark:border-slate-800">
+          <div className="text-xs text-slate-500 dark:text-slate-400">{items.length} {items.length === 1 ? "item" : "items"}</div>
+          <button onClick={onEmpty} className="px-5 py-3 rounded-lg bg-red-600 hover:bg-red-700 text-white text-sm font-bold transition-colors flex items-center gap-2">
+            <Trash2 size={16} /> Empty Trash
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -49,6 +49,16 @@ export const DEFAULT_PAY_PREFS = [
 
 export const DB_KEY = "moniezi_v7_data";
 
+// --- Data Schema ---
+// Bump SCHEMA_VERSION together with a new entry in services/migrations.ts.
+// Data without a version (the localStorage blob, "1.0.0" backups) is v7.
+export const LEGACY_SCHEMA_VERSION = 7;
+export const SCHEMA_VERSION = 9;
+
+// --- IndexedDB Storage ---
+export const IDB_NAME = "moniezi_db";
+export const IDB_VERSION = 9;
+
 // --- Tax Constants (2025 Estimates) ---
 export const TAX_CONSTANTS = {
   // Estimated 2025 Standard Deductions
@@ -0,0 +1,64 @@
+import type { Account, AccountType, Transaction } from "../types";
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  checking: "Checking",
+  savings: "Savings",
+  credit_card: "Credit Card",
+  cash: "Cash",
+  other: "Other",
+};
+
+export const TRANSFER_CATEGORY = "Transfer";
+
+export function isTransfer(t: Pick<Transaction, "type">): boolean {
+  return t.type === "transfer";
+}
+
+/** True when the transaction moves money in or out of the account. */
+export function touchesAccount(t: Transaction, accountId: string): boolean {
+  return t.accountId === accountId || (isTransfer(t) && t.transferAccountId === accountId);
+}
+
+/** Signed effect of one transaction on one account's balance. */
+export function balanceEffect(t: Transaction, accountId: string): number {
+  const amount = Number(t.amount) || 0;
+  if (isTransfer(t)) {
+    if (t.accountId === accountId && t.transferAccountId === accountId) return 0;
+    if (t.accountId === accountId) return -amount;
+    if (t.transferAccountId === accountId) return amount;
+    return 0;
+  }
+  if (t.accountId !== accountId) return 0;
+  return t.type === "income" ? amount : -amount;
+}
+
+/** Current balance of every account, keyed by account id. */
+export function accountBalances(accounts: Account[], transactions: Transaction[]): Record<string, number> {
+  const balances: Record<string, number> = {};
+  accounts.forEach(a => { balances[a.id] = Number(a.openingBalance) || 0; });
+  transactions.forEach(t => {
+    if (t.accountId && balances[t.accountId] !== undefined) balances[t.accountId] += balanceEffect(t, t.accountId);
+    if (isTransfer(t) && t.transferAccountId && t.transferAccountId !== t.accountId && balances[t.transferAccountId] !== undefined) {
+      balances[t.transferAccountId] += balanceEffect(t, t.transferAccountId);
+    }
+  });
+  return balances;
+}
+
+/**
+ * Balance after each transaction in an account, oldest first. Same-day
+ * entries keep their list order so the running total is stable.
+ */
+export function runningBalances(account: Account, transactions: Transaction[]): Map<string, number> {
+  const result = new Map<string, number>();
+  let balance = Number(account.openingBalance) || 0;
+  transactions
+    .map((t, index) => ({ t, index }))
+    .filter(({ t }) => touchesAccount(t, account.id))
+    .sort((a, b) => (a.t.date === b.t.date ? b.index - a.index : a.t.date < b.t.date ? -1 : 1))
+    .forEach(({ t }) => {
+      balance += balanceEffect(t, account.id);
+      result.set(t.id, balance);
+    });
+  return result;
+}
@@ -0,0 +1,128 @@
+import type { AuditEntity, AuditEntry } from "../types";
+
+// The change log is derived by diffing state snapshots rather than by hooking
+// every setter, so imports, rule re-runs and invoice syncs are captured too.
+
+type WithId = { id: string };
+
+// Large or noisy values that would bloat the log
+const REDACTED_FIELDS = new Set(["businessLogo", "imageData"]);
+
+type EntryContext = { at: string; actor?: string; makeId: () => string };
+
+function snapshot(record: object): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  Object.entries(record).forEach(([key, value]) => {
+    if (value === undefined) return;
+    out[key] = REDACTED_FIELDS.has(key) ? "[image]" : value;
+  });
+  return out;
+}
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/** Only the fields that differ, as parallel before/after objects; null when nothing changed. */
+export function changedFields(prev: object, next: object): { before: Record<string, unknown>; after: Record<string, unknown> } | null {
+  const before: Record<string, unknown> = {};
+  const after: Record<string, unknown> = {};
+  const p = prev as Record<string, unknown>;
+  const n = next as Record<string, unknown>;
+  new Set([...Object.keys(p), ...Object.keys(n)]).forEach(key => {
+    if (same(p[key], n[key])) return;
+    before[key] = REDACTED_FIELDS.has(key) && p[key] !== undefined ? "[image]" : p[key];
+    after[key] = REDACTED_FIELDS.has(key) && n[key] !== undefined ? "[image]" : n[key];
+  });
+  return Object.keys(after).length > 0 ? { before, after } : null;
+}
+
+/** Entries for creates, updates and deletes between two versions of a record list. */
+export function diffForAudit<T extends WithId>(entity: AuditEntity, prev: T[], next: T[], ctx: EntryContext): AuditEntry[] {
+  if (prev === next) return [];
+  const entries: AuditEntry[] = [];
+  const base = (recordId: string) => ({ id: ctx.makeId(), at: ctx.at, entity, recordId, actor: ctx.actor });
+  const prevById = new Map(prev.map(r => [r.id, r]));
+  const nextIds = new Set<string>();
+
+  next.forEach(record => {
+    nextIds.add(record.id);
+    const old = prevById.get(record.id);
+    if (!old) {
+      entries.push({ ...base(record.id), action: "create", after: snapshot(record) });
+    } else if (old !== record) {
+      const diff = changedFields(old, record);
+      if (diff) entries.push({ ...base(record.id), action: "update", ...diff });
+    }
+  });
+  prev.forEach(record => {
+    if (!nextIds.has(record.id)) entries.push({ ...base(record.id), action: "delete", before: snapshot(record) });
+  });
+  return entries;
+}
+
+/** Settings are a singleton, so they only ever produce updates. */
+export function diffSettingsForAudit(prev: object, next: object, ctx: EntryContext): AuditEntry[] {
+  if (prev === next) return [];
+  const diff = changedFields(prev, next);
+  return diff ? [{ id: ctx.makeId(), at: ctx.at, entity: "settings", recordId: "settings", action: "update", actor: ctx.actor, ...diff }] : [];
+}
+
+/** A record's history, newest first. */
+export function historyFor(log: AuditEntry[], entity: AuditEntity, recordId: string): AuditEntry[] {
+  return log
+    .filter(e => e.entity === entity && e.recordId === recordId)
+    .sort((a, b) => (a.at < b.at ? 1 : a.at > b.at ? -1 : 0));
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/** One row per changed field (or per record for creates and deletes), oldest first. */
+export function auditLogToCsv(log: AuditEntry[]): string {
+  const rows = [["Timestamp", "Record Type", "Record ID", "Action", "Changed By", "Field", "Before", "After"]];
+  [...log].sort((a, b) => (a.at < b.at ? -1 : a.at > b.at ? 1 : 0)).forEach(e => {
+    const fields = e.action === "update" ? Object.keys(e.after || {}) : [""];
+    fields.forEach(field => {
+      rows.push([
+        e.at,
+        e.entity,
+        e.recordId,
+        e.action,
+        e.actor || "",
+        field,
+        field ? formatAuditValue(e.before?.[field]) : e.before ? JSON.stringify(e.before) : "",
+        field ? formatAuditValue(e.after?.[field]) : e.after ? JSON.stringify(e.after) : "",
+      ]);
+    });
+  });
+  return rows.map(r => r.map(csvCell).join(",")).join("\n");
+}
+
+/** Appends new entries. Entries already in the log are never rewritten. */
+export function appendAuditEntries(log: AuditEntry[], entries: AuditEntry[]): AuditEntry[] {
+  return entries.length > 0 ? [...log, ...entries] : log;
+}
+
+/** Record counts per list, so a reset or restore can say what it replaced. */
+export function recordCounts(data: object): Record<string, number> {
+  const counts: Record<string, number> = {};
+  Object.entries(data).forEach(([key, value]) => {
+    if (Array.isArray(value)) counts[key] = value.length;
+  });
+  return counts;
+}
+
+/**
+ * One entry for a reset or restore. Those replace every record at once, so the
+ * log notes the swap instead of a create or delete per record.
+ */
+export function dataReplacedEntry(action: "reset" | "restore", before: object, after: object, ctx: EntryContext, detail: Record<string, unknown> = {}): AuditEntry {
+  const prior = recordCounts(before);
+  const next = recordCounts(after);
+  Object.keys(prior).forEach(key => { if (!(key in next)) next[key] = 0; });
+  return { id: ctx.makeId(), at: ctx.at, entity: "data", recordId: "all", action, actor: ctx.actor, before: prior, after: { ...next, ...detail } };
+}
@@ -0,0 +1,66 @@
+import type { Invoice, Transaction } from "../types";
+import { isSplit } from "./splits";
+import { isTransfer } from "./accounts";
+import { isReconciled } from "./reconciliation";
+
+/** Adds whole days to a YYYY-MM-DD date without going through local-time conversions. */
+export function shiftDate(date: string, days: number): string {
+  const [y, m, d] = date.split("-").map(Number);
+  const shifted = new Date(Date.UTC(y, m - 1, d + days));
+  return shifted.toISOString().split("T")[0];
+}
+
+/** Transfers and split transactions have no single category to replace. */
+export function canRecategorize(t: Transaction): boolean {
+  return !isTransfer(t) && !isSplit(t);
+}
+
+export function recategorize(transactions: Transaction[], ids: Set<string>, category: string): Transaction[] {
+  return transactions.map(t => (ids.has(t.id) && canRecategorize(t) && t.category !== category ? { ...t, category } : t));
+}
+
+/** Reconciled transactions keep their date; everything else selected moves by `days`. */
+export function shiftTransactionDates(transactions: Transaction[], ids: Set<string>, days: number): Transaction[] {
+  return transactions.map(t => (ids.has(t.id) && !isReconciled(t) ? { ...t, date: shiftDate(t.date, days) } : t));
+}
+
+export function shiftInvoiceDates(invoices: Invoice[], ids: Set<string>, days: number): Invoice[] {
+  return invoices.map(i => (ids.has(i.id) ? { ...i, date: shiftDate(i.date, days), due: i.due ? shiftDate(i.due, days) : i.due } : i));
+}
+
+const csvCell = (value: string | number | undefined) => {
+  const s = value === undefined ? "" : String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+/** Selected ledger rows as CSV, newest first, in the same order as the ledger. */
+export function selectionToCsv(
+  transactions: Transaction[],
+  invoices: Invoice[],
+  accountName: (id?: string) => string
+): string {
+  const rows: (string | number | undefined)[][] = [
+    ["Date", "Type", "Description", "Category", "Amount", "Account", "Status", "Notes"],
+  ];
+  const all = [
+    ...transactions.map(t => ({
+      date: t.date,
+      row: [
+        t.date,
+        t.type,
+        t.name,
+        isSplit(t) ? t.splits!.map(sp => `${sp.category} ${sp.amount.toFixed(2)}`).join("; ") : t.category,
+        (t.type === "expense" ? -t.amount : t.amount).toFixed(2),
+        isTransfer(t) ? `${accountName(t.accountId)} -> ${accountName(t.transferAccountId)}` : t.accountId ? accountName(t.accountId) : "",
+        isReconciled(t) ? "reconciled" : t.cleared ? "cleared" : "",
+        t.notes,
+      ],
+    })),
+    ...invoices.map(i => ({
+      date: i.date,
+      row: [i.date, "invoice", i.client, i.category, i.amount.toFixed(2), "", i.status, i.notes],
+    })),
+  ].sort((a, b) => (a.date < b.date ? 1 : a.date > b.date ? -1 : 0));
+  all.forEach(r => rows.push(r.row));
+  return rows.map(r => r.map(csvCell).join(",")).join("\n");
+}
@@ -0,0 +1,27 @@
+import type { CatalogItem, CatalogUnit, InvoiceItem } from "../types";
+
+export const CATALOG_UNIT_LABELS: Record<CatalogUnit, { label: string; short: string }> = {
+  hour: { label: "Per hour", short: "hr" },
+  day: { label: "Per day", short: "day" },
+  item: { label: "Per item", short: "item" },
+};
+
+/** A new invoice line pre-filled from a catalog entry. */
+export function lineFromCatalog(item: CatalogItem, id: string): InvoiceItem {
+  return {
+    id,
+    description: item.description ? `${item.name} — ${item.description}` : item.name,
+    quantity: 1,
+    rate: item.rate,
+    unit: item.unit,
+    taxable: item.taxable,
+    catalogItemId: item.id,
+  };
+}
+
+/** "3 hr", "2 days", or just "3" for freeform lines. */
+export function formatQuantity(item: Pick<InvoiceItem, "quantity" | "unit">): string {
+  if (!item.unit) return String(item.quantity);
+  const short = CATALOG_UNIT_LABELS[item.unit].short;
+  return `${item.quantity} ${item.unit === "hour" || item.quantity === 1 ? short : `${short}s`}`;
+}
@@ -0,0 +1,77 @@
+import type { Transaction, CategoryRule, TransactionType } from "../types";
+
+// What a rule can look at; drafts in the drawer and import rows both fit.
+export type RuleSubject = {
+  name: string;
+  amount: number;
+  type: TransactionType;
+};
+
+export type RuleChange = {
+  transaction: Transaction;
+  from: string;
+  to: string;
+  ruleId: string;
+};
+
+/** A rule with no conditions would match everything, so it is never applied. */
+export function hasConditions(rule: CategoryRule): boolean {
+  return !!rule.nameContains?.trim() || rule.minAmount !== undefined || rule.maxAmount !== undefined;
+}
+
+export function ruleMatches(rule: CategoryRule, subject: RuleSubject): boolean {
+  if (!rule.enabled || !rule.category || !hasConditions(rule)) return false;
+  if (subject.type === "transfer") return false;
+  if (rule.matchType !== "any" && rule.matchType !== subject.type) return false;
+
+  const needle = rule.nameContains?.trim().toLowerCase();
+  if (needle && !subject.name.toLowerCase().includes(needle)) return false;
+
+  const amount = Math.abs(Number(subject.amount) || 0);
+  if (rule.minAmount !== undefined && amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && amount > rule.maxAmount) return false;
+  return true;
+}
+
+export function findMatchingRule(rules: CategoryRule[], subject: RuleSubject): CategoryRule | null {
+  return rules.find(rule => ruleMatches(rule, subject)) || null;
+}
+
+/** Category from the first matching rule, or null when no rule applies. */
+export function categorize(rules: CategoryRule[], subject: RuleSubject): string | null {
+  return findMatchingRule(rules, subject)?.category || null;
+}
+
+/** Lists the transactions whose category the current rules would change, without changing them. */
+export function previewRuleChanges(rules: CategoryRule[], transactions: Transaction[]): RuleChange[] {
+  const changes: RuleChange[] = [];
+  transactions.forEach(t => {
+    // Split lines carry their own categories
+    if (t.splits && t.splits.length > 0) return;
+    const rule = findMatchingRule(rules, t);
+    if (rule && rule.category !== t.category) {
+      changes.push({ transaction: t, from: t.category, to: rule.category, ruleId: rule.id });
+    }
+  });
+  return changes;
+}
+
+/** Applies previewed changes; untouched transactions keep their identity. */
+export function applyRuleChanges(transactions: Transaction[], changes: RuleChange[]): Transaction[] {
+  const byId = new Map(changes.map(c => [c.transaction.id, c.to]));
+  return transactions.map(t => {
+    const category = byId.get(t.id);
+    return category ? { ...t, category } : t;
+  });
+}
+
+/** Short human-readable summary, e.g. `Expense · name contains "adobe" · 10–50`. */
+export function describeRule(rule: CategoryRule): string {
+  const parts: string[] = [];
+  if (rule.matchType !== "any") parts.push(rule.matchType === "income" ? "Income" : "Expense");
+  if (rule.nameContains?.trim()) parts.push(`name contains "${rule.nameContains.trim()}"`);
+  if (rule.minAmount !== undefined && rule.maxAmount !== undefined) parts.push(`${rule.minAmount}–${rule.maxAmount}`);
+  else if (rule.minAmount !== undefined) parts.push(`≥ ${rule.minAmount}`);
+  else if (rule.maxAmount !== undefined) parts.push(`≤ ${rule.maxAmount}`);
+  return parts.join(" · ");
+}
@@ -0,0 +1,131 @@
+import type { Transaction } from "../types";
+
+// Learns from how past transactions were categorized. Everything is computed
+// locally from the ledger; nothing leaves the device.
+
+export type CategorySuggestion = {
+  category: string;
+  confidence: number; // 0-1, share of the total score
+  reason: "vendor" | "similar";
+};
+
+type Counts = Map<string, number>;
+
+type CashFlowType = "income" | "expense";
+
+export type SuggestionIndex = Record<CashFlowType, {
+  byVendor: Map<string, Counts>;
+  byToken: Map<string, Counts>;
+  tokenDocs: Map<string, number>; // how many transactions contain the token
+  size: number;
+}>;
+
+// Card processors and banks prepend these to the real merchant name
+const NOISE_PREFIXES = [
+  /^(pos|dbt|debit|credit|visa|mc|card|ach|ppd|web|ckcd|chk|recurring|purchase|payment|pmt)\b\s*/,
+  /^(sq|tst|sp|pp|paypal|py|ic|dd|bt|apl|google|goog)\s*\*\s*/,
+  /^(debit card purchase|card purchase|pos purchase|purchase authorized on)\s*/,
+];
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "of", "to", "from", "in", "on", "at", "by", "with",
+  "inc", "llc", "ltd", "co", "corp", "com", "www", "usa", "us", "payment", "purchase",
+]);
+
+/** Reduces a bank or hand-typed name to a comparable vendor key, e.g. "SQ *BLUE BOTTLE #123" -> "blue bottle". */
+export function normalizeVendor(name: string): string {
+  let s = (name || "").toLowerCase().replace(/https?:\/\//g, "");
+  for (let i = 0; i < 3; i++) {
+    NOISE_PREFIXES.forEach(re => { s = s.replace(re, ""); });
+  }
+  return s
+    .replace(/\.(com|net|org|io|co)\b/g, " ")
+    .replace(/#[\w-]*/g, " ")
+    .replace(/\*[a-z]*\d\w*/g, " ")
+    .replace(/\d+/g, " ")
+    .replace(/[^a-z&\s]/g, " ")
+    .split(/\s+/)
+    .filter(w => w && !STOP_WORDS.has(w))
+    .slice(0, 3)
+    .join(" ");
+}
+
+export function tokenize(name: string): string[] {
+  const words = normalizeVendor(name).split(" ").concat(
+    (name || "").toLowerCase().replace(/[^a-z\s]/g, " ").split(/\s+/)
+  );
+  return Array.from(new Set(words.filter(w => w.length >= 3 && !STOP_WORDS.has(w))));
+}
+
+function bump(map: Map<string, Counts>, key: string, category: string) {
+  let counts = map.get(key);
+  if (!counts) {
+    counts = new Map();
+    map.set(key, counts);
+  }
+  counts.set(category, (counts.get(category) || 0) + 1);
+}
+
+export function buildSuggestionIndex(transactions: Transaction[]): SuggestionIndex {
+  const empty = () => ({ byVendor: new Map(), byToken: new Map(), tokenDocs: new Map(), size: 0 });
+  const index: SuggestionIndex = { income: empty(), expense: empty() };
+
+  transactions.forEach(t => {
+    const bucket = t.type === "transfer" ? undefined : index[t.type];
+    if (!bucket || !t.category || !t.name) return;
+    bucket.size++;
+    const vendor = normalizeVendor(t.name);
+    if (vendor) bump(bucket.byVendor, vendor, t.category);
+    tokenize(t.name).forEach(token => {
+      bump(bucket.byToken, token, t.category);
+      bucket.tokenDocs.set(token, (bucket.tokenDocs.get(token) || 0) + 1);
+    });
+  });
+  return index;
+}
+
+const VENDOR_WEIGHT = 3;
+
+/**
+ * Ranks categories for a name. An exact vendor match counts most; otherwise
+ * shared words vote, weighted by how rare the word is (so "coffee" beats
+ * "store") and by how often each category was used with it.
+ */
+export function suggestCategories(index: SuggestionIndex, name: string, type: CashFlowType, limit = 3): CategorySuggestion[] {
+  const bucket = index[type];
+  if (!bucket || bucket.size === 0 || !name.trim()) return [];
+
+  const scores = new Map<string, { score: number; reason: CategorySuggestion["reason"] }>();
+  const add = (category: string, score: number, reason: CategorySuggestion["reason"]) => {
+    const current = scores.get(category);
+    if (current) {
+      current.score += score;
+      if (reason === "vendor") current.reason = "vendor";
+    } else {
+      scores.set(category, { score, reason });
+    }
+  };
+
+  const vendor = normalizeVendor(name);
+  const vendorCounts = vendor ? bucket.byVendor.get(vendor) : undefined;
+  if (vendorCounts) {
+    const total = Array.from(vendorCounts.values()).reduce((a, b) => a + b, 0);
+    vendorCounts.forEach((count, category) => add(category, VENDOR_WEIGHT * (count / total), "vendor"));
+  }
+
+  tokenize(name).forEach(token => {
+    const counts = bucket.byToken.get(token);
+    if (!counts) return;
+    const idf = Math.log(1 + bucket.size / (bucket.tokenDocs.get(token) || 1));
+    const total = Array.from(counts.values()).reduce((a, b) => a + b, 0);
+    counts.forEach((count, category) => add(category, idf * (count / total) * Math.log(1 + count), "similar"));
+  });
+
+  const totalScore = Array.from(scores.values()).reduce((sum, s) => sum + s.score, 0);
+  if (totalScore <= 0) return [];
+
+  return Array.from(scores.entries())
+    .map(([category, s]) => ({ category, confidence: s.score / totalScore, reason: s.reason }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+}
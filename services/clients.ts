@@ -0,0 +1,107 @@
+import type { Client, ClientCredit, Invoice, Transaction } from "../types";
+import { shiftDate } from "./bulkActions";
+import { balanceDue, isOutstanding } from "./invoicePayments";
+import { isBilled } from "./invoiceStatus";
+
+export const CURRENCY_OPTIONS = ["USD", "EUR", "GBP", "CAD", "AUD"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const normalize = (name?: string) => (name || "").trim().toLowerCase();
+
+export function sameClientName(a?: string, b?: string): boolean {
+  return normalize(a) === normalize(b);
+}
+
+/** An invoice's or credit's currency; unset means the app currency. */
+export function currencyOf(record: { currency?: string }, appCurrency: string): string {
+  return record.currency || appCurrency;
+}
+
+/**
+ * Invoices belonging to a client: linked by id, or — for invoices written
+ * before the directory existed — an unlinked invoice with the same name.
+ */
+export function invoicesForClient(client: Client, invoices: Invoice[]): Invoice[] {
+  return invoices.filter(inv => inv.clientId === client.id || (!inv.clientId && sameClientName(inv.client, client.name)));
+}
+
+/** Credit notes and retainers issued to a client, matched the same way as invoices. */
+export function creditsForClient(client: Client, credits: ClientCredit[]): ClientCredit[] {
+  return credits.filter(c => c.clientId === client.id || (!c.clientId && sameClientName(c.client, client.name)));
+}
+
+/** Copies the client's contact details and defaults onto an invoice draft. */
+export function applyClientToInvoice<T extends Partial<Invoice>>(draft: T, client: Client): T {
+  const date = draft.date || new Date().toISOString().split("T")[0];
+  return {
+    ...draft,
+    clientId: client.id,
+    client: client.name,
+    clientCompany: client.company,
+    clientEmail: client.email,
+    clientAddress: client.address,
+    terms: client.defaultTerms || draft.terms,
+    taxRate: client.defaultTaxRate ?? draft.taxRate,
+    currency: client.defaultCurrency || draft.currency,
+    due: client.paymentTermsDays !== undefined ? shiftDate(date, client.paymentTermsDays) : draft.due,
+  };
+}
+
+/** A new client record from the details typed into an invoice. */
+export function clientFromInvoice(draft: Partial<Invoice>): Omit<Client, "id"> {
+  return {
+    name: (draft.client || "").trim(),
+    company: draft.clientCompany || undefined,
+    email: draft.clientEmail || undefined,
+    address: draft.clientAddress || undefined,
+    defaultTerms: draft.terms || undefined,
+    defaultTaxRate: draft.taxRate || undefined,
+    defaultCurrency: draft.currency,
+  };
+}
+
+export type ClientStats = {
+  invoiceCount: number;
+  currency: string; // What totalBilled and outstanding are in: the client's default currency
+  totalBilled: number;
+  outstanding: number;
+  otherCurrencyCount: number; // Billed invoices left out of the totals because they are in another currency
+  paidCount: number;
+  averageDaysToPay: number | null; // null until an invoice has a recorded payment date
+};
+
+/**
+ * Totals over the client's invoices, ignoring drafts and voided ones. Amounts only add up
+ * within one currency, so they cover invoices in the client's own. Credit notes come
+ * off the amount billed. Days-to-pay runs from the invoice date to the payment
+ * that settled it, using the payment transaction's date in case it was edited
+ * in the ledger.
+ */
+export function clientStats(client: Client, invoices: Invoice[], transactions: Transaction[], appCurrency: string, credits: ClientCredit[] = []): ClientStats {
+  const billed = invoicesForClient(client, invoices).filter(isBilled);
+  const currency = client.defaultCurrency || appCurrency;
+  const own = billed.filter(inv => currencyOf(inv, appCurrency) === currency);
+  const ownIds = new Set(own.map(inv => inv.id));
+  const creditNotes = creditsForClient(client, credits).filter(c => c.kind === "credit_note" && c.invoiceId && ownIds.has(c.invoiceId));
+  const paymentDates = new Map(transactions.map(t => [t.id, t.date]));
+  const payDays: number[] = [];
+  billed.forEach(inv => {
+    const dates = inv.status === "paid" ? (inv.payments || []).map(p => paymentDates.get(p.transactionId) || p.date) : [];
+    const paidOn = dates.length > 0 ? dates.reduce((a, b) => (b > a ? b : a)) : undefined;
+    if (paidOn) payDays.push(Math.max(0, Math.round((Date.parse(paidOn) - Date.parse(inv.date)) / DAY_MS)));
+  });
+  return {
+    invoiceCount: billed.length,
+    currency,
+    totalBilled: own.reduce((sum, inv) => sum + inv.amount, 0) - creditNotes.reduce((sum, c) => sum + c.amount, 0),
+    outstanding: own.filter(isOutstanding).reduce((sum, inv) => sum + balanceDue(inv), 0),
+    otherCurrencyCount: billed.length - own.length,
+    paidCount: billed.filter(inv => inv.status === "paid").length,
+    averageDaysToPay: payDays.length > 0 ? payDays.reduce((a, b) => a + b, 0) / payDays.length : null,
+  };
+}
+
+export function currencyFormatter(code: string): Intl.NumberFormat {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: code, minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
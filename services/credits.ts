@@ -0,0 +1,50 @@
+import type { ClientCredit, CreditKind, Invoice } from "../types";
+import { currencyOf, sameClientName } from "./clients";
+import { nextSequenceNumber } from "./invoiceNumbering";
+
+export const CREDIT_KIND_LABELS: Record<CreditKind, string> = {
+  credit_note: "Credit Note",
+  retainer: "Retainer",
+};
+
+const NUMBER_PREFIX: Record<CreditKind, string> = { credit_note: "CN", retainer: "RT" };
+
+const roundMoney = (n: number) => Math.round(n * 100) / 100;
+
+/** Next number in the kind's own sequence, e.g. CN-0003. */
+export function nextCreditNumber(credits: ClientCredit[], kind: CreditKind): string {
+  return nextSequenceNumber(NUMBER_PREFIX[kind], credits.filter(c => c.kind === kind).map(c => c.number));
+}
+
+/** How much of a credit has been put toward invoices so far. */
+export function creditApplied(credit: ClientCredit, invoices: Invoice[]): number {
+  return roundMoney(
+    invoices.reduce((sum, inv) => sum + (inv.credits || []).filter(a => a.creditId === credit.id).reduce((s, a) => s + a.amount, 0), 0)
+  );
+}
+
+export function creditRemaining(credit: ClientCredit, invoices: Invoice[]): number {
+  return Math.max(0, roundMoney(credit.amount - creditApplied(credit, invoices)));
+}
+
+/**
+ * Credits the invoice's client can still apply: matched by client id when both
+ * are linked to the directory, otherwise by name. Only credits in the invoice's
+ * currency count, since there is no rate to convert with.
+ */
+export function availableCredits(inv: Pick<Invoice, "clientId" | "client" | "currency">, credits: ClientCredit[], invoices: Invoice[], appCurrency: string): { credit: ClientCredit; remaining: number }[] {
+  return credits
+    .filter(c => (c.clientId && inv.clientId ? c.clientId === inv.clientId : sameClientName(c.client, inv.client)))
+    .filter(c => currencyOf(c, appCurrency) === currencyOf(inv, appCurrency))
+    .map(credit => ({ credit, remaining: creditRemaining(credit, invoices) }))
+    .filter(({ remaining }) => remaining > 0);
+}
+
+export function creditNotesFor(invoiceId: string, credits: ClientCredit[]): ClientCredit[] {
+  return credits.filter(c => c.kind === "credit_note" && c.invoiceId === invoiceId);
+}
+
+/** The most a new credit note can take off an invoice: its total less earlier credit notes. */
+export function creditNoteLimit(inv: Pick<Invoice, "id" | "amount">, credits: ClientCredit[]): number {
+  return Math.max(0, roundMoney(inv.amount - creditNotesFor(inv.id, credits).reduce((sum, c) => sum + c.amount, 0)));
+}
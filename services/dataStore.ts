@@ -0,0 +1,221 @@
+import type { Transaction, Invoice, TaxPayment, Receipt, Account, Client, ClientCredit, Quote, CatalogItem, Reconciliation, AuditEntry, TrashItem, UserSettings, CustomCategories, CategoryRule } from "../types";
+import { DB_KEY, IDB_NAME, IDB_VERSION, SCHEMA_VERSION, LEGACY_SCHEMA_VERSION } from "../constants";
+import { migrateData } from "./migrations";
+
+// Records are stored one-per-key in their own object store so a change to a
+// single transaction only rewrites that transaction (and receipt images no
+// longer count against the ~5MB localStorage quota).
+export type EntityStoreName = "transactions" | "invoices" | "taxPayments" | "receipts" | "accounts" | "clients" | "credits" | "quotes" | "catalogItems" | "reconciliations" | "auditLog" | "trash";
+
+// Adding a store here needs an IDB_VERSION bump so onupgradeneeded creates it
+const ENTITY_STORES: EntityStoreName[] = ["transactions", "invoices", "taxPayments", "receipts", "accounts", "clients", "credits", "quotes", "catalogItems", "reconciliations", "auditLog", "trash"];
+
+// Singletons (settings, custom categories, rules, bookkeeping flags) live in a key/value store.
+const META_STORE = "meta";
+const LEGACY_IMPORTED_KEY = "legacyImported";
+const SCHEMA_VERSION_KEY = "schemaVersion";
+// Credentials sit under their own key rather than in settings, so backups and the change log never carry them
+const SMTP_TOKEN_KEY = "smtpAuthToken";
+
+export type PersistedData = {
+  transactions: Transaction[];
+  invoices: Invoice[];
+  taxPayments: TaxPayment[];
+  receipts: Receipt[];
+  accounts: Account[];
+  clients: Client[];
+  credits: ClientCredit[];
+  quotes: Quote[];
+  catalogItems: CatalogItem[];
+  reconciliations: Reconciliation[];
+  auditLog: AuditEntry[];
+  trash: TrashItem[];
+  settings?: Partial<UserSettings>;
+  customCategories?: Partial<CustomCategories>;
+  categoryRules?: CategoryRule[];
+};
+
+type MetaKey = "settings" | "customCategories" | "categoryRules";
+const META_KEYS: MetaKey[] = ["settings", "customCategories", "categoryRules"];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+}
+
+export function openDataStore(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+    const request = indexedDB.open(IDB_NAME, IDB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      ENTITY_STORES.forEach(name => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: "id" });
+      });
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("Database upgrade blocked by another open tab"));
+  });
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+// One-time import of the old single-blob localStorage format.
+async function importLegacyBlob(db: IDBDatabase): Promise<boolean> {
+  const flagTx = db.transaction(META_STORE, "readonly");
+  const alreadyImported = await requestToPromise(flagTx.objectStore(META_STORE).get(LEGACY_IMPORTED_KEY));
+  if (alreadyImported) return false;
+
+  let raw: string | null = null;
+  try {
+    raw = localStorage.getItem(DB_KEY);
+  } catch {
+    raw = null;
+  }
+  if (!raw) return false;
+
+  const parsed = JSON.parse(raw);
+  const tx = db.transaction([...ENTITY_STORES, META_STORE], "readwrite");
+  ENTITY_STORES.forEach(name => {
+    const list = Array.isArray(parsed[name]) ? parsed[name] : [];
+    const store = tx.objectStore(name);
+    list.forEach((record: { id?: string }) => {
+      if (record && record.id) store.put(record);
+    });
+  });
+  const meta = tx.objectStore(META_STORE);
+  if (parsed.settings) meta.put(parsed.settings, "settings");
+  if (parsed.customCategories) meta.put(parsed.customCategories, "customCategories");
+  meta.put(new Date().toISOString(), LEGACY_IMPORTED_KEY);
+  await transactionDone(tx);
+
+  // Free the quota only once the import has been committed
+  try {
+    localStorage.removeItem(DB_KEY);
+  } catch {
+    // ignore
+  }
+  return true;
+}
+
+/**
+ * Loads everything from IndexedDB, importing the legacy localStorage blob first
+ * if it has not been imported yet, and upgrading older schemas in place.
+ * Resolves to null on a fresh install; rejects if the stored data was written
+ * by a newer app version.
+ */
+export async function loadPersistedData(): Promise<PersistedData | null> {
+  const db = await openDataStore();
+  await importLegacyBlob(db);
+
+  const tx = db.transaction([...ENTITY_STORES, META_STORE], "readonly");
+  const [transactions, invoices, taxPayments, receipts, accounts, clients, credits, quotes, catalogItems, reconciliations, auditLog, trash, settings, customCategories, categoryRules, storedVersion] = await Promise.all([
+    requestToPromise(tx.objectStore("transactions").getAll()),
+    requestToPromise(tx.objectStore("invoices").getAll()),
+    requestToPromise(tx.objectStore("taxPayments").getAll()),
+    requestToPromise(tx.objectStore("receipts").getAll()),
+    requestToPromise(tx.objectStore("accounts").getAll()),
+    requestToPromise(tx.objectStore("clients").getAll()),
+    requestToPromise(tx.objectStore("credits").getAll()),
+    requestToPromise(tx.objectStore("quotes").getAll()),
+    requestToPromise(tx.objectStore("catalogItems").getAll()),
+    requestToPromise(tx.objectStore("reconciliations").getAll()),
+    requestToPromise(tx.objectStore("auditLog").getAll()),
+    requestToPromise(tx.objectStore("trash").getAll()),
+    requestToPromise(tx.objectStore(META_STORE).get("settings")),
+    requestToPromise(tx.objectStore(META_STORE).get("customCategories")),
+    requestToPromise(tx.objectStore(META_STORE).get("categoryRules")),
+    requestToPromise(tx.objectStore(META_STORE).get(SCHEMA_VERSION_KEY)),
+  ]);
+
+  const isEmpty = !settings && !customCategories && !categoryRules &&
+    transactions.length === 0 && invoices.length === 0 && taxPayments.length === 0 && receipts.length === 0 && accounts.length === 0 && clients.length === 0 && credits.length === 0 && quotes.length === 0 && catalogItems.length === 0 && reconciliations.length === 0 && auditLog.length === 0 && trash.length === 0;
+  if (isEmpty) return null;
+
+  const loaded: PersistedData = { transactions, invoices, taxPayments, receipts, accounts, clients, credits, quotes, catalogItems, reconciliations, auditLog, trash, settings, customCategories, categoryRules };
+  const version = typeof storedVersion === "number" ? storedVersion : LEGACY_SCHEMA_VERSION;
+  if (version === SCHEMA_VERSION) return loaded;
+
+  const migrated = migrateData(loaded, version) as PersistedData;
+  await saveChanges(loaded, migrated);
+  await writeSchemaVersion(db);
+  return migrated;
+}
+
+export async function loadSmtpToken(): Promise<string | undefined> {
+  const db = await openDataStore();
+  const tx = db.transaction(META_STORE, "readonly");
+  const token = await requestToPromise(tx.objectStore(META_STORE).get(SMTP_TOKEN_KEY));
+  return typeof token === "string" && token ? token : undefined;
+}
+
+export async function saveSmtpToken(token: string | undefined): Promise<void> {
+  const db = await openDataStore();
+  const tx = db.transaction(META_STORE, "readwrite");
+  if (token) tx.objectStore(META_STORE).put(token, SMTP_TOKEN_KEY);
+  else tx.objectStore(META_STORE).delete(SMTP_TOKEN_KEY);
+  await transactionDone(tx);
+}
+
+async function writeSchemaVersion(db: IDBDatabase): Promise<void> {
+  const tx = db.transaction(META_STORE, "readwrite");
+  tx.objectStore(META_STORE).put(SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+  await transactionDone(tx);
+}
+
+function diffRecords<T extends { id: string }>(store: IDBObjectStore, prev: T[], next: T[]) {
+  const prevById = new Map(prev.map(r => [r.id, r]));
+  const nextIds = new Set<string>();
+  next.forEach(record => {
+    nextIds.add(record.id);
+    // State updates are immutable, so an unchanged record keeps its reference
+    if (prevById.get(record.id) !== record) store.put(record);
+  });
+  prevById.forEach((_, id) => {
+    if (!nextIds.has(id)) store.delete(id);
+  });
+}
+
+/**
+ * Writes only what changed between two snapshots, in a single IndexedDB transaction.
+ * Passing a null `prev` writes the full snapshot.
+ */
+export async function saveChanges(prev: PersistedData | null, next: PersistedData): Promise<void> {
+  const changedStores = ENTITY_STORES.filter(name => !prev || prev[name] !== next[name]);
+  const changedMeta = META_KEYS.filter(key => !prev || prev[key] !== next[key]);
+  if (changedStores.length === 0 && changedMeta.length === 0) return;
+
+  const db = await openDataStore();
+  const storeNames = changedMeta.length > 0 ? [...changedStores, META_STORE] : changedStores;
+  const tx = db.transaction(storeNames, "readwrite");
+
+  changedStores.forEach(name => {
+    diffRecords(tx.objectStore(name), (prev?.[name] || []) as { id: string }[], next[name] as { id: string }[]);
+  });
+  changedMeta.forEach(key => {
+    tx.objectStore(META_STORE).put(next[key], key);
+  });
+  // A full write (fresh install) stamps the current schema
+  if (!prev) tx.objectStore(META_STORE).put(SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+
+  await transactionDone(tx);
+}
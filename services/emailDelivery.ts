@@ -0,0 +1,142 @@
+import type { EmailTransportKind, Invoice, InvoiceEmailSettings, SmtpRelaySettings, UserSettings } from "../types";
+import { balanceDue } from "./invoicePayments";
+
+export const DEFAULT_INVOICE_EMAIL: InvoiceEmailSettings = {
+  transport: "mailto",
+  subjectTemplate: "Invoice {{number}} from {{businessName}}",
+  bodyTemplate:
+    "Hi {{client}},\n\nPlease find attached invoice {{number}} for {{amount}}, due on {{due}}.\n\nPayment methods: {{payMethods}}\n\nThank you for your business.\n\n{{ownerName}}\n{{businessName}}",
+};
+
+export const EMAIL_TRANSPORT_LABELS: Record<EmailTransportKind, string> = {
+  mailto: "Mail app",
+  share: "Share sheet",
+  smtp: "SMTP relay",
+};
+
+export const TEMPLATE_PLACEHOLDERS = ["number", "client", "amount", "balance", "date", "due", "businessName", "ownerName", "payMethods"] as const;
+
+export type TemplatePlaceholder = typeof TEMPLATE_PLACEHOLDERS[number];
+
+export class EmailDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmailDeliveryError";
+  }
+}
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  body: string;
+  attachment?: { filename: string; blob: Blob };
+};
+
+export type DeliveryResult = {
+  attached: boolean; // False when the user has to attach the PDF by hand
+};
+
+export interface EmailTransport {
+  kind: EmailTransportKind;
+  /** Whether this device can use the transport at all. */
+  isAvailable(): boolean;
+  send(message: EmailMessage): Promise<DeliveryResult>;
+}
+
+export function invoiceTemplateValues(inv: Invoice, settings: Pick<UserSettings, "businessName" | "ownerName" | "payPrefs">, formatMoney: (n: number) => string): Record<TemplatePlaceholder, string> {
+  return {
+    number: inv.number || inv.id.substring(inv.id.length - 6).toUpperCase(),
+    client: inv.client,
+    amount: formatMoney(inv.amount),
+    balance: formatMoney(balanceDue(inv)),
+    date: inv.date,
+    due: inv.due,
+    businessName: settings.businessName,
+    ownerName: settings.ownerName,
+    payMethods: settings.payPrefs.join(", "),
+  };
+}
+
+/** Replaces {{placeholder}} tokens; unknown ones are left as typed so mistakes stay visible. */
+export function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (token, key: string) => (key in values ? values[key] : token));
+}
+
+// mailto can't carry attachments, so the PDF is downloaded for the user to attach
+const mailtoTransport: EmailTransport = {
+  kind: "mailto",
+  isAvailable: () => typeof window !== "undefined",
+  async send({ to, subject, body, attachment }) {
+    if (attachment) downloadBlob(attachment.blob, attachment.filename);
+    window.location.href = `mailto:${encodeURIComponent(to)}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+    return { attached: false };
+  },
+};
+
+const shareTransport: EmailTransport = {
+  kind: "share",
+  isAvailable: () => typeof navigator !== "undefined" && typeof navigator.share === "function",
+  async send({ subject, body, attachment }) {
+    const files = attachment ? [new File([attachment.blob], attachment.filename, { type: "application/pdf" })] : [];
+    const canShareFiles = files.length > 0 && typeof navigator.canShare === "function" && navigator.canShare({ files });
+    try {
+      await navigator.share({ title: subject, text: body, ...(canShareFiles ? { files } : {}) });
+    } catch (err) {
+      throw new EmailDeliveryError(err instanceof Error && err.name === "AbortError" ? "Sharing was cancelled" : "This device couldn't share the invoice");
+    }
+    return { attached: canShareFiles };
+  },
+};
+
+/**
+ * Posts the message as JSON to a relay that speaks SMTP, since browsers can't.
+ * The relay receives { from, to, subject, text, attachments: [{ filename,
+ * contentType, content }] } with the content base64-encoded.
+ */
+function smtpRelayTransport(relay: SmtpRelaySettings | undefined, authToken?: string): EmailTransport {
+  return {
+    kind: "smtp",
+    isAvailable: () => !!relay?.endpoint && !!relay.from,
+    async send({ to, subject, body, attachment }) {
+      if (!relay?.endpoint || !relay.from) throw new EmailDeliveryError("Set up the SMTP relay in Settings first");
+      const attachments = attachment ? [{ filename: attachment.filename, contentType: "application/pdf", content: await blobToBase64(attachment.blob) }] : [];
+      let response: Response;
+      try {
+        response = await fetch(relay.endpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}) },
+          body: JSON.stringify({ from: relay.from, to, subject, text: body, attachments }),
+        });
+      } catch {
+        throw new EmailDeliveryError(`Couldn't reach the SMTP relay at ${relay.endpoint}`);
+      }
+      if (!response.ok) throw new EmailDeliveryError(`The SMTP relay refused the message (${response.status})`);
+      return { attached: attachments.length > 0 };
+    },
+  };
+}
+
+/** `smtpToken` is stored apart from the settings so it stays out of backups. */
+export function createTransport(settings: InvoiceEmailSettings, smtpToken?: string): EmailTransport {
+  if (settings.transport === "share") return shareTransport;
+  if (settings.transport === "smtp") return smtpRelayTransport(settings.smtp, smtpToken);
+  return mailtoTransport;
+}
+
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] || "");
+    reader.onerror = () => reject(new EmailDeliveryError("Couldn't read the PDF"));
+    reader.readAsDataURL(blob);
+  });
+}
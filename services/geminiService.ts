@@ -1,13 +1,14 @@
 
 import { GoogleGenAI } from "@google/genai";
 import { Transaction, Invoice } from "../types";
+import { balanceDue, isOutstanding } from "./invoicePayments";
 
 export const getFinancialInsights = async (transactions: Transaction[], invoices: Invoice[], taxRate: number = 25) => {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   
   const totalIncome = transactions.filter(t => t.type === 'income').reduce((sum, t) => sum + t.amount, 0);
   const totalExpense = transactions.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0);
-  const unpaidAmount = invoices.filter(i => i.status === 'unpaid').reduce((sum, i) => sum + i.amount, 0);
+  const unpaidAmount = invoices.filter(isOutstanding).reduce((sum, i) => sum + balanceDue(i), 0);
   const netProfit = totalIncome - totalExpense;
   const estimatedTax = netProfit > 0 ? netProfit * (taxRate / 100) : 0;
 
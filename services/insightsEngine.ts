@@ -1,4 +1,8 @@
 import type { Transaction, Invoice, TaxPayment, UserSettings } from "../types";
+import { expandSplits } from "./splits";
+import { fiscalYearToDate, isInRange } from "./periods";
+import { balanceDue, isOutstanding } from "./invoicePayments";
+import { currencyOf } from "./clients";
 
 export type InsightSeverity = "low" | "medium" | "high";
 
@@ -85,9 +89,10 @@ function lastNDaysTransactions(transactions: Transaction[], days: number): Trans
   return transactions.filter((t) => parseDate(t.date) >= cutoff);
 }
 
+// Split transactions land in each of their categories with the line amount
 function groupByCategory(transactions: Transaction[]): Map<string, Transaction[]> {
   const map = new Map<string, Transaction[]>();
-  transactions.forEach(t => {
+  expandSplits(transactions).forEach(t => {
     const cat = t.category || "Uncategorized";
     if (!map.has(cat)) map.set(cat, []);
     map.get(cat)!.push(t);
@@ -120,17 +125,18 @@ export function generateInsights(input: {
   invoices: Invoice[];
   taxPayments: TaxPayment[];
   settings: UserSettings;
+  appCurrency: string;
 }): Insight[] {
-  const { transactions, invoices, taxPayments, settings } = input;
+  const { transactions, invoices, taxPayments, settings, appCurrency } = input;
   const insights: Insight[] = [];
 
   // Run all analysis modules
   analyzeCashFlow(transactions, insights);
   analyzeSpendingTrends(transactions, insights);
   analyzeIncome(transactions, insights);
-  analyzeInvoices(invoices, insights);
+  analyzeInvoices(invoices, appCurrency, insights);
   analyzeCategoryConcentration(transactions, insights);
-  analyzeTaxPayments(transactions, taxPayments, insights);
+  analyzeTaxPayments(transactions, taxPayments, settings, insights);
   detectAnomalies(transactions, insights);
   analyzeRecurringPatterns(transactions, insights);
   analyzeSpendingByDayOfWeek(transactions, insights);
@@ -293,9 +299,18 @@ function analyzeIncome(transactions: Transaction[], insights: Insight[]) {
   }
 }
 
+// Amounts are only added up for invoices in the app currency; the rest are counted
+function invoiceAmountSummary(invoices: Invoice[], appCurrency: string) {
+  const own = invoices.filter(inv => currencyOf(inv, appCurrency) === appCurrency);
+  const total = sum(own.map(balanceDue));
+  const otherCount = invoices.length - own.length;
+  if (own.length === 0) return { total, otherCount, text: `${invoices.length} invoice(s) in other currencies` };
+  return { total, otherCount, text: `${invoices.length} invoice(s) totaling ${formatMoney(total)}${otherCount ? ` (${otherCount} in other currencies not included)` : ""}` };
+}
+
 // 4. Invoice Analysis
-function analyzeInvoices(invoices: Invoice[], insights: Insight[]) {
-  const unpaid = invoices.filter(inv => inv.status === "unpaid");
+function analyzeInvoices(invoices: Invoice[], appCurrency: string, insights: Insight[]) {
+  const unpaid = invoices.filter(isOutstanding);
   
   if (unpaid.length > 0) {
     const now = Date.now();
@@ -305,30 +320,30 @@ function analyzeInvoices(invoices: Invoice[], insights: Insight[]) {
     });
 
     if (overdue.length > 0) {
-      const totalOverdue = sum(overdue.map(inv => inv.amount));
+      const { total: totalOverdue, otherCount, text } = invoiceAmountSummary(overdue, appCurrency);
       insights.push({
         id: "invoices_overdue",
         severity: "high",
         category: "invoices",
         title: "Overdue invoices detected",
-        message: `${overdue.length} invoice(s) totaling ${formatMoney(totalOverdue)} are overdue.`,
+        message: `${text} are overdue.`,
         detail: "Follow up with clients immediately. Consider implementing automatic payment reminders.",
         priority: 9,
         actionable: true,
-        data: { overdueCount: overdue.length, totalOverdue, overdue }
+        data: { overdueCount: overdue.length, totalOverdue, otherCurrencyCount: otherCount, overdue }
       });
     } else {
-      const totalUnpaid = sum(unpaid.map(inv => inv.amount));
+      const { total: totalUnpaid, otherCount, text } = invoiceAmountSummary(unpaid, appCurrency);
       insights.push({
         id: "invoices_unpaid",
         severity: "medium",
         category: "invoices",
         title: "Unpaid invoices",
-        message: `${unpaid.length} invoice(s) worth ${formatMoney(totalUnpaid)} are awaiting payment.`,
+        message: `${text} are awaiting payment.`,
         detail: "Monitor these closely and send friendly reminders as due dates approach.",
         priority: 6,
         actionable: true,
-        data: { unpaidCount: unpaid.length, totalUnpaid, unpaid }
+        data: { unpaidCount: unpaid.length, totalUnpaid, otherCurrencyCount: otherCount, unpaid }
       });
     }
   }
@@ -371,15 +386,18 @@ function analyzeCategoryConcentration(transactions: Transaction[], insights: Ins
 }
 
 // 6. Tax Payment Analysis
+// Compares the current fiscal year's income with tax paid in the same year
 function analyzeTaxPayments(
   transactions: Transaction[],
   taxPayments: TaxPayment[],
+  settings: UserSettings,
   insights: Insight[]
 ) {
-  const income = sum(transactions.filter(t => t.type === "income").map(t => t.amount));
+  const ytd = fiscalYearToDate(new Date(), settings.fiscalYearStartMonth);
+  const income = sum(transactions.filter(t => t.type === "income" && isInRange(t.date, ytd)).map(t => t.amount));
   if (income === 0) return;
 
-  const paidTax = sum(taxPayments.map(p => p.amount));
+  const paidTax = sum(taxPayments.filter(p => isInRange(p.date, ytd)).map(p => p.amount));
   const estimatedTax = income * 0.20; // Rough 20% estimate
 
   if (paidTax < estimatedTax * 0.5) {
@@ -781,6 +799,7 @@ export function getInsightCount(input: {
   invoices: Invoice[];
   taxPayments: TaxPayment[];
   settings: UserSettings;
+  appCurrency: string;
 }): number {
   const insights = generateInsights(input);
   const dismissed = new Set(getDismissedInsightIds());
@@ -0,0 +1,60 @@
+import type { Invoice, InvoiceNumbering } from "../types";
+
+export const DEFAULT_INVOICE_NUMBERING: InvoiceNumbering = {
+  prefix: "INV",
+  nextNumber: 1,
+  padding: 4,
+  includeYear: true,
+  resetYearly: true,
+};
+
+const yearOf = (date: string) => Number(date.slice(0, 4)) || new Date().getFullYear();
+
+export function formatInvoiceNumber(scheme: InvoiceNumbering, sequence: number, year: number): string {
+  const parts = [scheme.prefix.trim(), scheme.includeYear ? String(year) : "", String(sequence).padStart(Math.max(1, scheme.padding), "0")];
+  return parts.filter(Boolean).join("-");
+}
+
+/** Next number in a plain PREFIX-0001 sequence, as used for quotes and credits. */
+export function nextSequenceNumber(prefix: string, used: string[]): string {
+  const highest = used
+    .filter(n => n.startsWith(`${prefix}-`))
+    .reduce((max, n) => Math.max(max, Number(n.slice(prefix.length + 1)) || 0), 0);
+  return `${prefix}-${String(highest + 1).padStart(4, "0")}`;
+}
+
+const normalizeNumber = (number: string) => number.trim().toLowerCase();
+
+/** Whether another invoice already uses `number` (case and surrounding spaces ignored). */
+export function isInvoiceNumberTaken(number: string, invoices: Pick<Invoice, "id" | "number">[], exceptId?: string): boolean {
+  const wanted = normalizeNumber(number);
+  return invoices.some(inv => inv.id !== exceptId && !!inv.number && normalizeNumber(inv.number) === wanted);
+}
+
+/** Where the sequence starts for an invoice in `year`, before skipping taken numbers. */
+function startingSequence(scheme: InvoiceNumbering, year: number): number {
+  if (!scheme.resetYearly || !scheme.includeYear || scheme.lastYear === undefined || year === scheme.lastYear) return Math.max(1, scheme.nextNumber);
+  return 1;
+}
+
+/**
+ * Assigns the next free number for an invoice dated `date` and returns the
+ * advanced scheme. Numbers already in use (typed by hand or restored from a
+ * backup) are skipped. With a yearly reset, an invoice backdated into an
+ * earlier year takes the next free number of that year and leaves the current
+ * counter alone.
+ */
+export function issueInvoiceNumber(
+  scheme: InvoiceNumbering,
+  date: string,
+  invoices: Pick<Invoice, "id" | "number">[]
+): { number: string; scheme: InvoiceNumbering } {
+  const year = yearOf(date);
+  let sequence = startingSequence(scheme, year);
+  while (isInvoiceNumberTaken(formatInvoiceNumber(scheme, sequence, year), invoices)) sequence++;
+  const backdated = scheme.resetYearly && scheme.includeYear && scheme.lastYear !== undefined && year < scheme.lastYear;
+  return {
+    number: formatInvoiceNumber(scheme, sequence, year),
+    scheme: backdated ? scheme : { ...scheme, nextNumber: sequence + 1, lastYear: year },
+  };
+}
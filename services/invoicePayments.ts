@@ -0,0 +1,41 @@
+import type { AppliedCredit, Invoice, InvoicePayment, InvoiceStatus } from "../types";
+
+const roundMoney = (n: number) => Math.round(n * 100) / 100;
+
+/** Sent, unpaid and part-paid invoices still have money coming in. Drafts don't yet. */
+export function isOutstanding(inv: Pick<Invoice, "status">): boolean {
+  return inv.status === "sent" || inv.status === "unpaid" || inv.status === "partial";
+}
+
+export function sumPayments(payments: (InvoicePayment | AppliedCredit)[] = []): number {
+  return roundMoney(payments.reduce((sum, p) => sum + (Number(p.amount) || 0), 0));
+}
+
+/**
+ * Total received against the invoice. Invoices marked paid before payments
+ * were recorded individually have none on file and count as paid in full.
+ */
+export function amountPaid(inv: Pick<Invoice, "amount" | "status" | "payments" | "credits">): number {
+  if (!inv.payments || inv.payments.length === 0) return inv.status === "paid" && !inv.credits?.length ? inv.amount : 0;
+  return sumPayments(inv.payments);
+}
+
+/** Total of credit notes and retainers put toward the invoice. */
+export function amountCredited(inv: Pick<Invoice, "credits">): number {
+  return sumPayments(inv.credits);
+}
+
+export function balanceDue(inv: Pick<Invoice, "amount" | "status" | "payments" | "credits">): number {
+  if (inv.status === "void") return 0;
+  return Math.max(0, roundMoney(inv.amount - amountPaid(inv) - amountCredited(inv)));
+}
+
+/**
+ * The status a non-void invoice takes from its recorded payments and applied
+ * credits. With nothing received it keeps `open` (draft, sent or unpaid).
+ */
+export function statusFromPayments(amount: number, payments: InvoicePayment[] = [], credits: AppliedCredit[] = [], open: InvoiceStatus = "unpaid"): InvoiceStatus {
+  const paid = roundMoney(sumPayments(payments) + sumPayments(credits));
+  if (paid <= 0) return open;
+  return paid >= roundMoney(amount) ? "paid" : "partial";
+}
@@ -0,0 +1,56 @@
+import type { Invoice, InvoiceStatus, InvoiceStatusChange } from "../types";
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  unpaid: "Unpaid",
+  partial: "Part Paid",
+  paid: "Paid",
+  void: "Void",
+};
+
+// Statuses an invoice holds while nothing has been paid or credited
+const OPEN_STATUSES: InvoiceStatus[] = ["draft", "sent", "unpaid"];
+
+type WithStatus = { status?: InvoiceStatus; statusHistory?: InvoiceStatusChange[] };
+
+export function statusChange(status: InvoiceStatus, at: string = new Date().toISOString()): InvoiceStatusChange {
+  return { status, at };
+}
+
+/** Sets the status and, when it actually changes, adds the step to the timeline. */
+export function withStatus<T extends WithStatus>(inv: T, status: InvoiceStatus, at?: string): T {
+  if (inv.status === status) return inv;
+  return { ...inv, status, statusHistory: [...(inv.statusHistory || []), statusChange(status, at)] };
+}
+
+/**
+ * The status an invoice falls back to once its payments and credits are
+ * removed: whichever of draft, sent or unpaid it last held.
+ */
+export function openStatus(inv: WithStatus): InvoiceStatus {
+  if (inv.status && OPEN_STATUSES.includes(inv.status)) return inv.status;
+  const last = [...(inv.statusHistory || [])].reverse().find(h => OPEN_STATUSES.includes(h.status));
+  return last ? last.status : "unpaid";
+}
+
+/** Drafts and void invoices were never billed, so they stay out of billed totals. */
+export function isBilled(inv: Pick<Invoice, "status">): boolean {
+  return inv.status !== "draft" && inv.status !== "void";
+}
+
+export function canMarkSent(inv: Pick<Partial<Invoice>, "status">): boolean {
+  return inv.status === "draft" || inv.status === "unpaid";
+}
+
+/**
+ * The invoice's timeline, oldest first. Invoices from before statuses were
+ * tracked start with a "created" step on their invoice date.
+ */
+export function statusTimeline(inv: Pick<Invoice, "date" | "status" | "statusHistory">): { label: string; at: string }[] {
+  const history = inv.statusHistory || [];
+  const steps = history.map(h => ({ label: INVOICE_STATUS_LABELS[h.status], at: h.at }));
+  if (history.length === 0 || history[0].status !== "draft") steps.unshift({ label: "Created", at: inv.date });
+  if (history.length === 0 && inv.status !== "unpaid") steps.push({ label: INVOICE_STATUS_LABELS[inv.status], at: "" });
+  return steps;
+}
@@ -0,0 +1,35 @@
+import type { Invoice, InvoiceItem } from "../types";
+
+export type InvoiceTotals = {
+  subtotal: number;
+  taxableSubtotal: number;
+  discount: number;
+  tax: number;
+  shipping: number;
+  total: number;
+};
+
+export function lineTotal(item: Pick<InvoiceItem, "quantity" | "rate">): number {
+  return (Number(item.quantity) || 0) * (Number(item.rate) || 0);
+}
+
+/** Lines are taxable unless marked otherwise (older invoices have no flag). */
+export function isTaxableLine(item: InvoiceItem): boolean {
+  return item.taxable !== false;
+}
+
+/**
+ * Subtotal, tax and total for an invoice. The discount is spread across lines
+ * in proportion to their amount, so only the taxable share of it reduces the
+ * taxed base. With every line taxable this is (subtotal - discount) * rate.
+ */
+export function invoiceTotals(inv: Pick<Partial<Invoice>, "items" | "discount" | "taxRate" | "shipping">): InvoiceTotals {
+  const items = inv.items || [];
+  const subtotal = items.reduce((sum, item) => sum + lineTotal(item), 0);
+  const taxableSubtotal = items.filter(isTaxableLine).reduce((sum, item) => sum + lineTotal(item), 0);
+  const discount = Number(inv.discount) || 0;
+  const shipping = Number(inv.shipping) || 0;
+  const taxableDiscount = subtotal > 0 ? discount * (taxableSubtotal / subtotal) : 0;
+  const tax = Math.max(0, taxableSubtotal - taxableDiscount) * ((Number(inv.taxRate) || 0) / 100);
+  return { subtotal, taxableSubtotal, discount, tax, shipping, total: Math.max(0, subtotal - discount + tax + shipping) };
+}
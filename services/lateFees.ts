@@ -0,0 +1,57 @@
+import type { Invoice, LateFeeRule, UserSettings } from "../types";
+import { balanceDue, isOutstanding } from "./invoicePayments";
+import { shiftDate } from "./bulkActions";
+
+export const DEFAULT_LATE_FEE_RULE: LateFeeRule = { enabled: false, kind: "percent", amount: 1.5, graceDays: 14, compoundMonthly: false };
+
+// Compounding fees follow this many days apart
+const FEE_PERIOD_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const roundMoney = (n: number) => Math.round(n * 100) / 100;
+
+export function daysPastDue(due: string, today: string): number {
+  if (!due) return 0;
+  return Math.max(0, Math.round((Date.parse(today) - Date.parse(due)) / DAY_MS));
+}
+
+/** The rule that applies to the invoice: its own, else the default. Disabled rules charge nothing. */
+export function lateFeeRuleFor(inv: Pick<Invoice, "lateFeeRule">, settings: Pick<UserSettings, "lateFeeRule">): LateFeeRule | undefined {
+  const rule = inv.lateFeeRule || settings.lateFeeRule;
+  return rule && rule.enabled && rule.amount > 0 ? rule : undefined;
+}
+
+export function describeLateFeeRule(rule: LateFeeRule, formatMoney: (n: number) => string): string {
+  const fee = rule.kind === "flat" ? formatMoney(rule.amount) : `${rule.amount}% of the balance`;
+  const when = rule.graceDays > 0 ? `${rule.graceDays} days after the due date` : "once the due date passes";
+  return `${fee} ${when}${rule.compoundMonthly ? ", then every 30 days" : ""}`;
+}
+
+/** Fees the rule has earned by `today`: one after the grace period, then one a period if compounding. */
+export function lateFeesEarned(rule: LateFeeRule, due: string, today: string): number {
+  const late = daysPastDue(due, today) - rule.graceDays;
+  if (late <= 0) return 0;
+  return rule.compoundMonthly ? 1 + Math.floor((late - 1) / FEE_PERIOD_DAYS) : 1;
+}
+
+export type PendingLateFee = { date: string; amount: number; description: string };
+
+/**
+ * Late fees earned but not yet on the invoice, priced in order. Only
+ * outstanding invoices accrue, and fee lines already added count as charged.
+ */
+export function pendingLateFees(inv: Invoice, rule: LateFeeRule, today: string): PendingLateFee[] {
+  if (!isOutstanding(inv)) return [];
+  const charged = (inv.items || []).filter(item => item.lateFee).length;
+  const earned = lateFeesEarned(rule, inv.due, today);
+  let balance = balanceDue(inv);
+  const fees: PendingLateFee[] = [];
+  for (let n = charged; n < earned; n++) {
+    const amount = rule.kind === "flat" ? roundMoney(rule.amount) : roundMoney((balance * rule.amount) / 100);
+    if (amount <= 0) break;
+    const date = shiftDate(inv.due, rule.graceDays + 1 + n * FEE_PERIOD_DAYS);
+    fees.push({ date, amount, description: `Late fee${rule.kind === "percent" ? ` (${rule.amount}%)` : ""} · ${date}` });
+    balance = roundMoney(balance + amount);
+  }
+  return fees;
+}
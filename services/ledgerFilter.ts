@@ -0,0 +1,75 @@
+import type { Invoice, LedgerQuery, Transaction } from "../types";
+
+export const EMPTY_LEDGER_QUERY: LedgerQuery = { text: "", categories: [] };
+
+export function isQueryActive(query: LedgerQuery): boolean {
+  return (
+    !!query.text.trim() ||
+    query.minAmount !== undefined ||
+    query.maxAmount !== undefined ||
+    !!query.fromDate ||
+    !!query.toDate ||
+    query.categories.length > 0
+  );
+}
+
+/** True when the query sets its own date range, which replaces the period picker. */
+export function hasDateRange(query: LedgerQuery): boolean {
+  return !!query.fromDate || !!query.toDate;
+}
+
+type LedgerRecord = Partial<Transaction> & Partial<Invoice>;
+
+function categoriesOf(record: LedgerRecord): string[] {
+  const list = record.category ? [record.category] : [];
+  (record.splits || []).forEach(sp => list.push(sp.category));
+  return list;
+}
+
+// Everything a search word can hit: names, notes, categories, client details,
+// invoice number and line items, plus the amount so "49.99" finds a charge
+function searchableText(record: LedgerRecord): string {
+  return [
+    record.name,
+    record.notes,
+    record.client,
+    record.clientCompany,
+    record.number,
+    record.description,
+    record.poNumber,
+    ...categoriesOf(record),
+    ...(record.splits || []).map(sp => sp.note),
+    ...(record.items || []).map(item => item.description),
+    record.amount !== undefined ? Number(record.amount).toFixed(2) : undefined,
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+}
+
+/** Every word of the search must appear somewhere; all other conditions must hold. */
+export function matchesLedgerQuery(record: LedgerRecord, query: LedgerQuery): boolean {
+  const amount = Math.abs(Number(record.amount) || 0);
+  if (query.minAmount !== undefined && amount < query.minAmount) return false;
+  if (query.maxAmount !== undefined && amount > query.maxAmount) return false;
+  if (query.fromDate && (!record.date || record.date < query.fromDate)) return false;
+  if (query.toDate && (!record.date || record.date > query.toDate)) return false;
+  if (query.categories.length > 0 && !categoriesOf(record).some(c => query.categories.includes(c))) return false;
+
+  const words = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const haystack = searchableText(record);
+  return words.every(word => haystack.includes(word));
+}
+
+/** Short human summary of a query, e.g. for preset tooltips. */
+export function describeQuery(query: LedgerQuery, currencySymbol: string): string {
+  const parts: string[] = [];
+  if (query.text.trim()) parts.push(`"${query.text.trim()}"`);
+  if (query.categories.length > 0) parts.push(query.categories.join(", "));
+  if (query.minAmount !== undefined && query.maxAmount !== undefined) parts.push(`${currencySymbol}${query.minAmount}–${currencySymbol}${query.maxAmount}`);
+  else if (query.minAmount !== undefined) parts.push(`≥ ${currencySymbol}${query.minAmount}`);
+  else if (query.maxAmount !== undefined) parts.push(`≤ ${currencySymbol}${query.maxAmount}`);
+  if (query.fromDate || query.toDate) parts.push(`${query.fromDate || "…"} to ${query.toDate || "…"}`);
+  return parts.join(" · ") || "All items";
+}
@@ -0,0 +1,143 @@
+import { SCHEMA_VERSION, LEGACY_SCHEMA_VERSION } from "../constants";
+
+// Persisted data and backups are plain JSON from whatever app version wrote them,
+// so migrations work on loosely-typed records.
+export type RawData = {
+  transactions?: any[];
+  invoices?: any[];
+  taxPayments?: any[];
+  receipts?: any[];
+  settings?: Record<string, any>;
+  customCategories?: Record<string, any>;
+  [key: string]: any;
+};
+
+type Migration = (data: RawData) => RawData;
+
+/** Raised when data was written by a newer app version than this one understands. */
+export class SchemaVersionError extends Error {
+  constructor(public readonly dataVersion: number) {
+    super(
+      `This data was created by a newer version of Moniezi (schema v${dataVersion}, this app supports up to v${SCHEMA_VERSION}). Please update the app and try again.`
+    );
+    this.name = "SchemaVersionError";
+  }
+}
+
+const asArray = (value: unknown): any[] => (Array.isArray(value) ? value : []);
+const asNumber = (value: unknown): number => Number(value) || 0;
+
+// Drop a malformed payPrefs so the app default applies instead
+function withoutInvalidPayPrefs(settings: Record<string, any>): Record<string, any> {
+  if (Array.isArray(settings.payPrefs)) return settings;
+  const { payPrefs: _ignored, ...rest } = settings;
+  return rest;
+}
+
+// An invoice's single linkedTransactionId becomes its first recorded payment
+function withPaymentList(inv: any, transactions: any[]): any {
+  const { linkedTransactionId, ...rest } = inv;
+  if (!linkedTransactionId || Array.isArray(inv.payments)) return rest;
+  const tx = transactions.find(t => t && t.id === linkedTransactionId);
+  return {
+    ...rest,
+    payments: [{
+      id: `${inv.id}_pmt_0`,
+      date: tx?.date || inv.date,
+      amount: tx ? asNumber(tx.amount) : asNumber(inv.amount),
+      method: inv.payMethod,
+      transactionId: linkedTransactionId,
+    }],
+  };
+}
+
+// Each entry upgrades data FROM the keyed version to the next one.
+// Never edit a migration once released — add a new version instead.
+const MIGRATIONS: Record<number, Migration> = {
+  // v7 -> v8: the "moniezi_v7_data" blob never enforced a shape. Fill in fields
+  // that were added over time (invoice line items, branding, tax settings) so
+  // older data no longer half-works.
+  7: (data) => ({
+    ...data,
+    transactions: asArray(data.transactions)
+      .filter(t => t && t.id)
+      .map(t => ({ ...t, amount: asNumber(t.amount), type: t.type === "expense" ? "expense" : "income" })),
+    invoices: asArray(data.invoices)
+      .filter(i => i && i.id)
+      .map(i => {
+        const amount = asNumber(i.amount);
+        const items = Array.isArray(i.items) && i.items.length > 0
+          ? i.items.map((item: any, idx: number) => ({
+              id: item.id || `${i.id}_item_${idx}`,
+              description: item.description || "",
+              quantity: asNumber(item.quantity),
+              rate: asNumber(item.rate),
+            }))
+          : [{ id: `${i.id}_item_0`, description: i.description || "Services", quantity: 1, rate: amount }];
+        return {
+          ...i,
+          amount,
+          items,
+          subtotal: i.subtotal !== undefined ? asNumber(i.subtotal) : amount,
+          discount: asNumber(i.discount),
+          taxRate: asNumber(i.taxRate),
+          shipping: asNumber(i.shipping),
+          status: i.status === "paid" || i.status === "void" ? i.status : "unpaid",
+        };
+      }),
+    taxPayments: asArray(data.taxPayments)
+      .filter(p => p && p.id)
+      .map(p => ({ ...p, amount: asNumber(p.amount), type: p.type || "Estimated" })),
+    receipts: asArray(data.receipts).filter(r => r && r.id && r.imageData),
+    settings: data.settings ? withoutInvalidPayPrefs({
+      showLogoOnInvoice: true,
+      logoAlignment: "left",
+      brandColor: "#2563eb",
+      stateTaxRate: 0,
+      taxEstimationMethod: "custom",
+      filingStatus: "single",
+      ...data.settings,
+    }) : undefined,
+    customCategories: {
+      income: asArray(data.customCategories?.income),
+      expense: asArray(data.customCategories?.expense),
+      billing: asArray(data.customCategories?.billing),
+    },
+  }),
+  // v8 -> v9: invoices hold a list of payments instead of one linked payment
+  // transaction, and trashed invoices keep all of their payment transactions.
+  8: (data) => {
+    const transactions = asArray(data.transactions);
+    return {
+      ...data,
+      invoices: asArray(data.invoices).map(inv => withPaymentList(inv, transactions)),
+      trash: asArray(data.trash).map(item => {
+        if (item?.kind !== "invoice") return item;
+        const { linkedTransaction, ...rest } = item;
+        const payments = linkedTransaction ? [linkedTransaction] : [];
+        return { ...rest, record: withPaymentList(item.record, payments), linkedTransactions: payments.length > 0 ? payments : undefined };
+      }),
+    };
+  },
+};
+
+/** Backups written before schema versioning only carried `metadata.version: "1.0.0"`. */
+export function getBackupSchemaVersion(metadata: any): number {
+  const version = Number(metadata?.schemaVersion);
+  return Number.isInteger(version) && version > 0 ? version : LEGACY_SCHEMA_VERSION;
+}
+
+/**
+ * Runs every migration between `fromVersion` and the current SCHEMA_VERSION.
+ * Throws if the data comes from a newer app version than this one.
+ */
+export function migrateData(data: RawData, fromVersion: number): RawData {
+  if (fromVersion > SCHEMA_VERSION) throw new SchemaVersionError(fromVersion);
+  let current = data;
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration available from schema v${version}.`);
+    current = migrate(current);
+  }
+  return current;
+}
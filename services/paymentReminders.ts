@@ -0,0 +1,72 @@
+import type { Invoice } from "../types";
+import { balanceDue, isOutstanding } from "./invoicePayments";
+import { shiftDate } from "./bulkActions";
+import { daysPastDue } from "./lateFees";
+
+// Days relative to the due date: 3 before, on the day, then 7, 14 and 30 after
+export const DEFAULT_REMINDER_SCHEDULE = [-3, 0, 7, 14, 30];
+
+export function reminderLabel(offsetDays: number): string {
+  if (offsetDays === 0) return "On the due date";
+  const days = Math.abs(offsetDays);
+  return `${days} ${days === 1 ? "day" : "days"} ${offsetDays < 0 ? "before due" : "overdue"}`;
+}
+
+export function reminderDate(inv: Pick<Invoice, "due">, offsetDays: number): string {
+  return shiftDate(inv.due, offsetDays);
+}
+
+/**
+ * The latest step of the schedule that has come round since the last reminder
+ * went out. Earlier steps it supersedes are skipped rather than sent late.
+ */
+export function dueReminder(inv: Invoice, schedule: number[], today: string): number | undefined {
+  if (!isOutstanding(inv) || !inv.due) return undefined;
+  const lastSent = Math.max(-Infinity, ...(inv.reminders || []).map(r => r.offsetDays));
+  const arrived = schedule.filter(offset => offset > lastSent && reminderDate(inv, offset) <= today);
+  return arrived.length > 0 ? Math.max(...arrived) : undefined;
+}
+
+/** The step after the ones that have already come round, if any. */
+export function nextReminder(inv: Invoice, schedule: number[], today: string): number | undefined {
+  if (!isOutstanding(inv) || !inv.due) return undefined;
+  const upcoming = schedule.filter(offset => reminderDate(inv, offset) > today);
+  return upcoming.length > 0 ? Math.min(...upcoming) : undefined;
+}
+
+export type ReminderContext = {
+  businessName: string;
+  senderName: string;
+  payMethods: string[];
+  formatMoney: (n: number) => string;
+  lateFeeNote?: string; // The invoice's late-fee rule, in words
+};
+
+/** Ready-to-send reminder text for one step of the schedule. */
+export function reminderMessage(inv: Invoice, offsetDays: number, today: string, ctx: ReminderContext): { subject: string; body: string } {
+  const ref = inv.number ? `#${inv.number}` : `dated ${inv.date}`;
+  const overdue = daysPastDue(inv.due, today);
+  let subject: string, intro: string;
+  if (overdue > 0) {
+    subject = `Overdue: invoice ${ref} (${overdue} ${overdue === 1 ? "day" : "days"})`;
+    intro = `Invoice ${ref} was due on ${inv.due} and is now ${overdue} ${overdue === 1 ? "day" : "days"} overdue.`;
+  } else if (inv.due === today) {
+    subject = `Invoice ${ref} is due today`;
+    intro = `Just a reminder that invoice ${ref} is due today.`;
+  } else {
+    subject = `Reminder: invoice ${ref} due ${inv.due}`;
+    intro = `This is a friendly reminder that invoice ${ref} is due on ${inv.due}.`;
+  }
+  const lines = [
+    `Hi ${inv.client},`,
+    "",
+    intro,
+    "",
+    `Amount due: ${ctx.formatMoney(balanceDue(inv))}`,
+    `Due date: ${inv.due}`,
+  ];
+  if (ctx.payMethods.length > 0) lines.push(`Payment methods: ${ctx.payMethods.join(", ")}`);
+  if (ctx.lateFeeNote && offsetDays <= 0) lines.push("", `Late fee terms: ${ctx.lateFeeNote}.`);
+  lines.push("", overdue > 0 ? "If you've already sent payment, please disregard this message." : "Thank you for your business.", "", ctx.senderName, ctx.businessName);
+  return { subject, body: lines.filter((line, i, all) => line !== "" || all[i - 1] !== "").join("\n") };
+}
@@ -0,0 +1,19 @@
+// Once estimates or returns are filed for a period, the entries behind them
+// must not drift. Everything dated on or before the closing date is read-only.
+
+export function isInClosedPeriod(date: string | undefined, closingDate: string | undefined): boolean {
+  return !!date && !!closingDate && date <= closingDate;
+}
+
+/** True when any of the dates (before and after a change) falls in the closed period. */
+export function touchesClosedPeriod(dates: (string | undefined)[], closingDate: string | undefined): boolean {
+  return dates.some(date => isInClosedPeriod(date, closingDate));
+}
+
+/** Last day of the quarter before the one containing `today`, e.g. "2026-03-31" during Q2 2026. */
+export function previousQuarterEnd(today: Date = new Date()): string {
+  const quarterStartMonth = Math.floor(today.getMonth() / 3) * 3;
+  const end = new Date(today.getFullYear(), quarterStartMonth, 0);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${end.getFullYear()}-${pad(end.getMonth() + 1)}-${pad(end.getDate())}`;
+}
@@ -0,0 +1,136 @@
+import type { DateRange, FilterPeriod } from "../types";
+
+// Period filters work on YYYY-MM-DD strings so a date never shifts a day
+// through UTC parsing. Quarters and years follow the fiscal year, which
+// starts on the first of `fiscalYearStartMonth` (0 = January).
+
+export const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export function toDateString(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function fromDateString(date: string): Date {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+export function isInRange(date: string | undefined, range: DateRange | null): boolean {
+  if (!range) return true;
+  return !!date && date >= range.start && date <= range.end;
+}
+
+/** Monday-to-Sunday week containing `ref`. */
+export function weekRange(ref: Date): DateRange {
+  const day = ref.getDay();
+  const start = new Date(ref.getFullYear(), ref.getMonth(), ref.getDate() - day + (day === 0 ? -6 : 1));
+  const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 6);
+  return { start: toDateString(start), end: toDateString(end) };
+}
+
+/** Calendar year in which the fiscal year containing `ref` starts. */
+export function fiscalYearOf(ref: Date, startMonth = 0): number {
+  return ref.getMonth() >= startMonth ? ref.getFullYear() : ref.getFullYear() - 1;
+}
+
+export function fiscalYearRange(ref: Date, startMonth = 0): DateRange {
+  const year = fiscalYearOf(ref, startMonth);
+  return { start: toDateString(new Date(year, startMonth, 1)), end: toDateString(new Date(year + 1, startMonth, 0)) };
+}
+
+/** Fiscal year start through today (or `ref`), the basis for YTD figures. */
+export function fiscalYearToDate(ref: Date = new Date(), startMonth = 0): DateRange {
+  return { start: fiscalYearRange(ref, startMonth).start, end: toDateString(ref) };
+}
+
+/** 1-4, counted from the fiscal year start. */
+export function fiscalQuarterOf(ref: Date, startMonth = 0): number {
+  return Math.floor(((ref.getMonth() - startMonth + 12) % 12) / 3) + 1;
+}
+
+export function fiscalQuarterRange(ref: Date, startMonth = 0): DateRange {
+  const year = fiscalYearOf(ref, startMonth);
+  const firstMonth = startMonth + (fiscalQuarterOf(ref, startMonth) - 1) * 3;
+  return { start: toDateString(new Date(year, firstMonth, 1)), end: toDateString(new Date(year, firstMonth + 3, 0)) };
+}
+
+/** "2026" for calendar years, "FY 2026-27" when the year starts mid-calendar. */
+export function fiscalYearLabel(ref: Date, startMonth = 0): string {
+  const year = fiscalYearOf(ref, startMonth);
+  return startMonth === 0 ? String(year) : `FY ${year}-${String(year + 1).slice(2)}`;
+}
+
+export type PeriodOptions = {
+  fiscalYearStartMonth?: number;
+  customRange?: DateRange;
+};
+
+/** Inclusive date range for a period filter, or null for all time. */
+export function periodRange(period: FilterPeriod, ref: Date, options: PeriodOptions = {}): DateRange | null {
+  const startMonth = options.fiscalYearStartMonth || 0;
+  switch (period) {
+    case "all":
+      return null;
+    case "daily":
+      return { start: toDateString(ref), end: toDateString(ref) };
+    case "weekly":
+      return weekRange(ref);
+    case "monthly":
+      return {
+        start: toDateString(new Date(ref.getFullYear(), ref.getMonth(), 1)),
+        end: toDateString(new Date(ref.getFullYear(), ref.getMonth() + 1, 0)),
+      };
+    case "quarterly":
+      return fiscalQuarterRange(ref, startMonth);
+    case "yearly":
+      return fiscalYearRange(ref, startMonth);
+    case "custom":
+      return options.customRange || null;
+  }
+}
+
+/** Moves the reference date one period forward (1) or back (-1). */
+export function shiftPeriod(period: FilterPeriod, ref: Date, dir: number): Date {
+  const next = new Date(ref);
+  if (period === "daily") next.setDate(next.getDate() + dir);
+  else if (period === "weekly") next.setDate(next.getDate() + dir * 7);
+  else if (period === "monthly") next.setMonth(next.getMonth() + dir, 1);
+  else if (period === "quarterly") next.setMonth(next.getMonth() + dir * 3, 1);
+  else if (period === "yearly") next.setFullYear(next.getFullYear() + dir);
+  return next;
+}
+
+const shortDate = (date: string, withYear = false) =>
+  fromDateString(date).toLocaleDateString("en-US", { month: "short", day: "numeric", ...(withYear ? { year: "numeric" } : {}) });
+
+export function formatRange(range: DateRange): string {
+  const sameYear = range.start.slice(0, 4) === range.end.slice(0, 4);
+  return `${shortDate(range.start, !sameYear)} - ${shortDate(range.end, true)}`;
+}
+
+export function periodLabel(period: FilterPeriod, ref: Date, options: PeriodOptions = {}): string {
+  const startMonth = options.fiscalYearStartMonth || 0;
+  switch (period) {
+    case "all":
+      return "All Time";
+    case "daily":
+      return ref.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+    case "weekly": {
+      const { start, end } = weekRange(ref);
+      return `${shortDate(start)} - ${shortDate(end)}`;
+    }
+    case "monthly":
+      return ref.toLocaleDateString("en-US", { month: "long", year: "numeric" });
+    case "quarterly":
+      return `Q${fiscalQuarterOf(ref, startMonth)} ${fiscalYearLabel(ref, startMonth)}`;
+    case "yearly":
+      return fiscalYearLabel(ref, startMonth);
+    case "custom":
+      return options.customRange ? formatRange(options.customRange) : "Custom Range";
+  }
+}
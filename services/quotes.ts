@@ -0,0 +1,72 @@
+import type { Invoice, Quote, QuoteStatus } from "../types";
+import { nextSequenceNumber } from "./invoiceNumbering";
+
+export const DEFAULT_QUOTE_VALID_DAYS = 30;
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  accepted: "Accepted",
+  declined: "Declined",
+  expired: "Expired",
+};
+
+export function nextQuoteNumber(quotes: Quote[]): string {
+  return nextSequenceNumber("QT", quotes.map(q => q.number));
+}
+
+/** Drafts and sent quotes expire once their valid-until date has passed. */
+export function quoteStatus(quote: Quote, today: string = new Date().toISOString().split("T")[0]): QuoteStatus {
+  if ((quote.status === "draft" || quote.status === "sent") && quote.validUntil < today) return "expired";
+  return quote.status;
+}
+
+export function isQuoteOpen(quote: Quote, today?: string): boolean {
+  const status = quoteStatus(quote, today);
+  return status === "draft" || status === "sent";
+}
+
+const sharedFields = (source: Partial<Quote> | Partial<Invoice>) => ({
+  clientId: source.clientId,
+  client: source.client || "",
+  clientCompany: source.clientCompany,
+  clientAddress: source.clientAddress,
+  clientEmail: source.clientEmail,
+  amount: source.amount || 0,
+  category: source.category || "",
+  description: source.description || "",
+  date: source.date || new Date().toISOString().split("T")[0],
+  notes: source.notes,
+  terms: source.terms,
+  items: source.items,
+  subtotal: source.subtotal,
+  discount: source.discount,
+  taxRate: source.taxRate,
+  shipping: source.shipping,
+  poNumber: source.poNumber,
+  currency: source.currency,
+});
+
+/**
+ * The quote as an invoice-shaped draft, so the invoice editor and PDF preview
+ * can show it. The valid-until date travels in `due`.
+ */
+export function quoteToDraft(quote: Quote): Partial<Invoice> {
+  return { ...sharedFields(quote), id: quote.id, number: quote.number, due: quote.validUntil, status: "draft" };
+}
+
+/** Reads the editor draft back into quote fields; status and conversion stay with the caller. */
+export function quoteFieldsFromDraft(draft: Partial<Invoice>): Omit<Quote, "id" | "number" | "status" | "invoiceId"> {
+  return { ...sharedFields(draft), validUntil: draft.due || draft.date || new Date().toISOString().split("T")[0] };
+}
+
+/** A new draft invoice carrying the quote's client, lines and totals. */
+export function invoiceFromQuote(quote: Quote, date: string, due: string): Omit<Invoice, "id" | "number"> {
+  return {
+    ...sharedFields(quote),
+    date,
+    due,
+    status: "draft",
+    notes: [quote.notes, `Based on quote ${quote.number}`].filter(Boolean).join("\n"),
+  };
+}
@@ -0,0 +1,94 @@
+import type { Account, Reconciliation, Transaction } from "../types";
+import { balanceEffect, isTransfer, touchesAccount } from "./accounts";
+
+// A transfer carries one cleared/reconciled flag for both of its accounts, so
+// reconciling either side locks it for the other as well.
+
+export function isReconciled(t: Transaction): boolean {
+  return !!t.reconciliationId;
+}
+
+/** Most recent finished reconciliation for an account. */
+export function lastReconciliation(reconciliations: Reconciliation[], accountId: string): Reconciliation | undefined {
+  return reconciliations
+    .filter(r => r.accountId === accountId)
+    .reduce<Reconciliation | undefined>((latest, r) => (!latest || r.statementDate > latest.statementDate ? r : latest), undefined);
+}
+
+/** Date up to which an account's ledger is closed by reconciliation, if any. */
+export function lockedThrough(reconciliations: Reconciliation[], accountId?: string): string | undefined {
+  return accountId ? lastReconciliation(reconciliations, accountId)?.statementDate : undefined;
+}
+
+/** Unreconciled transactions in the account dated on or before the statement date, oldest first. */
+export function reconciliationCandidates(accountId: string, transactions: Transaction[], statementDate: string): Transaction[] {
+  return transactions
+    .filter(t => touchesAccount(t, accountId) && !isReconciled(t) && t.date <= statementDate)
+    .sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+}
+
+/**
+ * What the bank should show for the account: the opening balance plus every
+ * reconciled transaction and every cleared one up to the statement date.
+ */
+export function clearedBalance(account: Account, transactions: Transaction[], statementDate: string): number {
+  return transactions.reduce((balance, t) => {
+    if (!touchesAccount(t, account.id)) return balance;
+    if (isReconciled(t) || (t.cleared && t.date <= statementDate)) return balance + balanceEffect(t, account.id);
+    return balance;
+  }, Number(account.openingBalance) || 0);
+}
+
+/** Statement balance minus cleared balance, rounded to cents; 0 means the account reconciles. */
+export function reconciliationDifference(statementBalance: number, cleared: number): number {
+  return Math.round((statementBalance - cleared) * 100) / 100;
+}
+
+const accountsOf = (t: Partial<Transaction>): string[] =>
+  [t.accountId, isTransfer({ type: t.type || "income" }) ? t.transferAccountId : undefined].filter((id): id is string => !!id);
+
+/**
+ * Returns a message when saving `next` would change a reconciled period, or
+ * undefined when the change is allowed. Only category and notes stay editable on
+ * reconciled transactions; the payee has to keep matching the bank statement.
+ */
+export function reconciliationLockError(
+  reconciliations: Reconciliation[],
+  next: Partial<Transaction>,
+  original?: Transaction
+): string | undefined {
+  if (original && isReconciled(original)) {
+    const moved =
+      (next.name ?? original.name) !== original.name ||
+      Number(next.amount) !== original.amount ||
+      next.date !== original.date ||
+      next.type !== original.type ||
+      (next.accountId || undefined) !== original.accountId ||
+      (next.transferAccountId || undefined) !== original.transferAccountId;
+    return moved ? "This transaction is reconciled. Only its category and notes can be changed." : undefined;
+  }
+  if (!next.date) return undefined;
+  // Outstanding items left uncleared in a reconciled period can still be edited in place
+  const unmoved = original && original.date === next.date && accountsOf(original).join() === accountsOf(next).join();
+  if (unmoved) return undefined;
+  for (const accountId of accountsOf(next)) {
+    const through = lockedThrough(reconciliations, accountId);
+    if (through && next.date <= through) return `This account is reconciled through ${through}. Use a later date.`;
+  }
+  return undefined;
+}
+
+/** Locks the given transactions under a new reconciliation. */
+export function applyReconciliation(transactions: Transaction[], reconciliation: Reconciliation): Transaction[] {
+  const ids = new Set(reconciliation.transactionIds);
+  return transactions.map(t => (ids.has(t.id) ? { ...t, cleared: true, reconciliationId: reconciliation.id } : t));
+}
+
+/** Unlocks a reconciliation's transactions; they stay cleared so it can be redone. */
+export function undoReconciliation(transactions: Transaction[], reconciliationId: string): Transaction[] {
+  return transactions.map(t => {
+    if (t.reconciliationId !== reconciliationId) return t;
+    const { reconciliationId: _ignored, ...rest } = t;
+    return rest;
+  });
+}
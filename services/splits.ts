@@ -0,0 +1,55 @@
+import type { Transaction, TransactionSplit } from "../types";
+
+// A split transaction keeps its full `amount` (so income/expense totals are
+// unchanged) but reports per category through its lines. Anything that
+// groups money by category should go through these helpers.
+
+export type CategoryAmount = { category: string; amount: number; note?: string };
+
+const toCents = (n: number) => Math.round((Number(n) || 0) * 100);
+
+export function isSplit(t: Pick<Transaction, "splits">): boolean {
+  return Array.isArray(t.splits) && t.splits.length > 0;
+}
+
+/** The category/amount lines a transaction contributes to reports. */
+export function categoryLines(t: Transaction): CategoryAmount[] {
+  if (!isSplit(t)) return [{ category: t.category || "Uncategorized", amount: Number(t.amount) || 0 }];
+  return t.splits!.map(s => ({ category: s.category || "Uncategorized", amount: Number(s.amount) || 0, note: s.note }));
+}
+
+/** Expands split transactions into one record per line, for code that groups whole transactions. */
+export function expandSplits(transactions: Transaction[]): Transaction[] {
+  return transactions.flatMap(t => {
+    if (!isSplit(t)) return [t];
+    return t.splits!.map(s => ({ ...t, category: s.category, amount: Number(s.amount) || 0, splits: undefined }));
+  });
+}
+
+export function totalsByCategory(transactions: Transaction[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  transactions.forEach(t => {
+    categoryLines(t).forEach(line => {
+      totals[line.category] = (totals[line.category] || 0) + line.amount;
+    });
+  });
+  return totals;
+}
+
+export function splitsTotal(splits: TransactionSplit[]): number {
+  return splits.reduce((sum, s) => sum + toCents(s.amount), 0) / 100;
+}
+
+/** Returns an error message, or null when the lines are valid for `amount`. */
+export function validateSplits(amount: number, splits: TransactionSplit[]): string | null {
+  if (splits.length < 2) return "A split needs at least two lines";
+  if (splits.some(s => !s.category)) return "Choose a category for every split line";
+  if (splits.some(s => !(Number(s.amount) > 0))) return "Every split line needs an amount";
+  if (toCents(splitsTotal(splits)) !== toCents(amount)) return "Split lines must add up to the transaction amount";
+  return null;
+}
+
+/** The category shown for a split transaction in lists and used by older code paths. */
+export function primaryCategory(splits: TransactionSplit[]): string {
+  return splits.reduce((best, s) => (Number(s.amount) > Number(best.amount) ? s : best), splits[0]).category;
+}
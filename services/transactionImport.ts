@@ -0,0 +1,429 @@
+import type { Transaction, CategoryRule } from "../types";
+import { categorize } from "./categoryRules";
+
+// A transaction read from a bank statement, before it is given an id.
+export type ImportedTransaction = {
+  rowNumber: number; // 1-based line in the source file, for error messages
+  date: string; // YYYY-MM-DD
+  name: string;
+  amount: number; // always positive; direction lives in `type`
+  type: "income" | "expense";
+  category: string;
+  notes?: string;
+  externalId?: string; // bank-assigned id (OFX FITID), stable across re-downloads
+  error?: string;
+  duplicateOf?: string; // id of the existing transaction this likely repeats
+};
+
+// Column indexes into a CSV row; null means "not in this file".
+export type ColumnMapping = {
+  date: number | null;
+  description: number | null;
+  amount: number | null;
+  debit: number | null;
+  credit: number | null;
+  category: number | null;
+};
+
+export type DateFormat = "auto" | "ymd" | "mdy" | "dmy";
+
+export type StatementImportOptions = {
+  dateFormat: DateFormat;
+  // Applied to rows the file doesn't categorise, before falling back to the defaults
+  rules?: CategoryRule[];
+  defaultIncomeCategory: string;
+  defaultExpenseCategory: string;
+};
+
+export type CsvImportOptions = StatementImportOptions & {
+  hasHeader: boolean;
+  // Some banks export spending as positive numbers
+  invertAmounts: boolean;
+};
+
+export type StatementFormat = "csv" | "ofx" | "qif";
+
+export const EMPTY_MAPPING: ColumnMapping = {
+  date: null,
+  description: null,
+  amount: null,
+  debit: null,
+  credit: null,
+  category: null,
+};
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  const candidates = [",", ";", "\t", "|"];
+  let best = ",";
+  let bestCount = 0;
+  candidates.forEach(d => {
+    const count = firstLine.split(d).length - 1;
+    if (count > bestCount) {
+      best = d;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/** Parses CSV text (quoted fields, escaped quotes, CRLF) into rows of trimmed cells. */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell.trim());
+      if (row.some(c => c !== "")) rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell.trim());
+  if (row.some(c => c !== "")) rows.push(row);
+  return rows;
+}
+
+const HEADER_HINTS: Record<keyof ColumnMapping, RegExp> = {
+  date: /^(transaction |posted |posting |value )?date$|^date/i,
+  description: /description|payee|merchant|memo|details|narrative|name/i,
+  amount: /^(transaction )?amount|^value$|^sum$/i,
+  debit: /debit|withdrawal|money out|paid out|outflow/i,
+  credit: /credit|deposit|money in|paid in|inflow/i,
+  category: /category/i,
+};
+
+/** Guesses which column holds which field from the header row. */
+export function inferColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = { ...EMPTY_MAPPING };
+  const used = new Set<number>();
+  (Object.keys(HEADER_HINTS) as (keyof ColumnMapping)[]).forEach(field => {
+    const index = headers.findIndex((h, i) => !used.has(i) && HEADER_HINTS[field].test(h.trim()));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+  // A single signed amount column wins over debit/credit guesses
+  if (mapping.amount !== null) {
+    mapping.debit = null;
+    mapping.credit = null;
+  }
+  return mapping;
+}
+
+/** Parses "$1,234.56", "(12.00)", "12.00-", "1.234,56" style amounts. Returns null if unreadable. */
+export function parseAmount(value: string): number | null {
+  let s = (value || "").trim();
+  if (!s) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(s)) {
+    negative = true;
+    s = s.slice(1, -1);
+  }
+  if (s.endsWith("-")) {
+    negative = true;
+    s = s.slice(0, -1);
+  }
+  if (/\bDR$/i.test(s)) {
+    negative = true;
+    s = s.replace(/\s*DR$/i, "");
+  }
+  s = s.replace(/\s*CR$/i, "");
+  s = s.replace(/[^\d.,-]/g, "");
+  if (s.startsWith("-")) {
+    negative = !negative;
+    s = s.slice(1);
+  }
+  // "1.234,56" -> decimal comma
+  if (/,\d{1,2}$/.test(s) && (s.indexOf(".") === -1 || s.lastIndexOf(".") < s.lastIndexOf(","))) {
+    s = s.replace(/\./g, "").replace(",", ".");
+  } else {
+    s = s.replace(/,/g, "");
+  }
+  const n = Number(s);
+  if (!s || !Number.isFinite(n)) return null;
+  return negative ? -n : n;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function toIsoDate(y: number, m: number, d: number): string | null {
+  if (y < 100) y += 2000;
+  const date = new Date(y, m - 1, d);
+  if (date.getFullYear() !== y || date.getMonth() !== m - 1 || date.getDate() !== d) return null;
+  return `${y}-${pad(m)}-${pad(d)}`;
+}
+
+/** Normalizes a statement date to YYYY-MM-DD. "auto" assumes month-first for ambiguous dates. */
+export function parseImportDate(value: string, format: DateFormat = "auto"): string | null {
+  const s = (value || "").trim();
+  if (!s) return null;
+
+  const iso = s.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (iso && (format === "auto" || format === "ymd")) return toIsoDate(+iso[1], +iso[2], +iso[3]);
+
+  const compact = s.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (compact && (format === "auto" || format === "ymd")) return toIsoDate(+compact[1], +compact[2], +compact[3]);
+
+  const parts = s.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  if (parts) {
+    const a = +parts[1];
+    const b = +parts[2];
+    const y = +parts[3];
+    if (format === "dmy") return toIsoDate(y, b, a);
+    if (format === "mdy") return toIsoDate(y, a, b);
+    if (format === "auto") return a > 12 ? toIsoDate(y, b, a) : toIsoDate(y, a, b);
+  }
+
+  if (format === "auto") {
+    const t = Date.parse(s);
+    if (Number.isFinite(t)) {
+      const d = new Date(t);
+      return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+    }
+  }
+  return null;
+}
+
+// Shared by every format: the sign of the amount decides income vs expense, and
+// rows that can't be read are returned with `error` set rather than dropped.
+function toImportedRow(
+  rowNumber: number,
+  date: string | null,
+  rawName: string,
+  signed: number | null,
+  rawCategory: string,
+  options: StatementImportOptions,
+  extra: { notes?: string; externalId?: string } = {}
+): ImportedTransaction {
+  const name = rawName.replace(/\s+/g, " ").trim();
+  const type: "income" | "expense" = signed !== null && signed < 0 ? "expense" : "income";
+  const category = rawCategory.trim() ||
+    (options.rules && signed !== null ? categorize(options.rules, { name, amount: signed, type }) : null) ||
+    (type === "income" ? options.defaultIncomeCategory : options.defaultExpenseCategory);
+
+  let error: string | undefined;
+  if (!date) error = "Unreadable date";
+  else if (signed === null) error = "Unreadable amount";
+  else if (signed === 0) error = "Zero amount";
+  else if (!name) error = "Missing description";
+
+  return {
+    rowNumber,
+    date: date || "",
+    name: name || "Imported transaction",
+    amount: signed === null ? 0 : Math.round(Math.abs(signed) * 100) / 100,
+    type,
+    category,
+    ...(extra.notes ? { notes: extra.notes } : {}),
+    ...(extra.externalId ? { externalId: extra.externalId } : {}),
+    error,
+  };
+}
+
+const cellAt = (row: string[], index: number | null) => (index === null ? "" : row[index] || "");
+
+/**
+ * Turns CSV rows into import candidates using the chosen mapping. With
+ * separate debit/credit columns, whichever one is filled gives the sign.
+ */
+export function buildImportRows(rows: string[][], mapping: ColumnMapping, options: CsvImportOptions): ImportedTransaction[] {
+  const dataRows = options.hasHeader ? rows.slice(1) : rows;
+  const offset = options.hasHeader ? 2 : 1;
+
+  return dataRows.map((row, idx) => {
+    const date = parseImportDate(cellAt(row, mapping.date), options.dateFormat);
+
+    let signed: number | null = null;
+    if (mapping.amount !== null) {
+      signed = parseAmount(cellAt(row, mapping.amount));
+    } else if (mapping.debit !== null || mapping.credit !== null) {
+      const debit = parseAmount(cellAt(row, mapping.debit));
+      const credit = parseAmount(cellAt(row, mapping.credit));
+      if (debit !== null || credit !== null) signed = Math.abs(credit || 0) - Math.abs(debit || 0);
+    }
+    if (signed !== null && options.invertAmounts) signed = -signed;
+
+    return toImportedRow(idx + offset, date, cellAt(row, mapping.description), signed, cellAt(row, mapping.category), options);
+  });
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&amp;/gi, "&");
+}
+
+// OFX 1.x is SGML with unclosed leaf tags, 2.x is XML; reading up to the next
+// tag or line break handles both.
+function ofxTag(block: string, tag: string): string {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? decodeEntities(match[1].trim()) : "";
+}
+
+/**
+ * Parses OFX / QFX statement downloads. FITID becomes the `externalId`, so
+ * re-importing an overlapping statement can recognise entries already in the ledger.
+ */
+export function parseOfx(text: string, options: StatementImportOptions): ImportedTransaction[] {
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+  return blocks.map((chunk, idx) => {
+    const block = chunk.split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0];
+    // DTPOSTED is YYYYMMDD[HHMMSS[.XXX]][TZ]
+    const posted = ofxTag(block, "DTPOSTED").slice(0, 8);
+    const date = parseImportDate(posted, "ymd");
+    const signed = parseAmount(ofxTag(block, "TRNAMT"));
+    const name = ofxTag(block, "NAME") || ofxTag(block, "PAYEE") || ofxTag(block, "MEMO");
+    const memo = ofxTag(block, "MEMO");
+    const fitId = ofxTag(block, "FITID");
+    return toImportedRow(idx + 1, date, name, signed, "", options, {
+      notes: memo && memo !== name ? memo : undefined,
+      externalId: fitId ? `ofx:${fitId}` : undefined,
+    });
+  });
+}
+
+/**
+ * Parses Quicken Interchange Format. QIF has no transaction ids, so these rows
+ * rely on the date/amount/name duplicate check. Categories in [brackets] are
+ * transfers to another Quicken account and are ignored.
+ */
+export function parseQif(text: string, options: StatementImportOptions): ImportedTransaction[] {
+  const rows: ImportedTransaction[] = [];
+  let fields: Record<string, string> = {};
+  let hasFields = false;
+
+  const flush = () => {
+    if (!hasFields) return;
+    // Quicken writes years as 1/15'26
+    const date = parseImportDate((fields.D || "").replace("'", "/").replace(/\s+/g, ""), options.dateFormat);
+    const signed = parseAmount(fields.T || fields.U || "");
+    const category = /^\[.*\]$/.test(fields.L || "") ? "" : (fields.L || "").split(":")[0];
+    rows.push(toImportedRow(rows.length + 1, date, fields.P || fields.M || "", signed, category, options, {
+      notes: fields.P && fields.M ? fields.M : undefined,
+    }));
+    fields = {};
+    hasFields = false;
+  };
+
+  text.split(/\r?\n/).forEach(line => {
+    if (!line || line.startsWith("!")) return;
+    const code = line[0];
+    if (code === "^") {
+      flush();
+      return;
+    }
+    if (!(code in fields)) fields[code] = line.slice(1).trim();
+    hasFields = true;
+  });
+  flush();
+  return rows;
+}
+
+/** Picks the parser from the file extension, falling back to sniffing the content. */
+export function detectStatementFormat(fileName: string, text: string): StatementFormat {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "ofx" || ext === "qfx") return "ofx";
+  if (ext === "qif") return "qif";
+  if (ext === "csv") return "csv";
+  const head = text.slice(0, 500).toUpperCase();
+  if (head.includes("OFXHEADER") || head.includes("<OFX>")) return "ofx";
+  if (/^\s*!TYPE:/m.test(head)) return "qif";
+  return "csv";
+}
+
+// Bank descriptions carry card numbers, reference codes and dates that
+// differ from what was typed by hand, so compare on the words only.
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function namesMatch(a: string, b: string): boolean {
+  const na = normalizeName(a);
+  const nb = normalizeName(b);
+  if (!na || !nb) return false;
+  return na === nb || na.includes(nb) || nb.includes(na);
+}
+
+const DUPLICATE_DAY_WINDOW = 3;
+
+function daysApart(a: string, b: string): number {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / 86400000;
+}
+
+/**
+ * Flags rows that probably already exist. A matching `externalId` is certain;
+ * otherwise it needs the same type and amount, and either the same date, or a
+ * similar name within a few days (bank posting dates lag). Each existing
+ * transaction is matched at most once so repeated identical charges in one
+ * statement are not all flagged.
+ */
+export function markDuplicates(rows: ImportedTransaction[], existing: Transaction[]): ImportedTransaction[] {
+  const claimed = new Set<string>();
+  const byExternalId = new Map<string, Transaction>();
+  const seenExternalIds = new Set<string>();
+  const byAmount = new Map<string, Transaction[]>();
+  existing.forEach(t => {
+    if (t.externalId) byExternalId.set(t.externalId, t);
+    const key = `${t.type}|${Math.round(Number(t.amount) * 100)}`;
+    const list = byAmount.get(key);
+    if (list) list.push(t);
+    else byAmount.set(key, [t]);
+  });
+
+  return rows.map(row => {
+    if (row.error) return row;
+    if (row.externalId) {
+      if (seenExternalIds.has(row.externalId)) return { ...row, error: "Repeated in file" };
+      seenExternalIds.add(row.externalId);
+      const known = byExternalId.get(row.externalId);
+      if (known) {
+        claimed.add(known.id);
+        return { ...row, duplicateOf: known.id };
+      }
+    }
+    // Two different bank ids are two different entries, however alike they look
+    const candidates = (byAmount.get(`${row.type}|${Math.round(row.amount * 100)}`) || [])
+      .filter(t => !(row.externalId && t.externalId));
+    const match =
+      candidates.find(t => !claimed.has(t.id) && t.date === row.date && namesMatch(t.name, row.name)) ||
+      candidates.find(t => !claimed.has(t.id) && t.date === row.date) ||
+      candidates.find(t => !claimed.has(t.id) && daysApart(t.date, row.date) <= DUPLICATE_DAY_WINDOW && namesMatch(t.name, row.name));
+    if (!match) return { ...row, duplicateOf: undefined };
+    claimed.add(match.id);
+    return { ...row, duplicateOf: match.id };
+  });
+}
@@ -0,0 +1,59 @@
+import type { Invoice, Receipt, TaxPayment, Transaction, TrashItem, TrashKind } from "../types";
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function trashId(kind: TrashKind, recordId: string): string {
+  return `${kind}:${recordId}`;
+}
+
+export function toTrash(kind: TrashKind, record: TrashItem["record"], now: Date = new Date(), linkedTransactions: Transaction[] = []): TrashItem {
+  return { id: trashId(kind, record.id), kind, deletedAt: now.toISOString(), record, linkedTransactions: linkedTransactions.length > 0 ? linkedTransactions : undefined };
+}
+
+/** Adds items to the front of the trash, replacing any earlier copy of the same record. */
+export function addToTrash(trash: TrashItem[], items: TrashItem[]): TrashItem[] {
+  const ids = new Set(items.map(i => i.id));
+  return [...items, ...trash.filter(i => !ids.has(i.id))];
+}
+
+/** Whole days until the item is purged; 0 once it is due. */
+export function daysLeft(item: TrashItem, now: Date = new Date()): number {
+  const expires = Date.parse(item.deletedAt) + TRASH_RETENTION_DAYS * DAY_MS;
+  return Math.max(0, Math.ceil((expires - now.getTime()) / DAY_MS));
+}
+
+/** Drops items past the retention period. Returns the same array when nothing expired. */
+export function purgeExpired(trash: TrashItem[], now: Date = new Date()): TrashItem[] {
+  const kept = trash.filter(item => daysLeft(item, now) > 0);
+  return kept.length === trash.length ? trash : kept;
+}
+
+/** The dates a restore would bring back into the books, for the period-close check. */
+export function trashItemDates(item: TrashItem): string[] {
+  return [item.record.date, ...(item.linkedTransactions || []).map(t => t.date)].filter((d): d is string => !!d);
+}
+
+const paymentNote = (count: number) => (count === 0 ? "" : count === 1 ? " · with payment" : ` · with ${count} payments`);
+
+export function describeTrashItem(item: TrashItem): { title: string; subtitle: string; amount?: number } {
+  switch (item.kind) {
+    case "transaction": {
+      const t = item.record as Transaction;
+      return { title: t.name, subtitle: `Transaction · ${t.date} · ${t.category}`, amount: t.amount };
+    }
+    case "invoice": {
+      const inv = item.record as Invoice;
+      return { title: inv.client, subtitle: `Invoice${inv.number ? ` ${inv.number}` : ""} · ${inv.date}${paymentNote(item.linkedTransactions?.length || 0)}`, amount: inv.amount };
+    }
+    case "taxPayment": {
+      const p = item.record as TaxPayment;
+      return { title: `${p.type} tax payment`, subtitle: `Tax payment · ${p.date}${p.note ? ` · ${p.note}` : ""}`, amount: p.amount };
+    }
+    case "receipt": {
+      const r = item.record as Receipt;
+      return { title: r.note || "Receipt", subtitle: `Receipt · ${r.date}` };
+    }
+  }
+}
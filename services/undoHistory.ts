@@ -0,0 +1,91 @@
+// A linear undo/redo history. Each entry holds only the records a change touched,
+// so taking it back leaves everything edited since (by other records) alone.
+
+export type UndoEntry<T> = {
+  label: string; // e.g. "Delete transaction"
+  patch: T; // Turns the state after the change back into the state before it
+};
+
+export type UndoHistory<T> = {
+  past: UndoEntry<T>[];
+  future: UndoEntry<T>[];
+};
+
+export const UNDO_LIMIT = 50;
+
+type Keyed = { id: string };
+
+/** Records to put back (at their old position) and ids to drop. */
+export type ListPatch<T extends Keyed> = {
+  put: { index: number; item: T }[];
+  remove: string[];
+};
+
+export function emptyHistory<T>(): UndoHistory<T> {
+  return { past: [], future: [] };
+}
+
+/**
+ * The patch that turns `from` into `to`, limited to records that differ.
+ * State updates are immutable, so an unchanged record is the same object.
+ */
+export function listPatch<T extends Keyed>(from: T[], to: T[]): ListPatch<T> | null {
+  if (from === to) return null;
+  const before = new Map(from.map(item => [item.id, item]));
+  const kept = new Set(to.map(item => item.id));
+  const remove = from.filter(item => !kept.has(item.id)).map(item => item.id);
+  const put = to.flatMap((item, index) => (before.get(item.id) === item ? [] : [{ index, item }]));
+  return put.length || remove.length ? { put, remove } : null;
+}
+
+export function applyListPatch<T extends Keyed>(list: T[], patch: ListPatch<T>): T[] {
+  const removed = new Set(patch.remove);
+  const puts = new Map(patch.put.map(p => [p.item.id, p.item]));
+  const result = list.filter(item => !removed.has(item.id)).map(item => puts.get(item.id) ?? item);
+  const present = new Set(result.map(item => item.id));
+  for (const { index, item } of patch.put) {
+    if (!present.has(item.id)) result.splice(Math.min(index, result.length), 0, item);
+  }
+  return result;
+}
+
+/** The fields of `to` that differ from `from`, leaving out `skip`. */
+export function fieldPatch<T extends object>(from: T, to: T, skip: (keyof T)[] = []): Partial<T> | null {
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)] as (keyof T)[]);
+  const patch: Partial<T> = {};
+  let changed = false;
+  keys.forEach(key => {
+    if (skip.includes(key) || from[key] === to[key]) return;
+    patch[key] = to[key];
+    changed = true;
+  });
+  return changed ? patch : null;
+}
+
+/** Records a change. A new change discards anything that could be redone. */
+export function pushUndo<T>(history: UndoHistory<T>, entry: UndoEntry<T>): UndoHistory<T> {
+  return { past: [...history.past, entry].slice(-UNDO_LIMIT), future: [] };
+}
+
+/**
+ * Steps back one change. `apply` applies the entry's patch and returns the patch that
+ * re-applies the change, which moves onto the redo side. Null when there is nothing to undo.
+ */
+export function stepBack<T>(history: UndoHistory<T>, apply: (patch: T) => T): { history: UndoHistory<T>; entry: UndoEntry<T> } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    history: { past: history.past.slice(0, -1), future: [...history.future, { ...entry, patch: apply(entry.patch) }] },
+  };
+}
+
+/** Re-applies the most recently undone change; null when there is nothing to redo. */
+export function stepForward<T>(history: UndoHistory<T>, apply: (patch: T) => T): { history: UndoHistory<T>; entry: UndoEntry<T> } | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    history: { past: [...history.past, { ...entry, patch: apply(entry.patch) }], future: history.future.slice(0, -1) },
+  };
+}
@@ -1,5 +1,24 @@
 
-export type TransactionType = 'income' | 'expense';
+// Transfers move money between two accounts and are neither income nor expense
+export type TransactionType = 'income' | 'expense' | 'transfer';
+
+export type AccountType = 'checking' | 'savings' | 'credit_card' | 'cash' | 'other';
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  openingBalance: number; // Credit cards: enter what is owed as a negative number
+  archived?: boolean;
+}
+
+// One line of a split transaction; the lines always add up to the transaction amount
+export interface TransactionSplit {
+  id: string;
+  category: string;
+  amount: number;
+  note?: string;
+}
 
 export interface Transaction {
   id: string;
@@ -9,9 +28,117 @@ export interface Transaction {
   amount: number;
   notes?: string;
   type: TransactionType;
+  externalId?: string; // Set by statement import (e.g. OFX FITID) to recognise re-imports
+  splits?: TransactionSplit[]; // When present, `category` holds the largest line's category
+  accountId?: string; // For transfers, the account the money leaves
+  transferAccountId?: string; // Transfers only: the account the money arrives in
+  cleared?: boolean; // Ticked off against a bank statement
+  reconciliationId?: string; // Set once the statement is finished; the transaction is then locked
+}
+
+// A finished statement reconciliation. Everything in `transactionIds` is locked,
+// and no entry can be added to or moved into the account on or before `statementDate`.
+export interface Reconciliation {
+  id: string;
+  accountId: string;
+  statementDate: string;
+  statementBalance: number;
+  transactionIds: string[];
+  completedAt: string; // ISO timestamp
+}
+
+// Auto-categorization rule. Rules are evaluated in list order; the first
+// enabled rule whose conditions all match wins.
+export interface CategoryRule {
+  id: string;
+  enabled: boolean;
+  matchType: 'income' | 'expense' | 'any';
+  nameContains?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  category: string;
+}
+
+export type AuditEntity = 'transaction' | 'invoice' | 'taxPayment' | 'client' | 'settings' | 'data'; // 'data' is the whole data set
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'reset' | 'restore';
+
+// One append-only change log entry. Updates keep only the fields that changed.
+export interface AuditEntry {
+  id: string;
+  at: string; // ISO timestamp
+  entity: AuditEntity;
+  recordId: string; // "settings" for the settings singleton
+  action: AuditAction;
+  actor?: string; // Owner name at the time of the change
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+export type TrashKind = 'transaction' | 'invoice' | 'receipt' | 'taxPayment';
+
+// A soft-deleted record, kept for TRASH_RETENTION_DAYS before it is purged for good
+export interface TrashItem {
+  id: string; // `${kind}:${record id}`
+  kind: TrashKind;
+  deletedAt: string; // ISO timestamp
+  record: Transaction | Invoice | Receipt | TaxPayment;
+  linkedTransactions?: Transaction[]; // An invoice's payments, deleted along with it
+}
+
+// Drafts aren't receivables until they are sent. 'unpaid' covers invoices
+// issued before drafts existed.
+export type InvoiceStatus = 'draft' | 'sent' | 'unpaid' | 'partial' | 'paid' | 'void';
+
+export type LateFeeKind = 'flat' | 'percent';
+
+// A fee charged once an invoice is more than `graceDays` past due. Compounding
+// adds another every 30 days, percentages taken on the balance including earlier fees.
+export interface LateFeeRule {
+  enabled: boolean;
+  kind: LateFeeKind;
+  amount: number; // Currency amount, or percent of the balance due
+  graceDays: number;
+  compoundMonthly: boolean;
+}
+
+// A payment reminder that went out, keyed by its step in the reminder schedule
+export interface InvoiceReminder {
+  offsetDays: number; // Relative to the due date; negative is before it
+  sentAt: string; // ISO timestamp
+}
+
+// How invoice emails leave the app: the device mail app, the share sheet,
+// or an HTTP relay on the local network that forwards to an SMTP server
+export type EmailTransportKind = 'mailto' | 'share' | 'smtp';
+
+export interface SmtpRelaySettings {
+  endpoint: string; // e.g. http://localhost:8025/send
+  from: string; // The relay's bearer token is kept outside settings; see dataStore
+}
+
+export interface InvoiceEmailSettings {
+  transport: EmailTransportKind;
+  subjectTemplate: string; // {{placeholders}} are filled from the invoice
+  bodyTemplate: string;
+  smtp?: SmtpRelaySettings;
 }
 
-export type InvoiceStatus = 'unpaid' | 'paid' | 'void';
+// One step of an invoice's status timeline
+export interface InvoiceStatusChange {
+  status: InvoiceStatus;
+  at: string; // ISO timestamp
+}
+
+// One amount received against an invoice, booked as its own income transaction
+export interface InvoicePayment {
+  id: string;
+  date: string;
+  amount: number;
+  method?: string; // One of the settings' payPrefs
+  transactionId: string;
+  bookedAmount?: number; // What arrived in the app currency when the invoice is billed in another; the income transaction records this
+}
 
 export type RecurrenceFrequency = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
 
@@ -20,11 +147,84 @@ export interface InvoiceItem {
   description: string;
   quantity: number;
   rate: number;
+  unit?: CatalogUnit;
+  taxable?: boolean; // false exempts the line from the invoice tax rate
+  catalogItemId?: string;
+  lateFee?: boolean; // Added by a late-fee rule
+}
+
+export type CatalogUnit = 'hour' | 'day' | 'item';
+
+// Saved product or service that can be added to invoices as a line item
+export interface CatalogItem {
+  id: string;
+  name: string;
+  description?: string;
+  rate: number;
+  unit: CatalogUnit;
+  taxable: boolean;
+  category: string; // One of the billing categories
+  archived?: boolean;
+}
+
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'declined' | 'expired';
+
+// An estimate sent before the work. It shares the invoice's client and line-item
+// fields and, once accepted, converts into an invoice that keeps its lines.
+export interface Quote extends Pick<Invoice, 'clientId' | 'client' | 'clientCompany' | 'clientAddress' | 'clientEmail' | 'amount' | 'category' | 'description' | 'date' | 'notes' | 'terms' | 'items' | 'subtotal' | 'discount' | 'taxRate' | 'shipping' | 'poNumber' | 'currency'> {
+  id: string;
+  number: string; // QT-0001
+  validUntil: string;
+  status: QuoteStatus;
+  invoiceId?: string; // Set once converted
+}
+
+export type CreditKind = 'credit_note' | 'retainer';
+
+// Money a client can put toward invoices. A credit note reduces an invoice that was
+// overbilled; a retainer is a prepayment, booked as income when it is received.
+export interface ClientCredit {
+  id: string;
+  kind: CreditKind;
+  number: string; // CN-0001, RT-0001
+  clientId?: string;
+  client: string;
+  date: string;
+  amount: number;
+  reason?: string;
+  invoiceId?: string; // Credit notes: the invoice being corrected
+  transactionId?: string; // Retainers: the income transaction for the money received
+  currency?: string;
+}
+
+// Part of a credit put toward an invoice's balance. No income is booked for it.
+export interface AppliedCredit {
+  id: string;
+  creditId: string;
+  date: string;
+  amount: number;
+}
+
+// Saved client whose details and defaults fill in new invoices
+export interface Client {
+  id: string;
+  name: string;
+  company?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  paymentTermsDays?: number; // Due date = invoice date + this
+  defaultTerms?: string; // Terms text printed on the invoice
+  defaultTaxRate?: number; // Percent
+  defaultCurrency?: string; // ISO code, e.g. "USD"
+  notes?: string;
+  archived?: boolean;
 }
 
 export interface Invoice {
   id: string;
   number?: string;
+  clientId?: string;
   client: string;
   // Extended Client Info
   clientCompany?: string;
@@ -40,7 +240,12 @@ export interface Invoice {
   terms?: string; // Payment terms
   status: InvoiceStatus;
   payMethod?: string;
-  linkedTransactionId?: string;
+  payments?: InvoicePayment[];
+  credits?: AppliedCredit[];
+  statusHistory?: InvoiceStatusChange[]; // Oldest first
+  lateFeeRule?: LateFeeRule; // Overrides the default in settings
+  reminders?: InvoiceReminder[];
+  sentAt?: string; // ISO timestamp of the last email delivery
   recurrence?: {
     active: boolean;
     frequency: RecurrenceFrequency;
@@ -54,6 +259,17 @@ export interface Invoice {
   taxRate?: number; // Percent
   shipping?: number; // Fixed amount
   poNumber?: string;
+  currency?: string; // ISO code; the app currency when unset
+}
+
+// How new invoice numbers are built, e.g. INV-2026-0042
+export interface InvoiceNumbering {
+  prefix: string;
+  nextNumber: number;
+  padding: number; // Minimum digits, zero-filled
+  includeYear: boolean; // Put the invoice date's year after the prefix
+  resetYearly: boolean; // Start again at 1 in each new year (only when the year is included)
+  lastYear?: number; // Year of the last number issued, for the yearly reset
 }
 
 export type FilingStatus = 'single' | 'joint' | 'head';
@@ -86,6 +302,46 @@ export interface UserSettings {
   // Invoice Defaults
   defaultInvoiceTerms?: string;
   defaultInvoiceNotes?: string;
+  invoiceNumbering?: InvoiceNumbering;
+  lateFeeRule?: LateFeeRule;
+  reminderSchedule?: number[]; // Days relative to the due date
+  invoiceEmail?: InvoiceEmailSettings;
+
+  // First month of the fiscal year (0 = January); drives quarters, years and YTD
+  fiscalYearStartMonth?: number;
+
+  // Saved ledger searches
+  ledgerPresets?: LedgerFilterPreset[];
+
+  // Period close: entries dated on or before this are read-only
+  closingDate?: string;
+  periodUnlocks?: PeriodUnlock[];
+}
+
+// Ledger search and filters beyond the type tabs and period picker
+export interface LedgerQuery {
+  text: string;
+  minAmount?: number;
+  maxAmount?: number;
+  fromDate?: string; // Replaces the period picker when set
+  toDate?: string;
+  categories: string[]; // Any of these; empty means all
+}
+
+export interface LedgerFilterPreset {
+  id: string;
+  name: string;
+  query: LedgerQuery;
+  typeFilter?: 'all' | 'income' | 'expense' | 'invoice';
+}
+
+// Logged each time someone unlocks a closed period to change it; an unlock covers that one change
+export interface PeriodUnlock {
+  id: string;
+  at: string; // ISO timestamp
+  closingDate: string;
+  reason: string;
+  change?: string; // What was changed, e.g. "This transaction"; older entries don't have it
 }
 
 export interface CustomCategories {
@@ -113,9 +369,16 @@ export interface Notification {
   id: string;
   message: string;
   type: 'success' | 'error' | 'info';
+  action?: { label: string; onClick: () => void }; // e.g. "Undo"
 }
 
-export type FilterPeriod = 'all' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type FilterPeriod = 'all' | 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom';
+
+// Inclusive YYYY-MM-DD bounds
+export interface DateRange {
+  start: string;
+  end: string;
+}
 
 export enum Page {
   Dashboard = 'dashboard',
@@ -123,6 +386,7 @@ export enum Page {
   Income = 'income',
   Expenses = 'expenses',
   Invoices = 'invoices',
+  Clients = 'clients',
   Reports = 'reports',
   Settings = 'settings',
   InvoiceDoc = 'invoice_doc'